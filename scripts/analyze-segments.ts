@@ -1,383 +1,326 @@
 /**
  * Segment Analysis Script
  * 
- * Analyzes the gravel and tarmac GPX files to identify overlapping
- * and diverging segments. Outputs segments.json for use in the app.
+ * Analyzes the route variant files (gravel, tarmac, ...) to identify
+ * overlapping and diverging segments, using the shared segment analysis
+ * in src/utils/segmentAnalysis.ts (the app runs the same analysis on
+ * uploaded routes). Each variant is aligned against the first (primary)
+ * variant. Outputs segments.json for use in the app, and optionally a JSON summary
+ * report (segment counts, shared/diverging distance, per-segment deltas).
  * 
- * Run with: npx ts-node scripts/analyze-segments.ts
+ * Run with: npm run analyze -- [options]
+ * 
+ * Options:
+ *   --route <id>=<file>      Route variant to compare (repeatable, in order):
+ *                            GPX, TCX, FIT or GeoJSON. Defaults to the
+ *                            gravel and tarmac routes.
+ *   --primary <id>           Variant to align the others against (default: first)
+ *   --output <path>          Segments JSON path (default: public/data/segments.json)
+ *   --report <path>          Write a JSON summary report ("-" for stdout)
+ *   --threshold <m>          Max distance for routes to count as shared (default: 100)
+ *   --min-segment <m>        Minimum segment length (default: 500)
+ *   --sample-interval <m>    Primary route sample spacing, 0 = every point (default: 0)
+ *   --climbing <method>      Elevation gain method: raw, threshold or smoothed
+ *                            (default: smoothed, as in the app)
+ *   --help                   Show this help
  */
 
 import * as fs from 'fs';
 import * as path from 'path';
 import { fileURLToPath } from 'url';
+import { parseArgs } from 'util';
+import type { Position } from 'geojson';
+import type { RouteGap } from '../src/types/route';
+import type { Segment } from '../src/types/segments';
+import {
+  CLIMBING_METHODS,
+  DEFAULT_CLIMBING_METHOD,
+  type ClimbingMethod,
+} from '../src/utils/elevation';
+import { joinLines } from '../src/utils/routeData';
+import {
+  analyzeSegments,
+  DEFAULT_ANALYSIS_OPTIONS,
+  summarizeSegments,
+  type SegmentAnalysisResult,
+  type SegmentSummary,
+} from '../src/utils/segmentAnalysis';
+import { DATA_DIR, DEFAULT_VARIANTS, readRouteFile, type VariantInput } from './route-files';
 
 const __filename = fileURLToPath(import.meta.url);
-const __dirname = path.dirname(__filename);
-
-// Constants
-const OVERLAP_THRESHOLD_METERS = 100;
-const MIN_SEGMENT_LENGTH_METERS = 500; // Minimum segment length to avoid tiny segments
 
-interface Coordinate {
-  lng: number;
-  lat: number;
-  elevation: number;
+interface AnalysisOptions {
+  variants: VariantInput[]; // primary first
+  outputPath: string;
+  reportPath: string | null; // "-" for stdout
+  thresholdMeters: number;
+  minSegmentMeters: number;
+  sampleIntervalMeters: number;
+  climbingMethod: ClimbingMethod;
 }
 
-interface RoutePoint extends Coordinate {
-  distanceFromStart: number; // meters
+interface AnalysisReport {
+  generatedAt: string;
+  options: {
+    primary: string;
+    thresholdMeters: number;
+    minSegmentMeters: number;
+    sampleIntervalMeters: number;
+    climbingMethod: ClimbingMethod;
+  };
+  routes: { id: string; file: string; points: number; distanceKm: number }[];
+  summary: SegmentSummary;
+  segments: {
+    id: string;
+    order: number;
+    type: Segment['type'];
+    variants: Record<string, { distanceKm: number; elevationGain: number; elevationLoss: number }>;
+    // Difference from the primary route: variant id -> delta
+    deltas: Record<string, { distanceKm: number; elevationGain: number }>;
+  }[];
 }
 
-interface SegmentStats {
-  coordinates: [number, number, number][]; // [lng, lat, elevation]
-  distanceKm: number;
-  elevationGain: number;
-  elevationLoss: number;
-}
+// Progress output moves to stderr when the report is written to stdout
+let logToStderr = false;
 
-interface Segment {
-  id: string;
-  type: 'shared' | 'diverging';
-  order: number;
-  gravel: SegmentStats;
-  tarmac: SegmentStats;
+function log(message = ''): void {
+  if (logToStderr) {
+    console.error(message);
+  } else {
+    console.log(message);
+  }
 }
 
 /**
- * Parse GPX file and extract track points
+ * Parse a route file (GPX, TCX, FIT or GeoJSON) and extract its points.
+ * Track segments are joined in file order, like the app does, with the
+ * breaks between them recorded as gaps.
  */
-function parseGpx(filePath: string): Coordinate[] {
-  const content = fs.readFileSync(filePath, 'utf-8');
-  const coordinates: Coordinate[] = [];
-  
-  // Simple regex-based parsing for trkpt elements
-  const trkptRegex = /<trkpt\s+lat="([^"]+)"\s+lon="([^"]+)"[^>]*>[\s\S]*?<ele>([^<]+)<\/ele>[\s\S]*?<\/trkpt>/g;
-  // Also handle the reverse order (lon before lat) seen in some GPX files
-  const trkptRegex2 = /<trkpt\s+lon="([^"]+)"\s+lat="([^"]+)"[^>]*>[\s\S]*?<ele>([^<]+)<\/ele>[\s\S]*?<\/trkpt>/g;
-  
-  let match;
-  while ((match = trkptRegex.exec(content)) !== null) {
-    coordinates.push({
-      lat: parseFloat(match[1]),
-      lng: parseFloat(match[2]),
-      elevation: parseFloat(match[3]),
-    });
-  }
-  
-  // If no matches, try the other format
-  if (coordinates.length === 0) {
-    while ((match = trkptRegex2.exec(content)) !== null) {
-      coordinates.push({
-        lng: parseFloat(match[1]),
-        lat: parseFloat(match[2]),
-        elevation: parseFloat(match[3]),
-      });
-    }
-  }
+function parseRoute(filePath: string): { coordinates: Position[]; gaps: RouteGap[] } {
+  const parsed = readRouteFile(filePath);
+  const { coordinates, gaps } = joinLines(parsed.lines);
   
-  console.log(`Parsed ${coordinates.length} points from ${path.basename(filePath)}`);
-  return coordinates;
+  log(
+    `Parsed ${coordinates.length} points from ${path.basename(filePath)} ` +
+      `(${parsed.format.toUpperCase()})`
+  );
+  return { coordinates, gaps };
 }
 
 /**
- * Calculate distance between two coordinates using Haversine formula
+ * Summarize the analysis as a machine-readable report
  */
-function haversineDistance(coord1: Coordinate, coord2: Coordinate): number {
-  const R = 6371000; // Earth's radius in meters
-  const dLat = ((coord2.lat - coord1.lat) * Math.PI) / 180;
-  const dLon = ((coord2.lng - coord1.lng) * Math.PI) / 180;
-  const a =
-    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-    Math.cos((coord1.lat * Math.PI) / 180) *
-      Math.cos((coord2.lat * Math.PI) / 180) *
-      Math.sin(dLon / 2) *
-      Math.sin(dLon / 2);
-  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-  return R * c;
+function buildReport(
+  { segments, routes }: SegmentAnalysisResult,
+  options: AnalysisOptions
+): AnalysisReport {
+  const primaryId = routes[0].id;
+  
+  return {
+    generatedAt: new Date().toISOString(),
+    options: {
+      primary: primaryId,
+      thresholdMeters: options.thresholdMeters,
+      minSegmentMeters: options.minSegmentMeters,
+      sampleIntervalMeters: options.sampleIntervalMeters,
+      climbingMethod: options.climbingMethod,
+    },
+    routes: routes.map((route, i) => ({ ...route, file: options.variants[i].file })),
+    summary: summarizeSegments(segments, primaryId),
+    segments: segments.map((segment) => {
+      const primaryStats = segment.variants[primaryId];
+      const variantSummaries: AnalysisReport['segments'][number]['variants'] = {};
+      const deltas: AnalysisReport['segments'][number]['deltas'] = {};
+      for (const [id, stats] of Object.entries(segment.variants)) {
+        variantSummaries[id] = {
+          distanceKm: stats.distanceKm,
+          elevationGain: stats.elevationGain,
+          elevationLoss: stats.elevationLoss,
+        };
+        if (id !== primaryId) {
+          deltas[id] = {
+            distanceKm: stats.distanceKm - primaryStats.distanceKm,
+            elevationGain: stats.elevationGain - primaryStats.elevationGain,
+          };
+        }
+      }
+      return {
+        id: segment.id,
+        order: segment.order,
+        type: segment.type,
+        variants: variantSummaries,
+        deltas,
+      };
+    }),
+  };
 }
 
 /**
- * Add cumulative distance to route points
+ * Log a human-readable summary of the report
  */
-function addDistances(coordinates: Coordinate[]): RoutePoint[] {
-  let cumulativeDistance = 0;
-  return coordinates.map((coord, i) => {
-    if (i > 0) {
-      cumulativeDistance += haversineDistance(coordinates[i - 1], coord);
-    }
-    return {
-      ...coord,
-      distanceFromStart: cumulativeDistance,
-    };
-  });
+function logSummary(report: AnalysisReport): void {
+  const { summary } = report;
+  
+  log('\n=== Analysis Summary ===');
+  log(`Total segments: ${summary.totalSegments}`);
+  log(`Shared segments: ${summary.sharedSegments}`);
+  log(`Diverging segments: ${summary.divergingSegments}`);
+  
+  log(`\nShared distance: ${summary.sharedKm.toFixed(1)} km`);
+  for (const [id, km] of Object.entries(summary.divergingKm)) {
+    log(`Diverging ${id} distance: ${km.toFixed(1)} km`);
+  }
+  
+  log('\nDiverging segments:');
+  report.segments
+    .filter((s) => s.type === 'diverging')
+    .forEach((s) => {
+      const options = Object.entries(s.variants)
+        .map(([id, v]) => `${id} ${v.distanceKm.toFixed(1)}km +${v.elevationGain.toFixed(0)}m`)
+        .join(' | ');
+      log(`  ${s.id}: ${options}`);
+    });
 }
 
 /**
- * Find the nearest point on route2 to a given point
+ * Parse a non-negative number option
  */
-function findNearestPoint(point: Coordinate, route: RoutePoint[]): { point: RoutePoint; distance: number } {
-  let nearestPoint = route[0];
-  let minDistance = Infinity;
-  
-  for (const routePoint of route) {
-    const distance = haversineDistance(point, routePoint);
-    if (distance < minDistance) {
-      minDistance = distance;
-      nearestPoint = routePoint;
-    }
+function parseMeters(value: string | undefined, name: string, fallback: number): number {
+  if (value === undefined) return fallback;
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed < 0) {
+    throw new Error(`--${name} must be a non-negative number of meters, got "${value}"`);
   }
-  
-  return { point: nearestPoint, distance: minDistance };
+  return parsed;
 }
 
 /**
- * Sample route at regular intervals
+ * Parse command-line arguments into analysis options
  */
-function sampleRoute(route: RoutePoint[], intervalMeters: number): RoutePoint[] {
-  if (route.length === 0) return [];
+function parseOptions(argv: string[]): AnalysisOptions | null {
+  const { values } = parseArgs({
+    args: argv,
+    options: {
+      route: { type: 'string', multiple: true },
+      primary: { type: 'string' },
+      output: { type: 'string' },
+      report: { type: 'string' },
+      threshold: { type: 'string' },
+      'min-segment': { type: 'string' },
+      'sample-interval': { type: 'string' },
+      climbing: { type: 'string' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
   
-  const sampled: RoutePoint[] = [route[0]];
-  let lastSampledDistance = 0;
+  if (values.help) return null;
   
-  for (let i = 1; i < route.length; i++) {
-    const currentDistance = route[i].distanceFromStart;
-    if (currentDistance - lastSampledDistance >= intervalMeters) {
-      sampled.push(route[i]);
-      lastSampledDistance = currentDistance;
-    }
+  let variants = DEFAULT_VARIANTS;
+  if (values.route) {
+    variants = values.route.map((spec) => {
+      const separator = spec.indexOf('=');
+      if (separator <= 0 || separator === spec.length - 1) {
+        throw new Error(`--route must look like <id>=<path>, got "${spec}"`);
+      }
+      return { id: spec.slice(0, separator), file: path.resolve(spec.slice(separator + 1)) };
+    });
   }
   
-  // Always include the last point
-  if (sampled[sampled.length - 1] !== route[route.length - 1]) {
-    sampled.push(route[route.length - 1]);
+  const ids = variants.map((v) => v.id);
+  if (new Set(ids).size !== ids.length) {
+    throw new Error(`Route ids must be unique, got ${ids.join(', ')}`);
+  }
+  if (variants.length < 2) {
+    throw new Error('At least two routes are needed to compare');
   }
   
-  return sampled;
-}
-
-/**
- * Determine overlap status for each point on the primary route
- */
-function analyzeOverlap(
-  primaryRoute: RoutePoint[],
-  secondaryRoute: RoutePoint[],
-  threshold: number
-): { point: RoutePoint; isOverlapping: boolean; nearestOnSecondary: RoutePoint }[] {
-  return primaryRoute.map((point) => {
-    const { point: nearestPoint, distance } = findNearestPoint(point, secondaryRoute);
-    return {
-      point,
-      isOverlapping: distance <= threshold,
-      nearestOnSecondary: nearestPoint,
-    };
-  });
-}
-
-/**
- * Calculate segment statistics
- * Sums all positive elevation differences (no threshold filtering)
- */
-function calculateSegmentStats(points: RoutePoint[]): SegmentStats {
-  if (points.length === 0) {
-    return {
-      coordinates: [],
-      distanceKm: 0,
-      elevationGain: 0,
-      elevationLoss: 0,
-    };
+  // Move the primary route to the front
+  if (values.primary) {
+    const primary = variants.find((v) => v.id === values.primary);
+    if (!primary) {
+      throw new Error(`--primary "${values.primary}" is not one of: ${ids.join(', ')}`);
+    }
+    variants = [primary, ...variants.filter((v) => v !== primary)];
   }
   
-  let elevationGain = 0;
-  let elevationLoss = 0;
-  let totalDistance = 0;
+  const climbingMethod = (values.climbing ?? DEFAULT_CLIMBING_METHOD) as ClimbingMethod;
+  if (!(climbingMethod in CLIMBING_METHODS)) {
+    throw new Error(
+      `--climbing must be one of: ${Object.keys(CLIMBING_METHODS).join(', ')}, got "${climbingMethod}"`
+    );
+  }
   
-  for (let i = 1; i < points.length; i++) {
-    totalDistance += haversineDistance(points[i - 1], points[i]);
-    
-    const diff = points[i].elevation - points[i - 1].elevation;
-    if (diff > 0) {
-      elevationGain += diff;
-    } else {
-      elevationLoss += Math.abs(diff);
-    }
+  const thresholdMeters = parseMeters(
+    values.threshold,
+    'threshold',
+    DEFAULT_ANALYSIS_OPTIONS.thresholdMeters
+  );
+  if (thresholdMeters === 0) {
+    throw new Error('--threshold must be greater than 0');
   }
   
   return {
-    coordinates: points.map((p) => [p.lng, p.lat, p.elevation]),
-    distanceKm: totalDistance / 1000,
-    elevationGain,
-    elevationLoss,
+    variants,
+    outputPath: values.output ? path.resolve(values.output) : path.join(DATA_DIR, 'segments.json'),
+    reportPath: values.report ? (values.report === '-' ? '-' : path.resolve(values.report)) : null,
+    thresholdMeters,
+    minSegmentMeters: parseMeters(
+      values['min-segment'],
+      'min-segment',
+      DEFAULT_ANALYSIS_OPTIONS.minSegmentMeters
+    ),
+    sampleIntervalMeters: parseMeters(
+      values['sample-interval'],
+      'sample-interval',
+      DEFAULT_ANALYSIS_OPTIONS.sampleIntervalMeters
+    ),
+    climbingMethod,
   };
 }
 
 /**
- * Extract points from a route between two distance values
- */
-function extractRouteSection(
-  route: RoutePoint[],
-  startDistance: number,
-  endDistance: number
-): RoutePoint[] {
-  return route.filter(
-    (p) => p.distanceFromStart >= startDistance && p.distanceFromStart <= endDistance
-  );
-}
-
-/**
- * Find corresponding section on secondary route based on nearest points
- */
-function findCorrespondingSection(
-  primarySection: RoutePoint[],
-  secondaryRoute: RoutePoint[]
-): RoutePoint[] {
-  if (primarySection.length === 0) return [];
-  
-  // Find the range of distances on secondary route that correspond to this section
-  const startNearest = findNearestPoint(primarySection[0], secondaryRoute);
-  const endNearest = findNearestPoint(primarySection[primarySection.length - 1], secondaryRoute);
-  
-  const startDist = Math.min(startNearest.point.distanceFromStart, endNearest.point.distanceFromStart);
-  const endDist = Math.max(startNearest.point.distanceFromStart, endNearest.point.distanceFromStart);
-  
-  return extractRouteSection(secondaryRoute, startDist, endDist);
-}
-
-/**
- * Merge small segments into larger ones
+ * Print the usage text from this file's header comment
  */
-function mergeSmallSegments(
-  transitions: { distance: number; isOverlapping: boolean }[],
-  minLength: number
-): { distance: number; isOverlapping: boolean }[] {
-  if (transitions.length <= 1) return transitions;
-  
-  const merged: { distance: number; isOverlapping: boolean }[] = [transitions[0]];
-  
-  for (let i = 1; i < transitions.length; i++) {
-    const lastMerged = merged[merged.length - 1];
-    const current = transitions[i];
-    const segmentLength = current.distance - lastMerged.distance;
-    
-    if (segmentLength < minLength && merged.length > 1) {
-      // Merge this small segment with the previous one by removing the last transition
-      merged.pop();
-    } else {
-      merged.push(current);
-    }
-  }
-  
-  return merged;
+function printHelp(): void {
+  const source = fs.readFileSync(__filename, 'utf-8');
+  const header = source.slice(source.indexOf('Run with:'), source.indexOf('*/'));
+  console.log(header.replace(/^ \* ?/gm, '').trimEnd());
 }
 
-/**
- * Main analysis function
- */
-function analyzeSegments(): Segment[] {
-  const dataDir = path.join(__dirname, '..', 'public', 'data');
-  
-  // Parse GPX files
-  const gravelCoords = parseGpx(path.join(dataDir, 'gravel.gpx'));
-  const tarmacCoords = parseGpx(path.join(dataDir, 'tarmac.gpx'));
-  
-  // Add distances
-  const gravelRoute = addDistances(gravelCoords);
-  const tarmacRoute = addDistances(tarmacCoords);
-  
-  console.log(`Gravel route: ${(gravelRoute[gravelRoute.length - 1].distanceFromStart / 1000).toFixed(1)} km`);
-  console.log(`Tarmac route: ${(tarmacRoute[tarmacRoute.length - 1].distanceFromStart / 1000).toFixed(1)} km`);
-  
-  // Sample routes for faster analysis (every 50 meters)
-  const sampledGravel = sampleRoute(gravelRoute, 50);
-  const sampledTarmac = sampleRoute(tarmacRoute, 50);
-  
-  console.log(`Sampled gravel: ${sampledGravel.length} points`);
-  console.log(`Sampled tarmac: ${sampledTarmac.length} points`);
-  
-  // Analyze overlap using gravel as primary route
-  const overlapAnalysis = analyzeOverlap(sampledGravel, sampledTarmac, OVERLAP_THRESHOLD_METERS);
-  
-  // Find transition points (where overlap status changes)
-  const transitions: { distance: number; isOverlapping: boolean }[] = [];
-  let currentOverlap = overlapAnalysis[0].isOverlapping;
-  transitions.push({ distance: 0, isOverlapping: currentOverlap });
-  
-  for (let i = 1; i < overlapAnalysis.length; i++) {
-    if (overlapAnalysis[i].isOverlapping !== currentOverlap) {
-      currentOverlap = overlapAnalysis[i].isOverlapping;
-      transitions.push({
-        distance: overlapAnalysis[i].point.distanceFromStart,
-        isOverlapping: currentOverlap,
-      });
-    }
-  }
-  
-  // Add final transition at the end
-  transitions.push({
-    distance: sampledGravel[sampledGravel.length - 1].distanceFromStart,
-    isOverlapping: currentOverlap,
-  });
-  
-  console.log(`Found ${transitions.length - 1} raw transitions`);
-  
-  // Merge small segments
-  const mergedTransitions = mergeSmallSegments(transitions, MIN_SEGMENT_LENGTH_METERS);
-  console.log(`After merging: ${mergedTransitions.length - 1} transitions`);
-  
-  // Build segments
-  const segments: Segment[] = [];
-  
-  for (let i = 0; i < mergedTransitions.length - 1; i++) {
-    const startDist = mergedTransitions[i].distance;
-    const endDist = mergedTransitions[i + 1].distance;
-    const isOverlapping = mergedTransitions[i].isOverlapping;
-    
-    // Extract gravel section (using full route for accuracy)
-    const gravelSection = extractRouteSection(gravelRoute, startDist, endDist);
-    
-    // Find corresponding tarmac section
-    const tarmacSection = findCorrespondingSection(gravelSection, tarmacRoute);
+// Run analysis and save results
+try {
+  const options = parseOptions(process.argv.slice(2));
+  if (!options) {
+    printHelp();
+  } else {
+    logToStderr = options.reportPath === '-';
     
-    if (gravelSection.length === 0) continue;
+    const result = analyzeSegments(
+      options.variants.map(({ id, file }) => ({ id, ...parseRoute(file) })),
+      {
+        thresholdMeters: options.thresholdMeters,
+        minSegmentMeters: options.minSegmentMeters,
+        sampleIntervalMeters: options.sampleIntervalMeters,
+        elevationSettings: CLIMBING_METHODS[options.climbingMethod].settings,
+        log,
+      }
+    );
+    const { segments } = result;
+    const report = buildReport(result, options);
+    logSummary(report);
     
-    const segment: Segment = {
-      id: `seg-${i + 1}`,
-      type: isOverlapping ? 'shared' : 'diverging',
-      order: i + 1,
-      gravel: calculateSegmentStats(gravelSection),
-      tarmac: calculateSegmentStats(tarmacSection),
-    };
+    fs.writeFileSync(options.outputPath, JSON.stringify(segments, null, 2));
+    log(`\nSaved ${segments.length} segments to ${options.outputPath}`);
+    log('Run "npm run bundle" to update the route bundle the app loads');
     
-    segments.push(segment);
+    if (options.reportPath === '-') {
+      console.log(JSON.stringify(report, null, 2));
+    } else if (options.reportPath) {
+      fs.writeFileSync(options.reportPath, JSON.stringify(report, null, 2));
+      log(`Saved report to ${options.reportPath}`);
+    }
   }
-  
-  // Log summary
-  const sharedSegments = segments.filter((s) => s.type === 'shared');
-  const divergingSegments = segments.filter((s) => s.type === 'diverging');
-  
-  console.log('\n=== Analysis Summary ===');
-  console.log(`Total segments: ${segments.length}`);
-  console.log(`Shared segments: ${sharedSegments.length}`);
-  console.log(`Diverging segments: ${divergingSegments.length}`);
-  
-  const totalSharedKm = sharedSegments.reduce((sum, s) => sum + s.gravel.distanceKm, 0);
-  const totalDivergingGravelKm = divergingSegments.reduce((sum, s) => sum + s.gravel.distanceKm, 0);
-  const totalDivergingTarmacKm = divergingSegments.reduce((sum, s) => sum + s.tarmac.distanceKm, 0);
-  
-  console.log(`\nShared distance: ${totalSharedKm.toFixed(1)} km`);
-  console.log(`Diverging gravel distance: ${totalDivergingGravelKm.toFixed(1)} km`);
-  console.log(`Diverging tarmac distance: ${totalDivergingTarmacKm.toFixed(1)} km`);
-  
-  console.log('\nDiverging segments:');
-  divergingSegments.forEach((s) => {
-    console.log(`  ${s.id}: Gravel ${s.gravel.distanceKm.toFixed(1)}km +${s.gravel.elevationGain.toFixed(0)}m | Tarmac ${s.tarmac.distanceKm.toFixed(1)}km +${s.tarmac.elevationGain.toFixed(0)}m`);
-  });
-  
-  return segments;
+} catch (err) {
+  console.error(err instanceof Error ? err.message : err);
+  process.exitCode = 1;
 }
-
-// Run analysis and save results
-const segments = analyzeSegments();
-
-const outputPath = path.join(__dirname, '..', 'public', 'data', 'segments.json');
-fs.writeFileSync(outputPath, JSON.stringify(segments, null, 2));
-console.log(`\nSaved ${segments.length} segments to ${outputPath}`);
@@ -0,0 +1,178 @@
+/**
+ * Route Bundle Script
+ * 
+ * Packs the official route variants, segments.json and surfaces.json (when
+ * present) into one compact file (public/data/route-bundle.json) that the
+ * app loads instead of parsing the route files itself. See
+ * src/utils/routeBundle.ts for the format. Rerun after changing a route
+ * file, running the analysis or enriching surfaces.
+ * 
+ * Run with: npm run bundle -- [options]
+ * 
+ * Options:
+ *   --route <id>=<file>      Route variant to include (repeatable): GPX, TCX,
+ *                            FIT or GeoJSON. Defaults to the gravel and
+ *                            tarmac routes.
+ *   --segments <path>        Segments JSON (default: public/data/segments.json)
+ *   --surfaces <path>        Surfaces JSON from npm run enrich:surfaces
+ *                            (default: public/data/surfaces.json, if present)
+ *   --output <path>          Bundle path (default: public/data/route-bundle.json)
+ *   --help                   Show this help
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import { parseArgs } from 'util';
+import type { Segment } from '../src/types/segments';
+import { decodeRouteBundle, encodeRouteBundle, type BundledTrack } from '../src/utils/routeBundle';
+import { validateSegments } from '../src/utils/segmentValidation';
+import { decodeSurfaceRuns, type SurfaceRuns } from '../src/utils/surface';
+import type { RouteTracks } from '../src/utils/segmentGeometry';
+import { DATA_DIR, DEFAULT_VARIANTS, readRouteTrack, type VariantInput } from './route-files';
+
+const __filename = fileURLToPath(import.meta.url);
+
+interface BundleOptions {
+  variants: VariantInput[];
+  segmentsPath: string;
+  surfacesPath: string | null;
+  outputPath: string;
+}
+
+/**
+ * Read a variant's route file
+ */
+function readTrack({ id, file }: VariantInput): BundledTrack {
+  const track = readRouteTrack(file);
+  console.log(`Read ${track.coordinates.length} points from ${path.basename(file)} as "${id}"`);
+  return { id, ...track };
+}
+
+/**
+ * Read a segments file and validate it against the route tracks
+ */
+function readSegments(filePath: string, tracks: RouteTracks): Segment[] {
+  const data: unknown = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  const errors = validateSegments(data, tracks);
+  if (errors.length > 0) {
+    throw new Error(`${filePath} is invalid:\n${errors.map((e) => `  - ${e}`).join('\n')}`);
+  }
+  return data as Segment[];
+}
+
+/**
+ * Read a surfaces file (route id -> surface runs) and expand the runs of
+ * each bundled route
+ */
+function readSurfaces(filePath: string, tracks: BundledTrack[]): void {
+  const data = JSON.parse(fs.readFileSync(filePath, 'utf-8')) as Record<string, SurfaceRuns>;
+  for (const track of tracks) {
+    const runs = data[track.id];
+    if (!runs) {
+      console.warn(`No surfaces for "${track.id}" in ${path.basename(filePath)}`);
+      continue;
+    }
+    if (runs.some(([start]) => start >= track.coordinates.length)) {
+      throw new Error(
+        `${filePath}: surfaces for "${track.id}" run past its ${track.coordinates.length} points; rerun npm run enrich:surfaces`
+      );
+    }
+    track.surfaces = decodeSurfaceRuns(runs, track.coordinates.length);
+  }
+}
+
+/**
+ * Parse command-line arguments into bundle options
+ */
+function parseOptions(argv: string[]): BundleOptions | null {
+  const { values } = parseArgs({
+    args: argv,
+    options: {
+      route: { type: 'string', multiple: true },
+      segments: { type: 'string' },
+      surfaces: { type: 'string' },
+      output: { type: 'string' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+  
+  if (values.help) return null;
+  
+  let variants = DEFAULT_VARIANTS;
+  if (values.route) {
+    variants = values.route.map((spec) => {
+      const separator = spec.indexOf('=');
+      if (separator <= 0 || separator === spec.length - 1) {
+        throw new Error(`--route must look like <id>=<path>, got "${spec}"`);
+      }
+      return { id: spec.slice(0, separator), file: path.resolve(spec.slice(separator + 1)) };
+    });
+  }
+  
+  const defaultSurfaces = path.join(DATA_DIR, 'surfaces.json');
+  
+  return {
+    variants,
+    segmentsPath: values.segments
+      ? path.resolve(values.segments)
+      : path.join(DATA_DIR, 'segments.json'),
+    surfacesPath: values.surfaces
+      ? path.resolve(values.surfaces)
+      : fs.existsSync(defaultSurfaces)
+        ? defaultSurfaces
+        : null,
+    outputPath: values.output
+      ? path.resolve(values.output)
+      : path.join(DATA_DIR, 'route-bundle.json'),
+  };
+}
+
+/**
+ * Print the usage text from this file's header comment
+ */
+function printHelp(): void {
+  const source = fs.readFileSync(__filename, 'utf-8');
+  const header = source.slice(source.indexOf('Run with:'), source.indexOf('*/'));
+  console.log(header.replace(/^ \* ?/gm, '').trimEnd());
+}
+
+// Build and save the bundle
+try {
+  const options = parseOptions(process.argv.slice(2));
+  if (!options) {
+    printHelp();
+  } else {
+    const tracks = options.variants.map(readTrack);
+    if (options.surfacesPath) {
+      readSurfaces(options.surfacesPath, tracks);
+    }
+    const routeTracks = Object.fromEntries(tracks.map((t) => [t.id, t.coordinates]));
+    const segments = readSegments(options.segmentsPath, routeTracks);
+    const bundle = encodeRouteBundle(tracks, segments);
+    
+    // The app validates decoded segments too; catch problems here first
+    const decoded = decodeRouteBundle(bundle);
+    const errors = validateSegments(
+      decoded.segments,
+      Object.fromEntries(decoded.routes.map((t) => [t.id, t.coordinates]))
+    );
+    if (errors.length > 0) {
+      throw new Error(`Decoded segments are invalid:\n${errors.map((e) => `  - ${e}`).join('\n')}`);
+    }
+    
+    const json = JSON.stringify(bundle);
+    fs.writeFileSync(options.outputPath, json);
+    
+    const sources = [...options.variants.map((v) => v.file), options.segmentsPath];
+    if (options.surfacesPath) sources.push(options.surfacesPath);
+    const sourceBytes = sources.reduce((sum, file) => sum + fs.statSync(file).size, 0);
+    console.log(
+      `\nSaved ${tracks.length} routes and ${segments.length} segments to ${options.outputPath}` +
+        ` (${(json.length / 1024).toFixed(0)} KB, from ${(sourceBytes / 1024).toFixed(0)} KB)`
+    );
+  }
+} catch (err) {
+  console.error(err instanceof Error ? err.message : err);
+  process.exitCode = 1;
+}
@@ -0,0 +1,352 @@
+/**
+ * Surface Enrichment Script
+ *
+ * Attaches a surface class (paved, gravel, unpaved) to every point of the
+ * official route variants and writes public/data/surfaces.json. Surfaces
+ * come from surface tags in the route files' GPX extensions
+ * (<extensions><surface>gravel</surface></extensions> on a trkpt or its
+ * trkseg), and otherwise from a local OSM extract: each point takes the
+ * surface of the nearest way running in the same direction. Points that
+ * neither source covers stay unknown.
+ *
+ * The OSM extract is an .osm XML file covering the routes, e.g. exported
+ * with Overpass (way[highway] in the routes' bounding box, with nodes) or
+ * cut from a regional extract with osmium. Run npm run bundle afterwards.
+ *
+ * Run with: npm run enrich:surfaces -- [options]
+ *
+ * Options:
+ *   --route <id>=<file>      Route variant to enrich (repeatable): GPX, TCX,
+ *                            FIT or GeoJSON. Defaults to the gravel and
+ *                            tarmac routes.
+ *   --osm <file>             OSM XML extract to match points against
+ *   --max-distance <m>       Max distance from a point to its way (default: 20)
+ *   --output <path>          Surfaces JSON path (default: public/data/surfaces.json)
+ *   --help                   Show this help
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import { parseArgs } from 'util';
+import type { Position } from 'geojson';
+import type { SurfaceType } from '../src/types/route';
+import { bearing, calculateCumulativeDistances, positionDistance } from '../src/utils/geo';
+import { buildSpatialIndex, findAllOnRoute, type SpatialIndex } from '../src/utils/spatialIndex';
+import {
+  calculateSurfaceBreakdown,
+  classifyOsmWay,
+  encodeSurfaceRuns,
+  getSurfaceShares,
+  parseSurface,
+  SURFACE_TYPES,
+  type SurfaceRuns,
+} from '../src/utils/surface';
+import { DATA_DIR, DEFAULT_VARIANTS, readRouteTrack, type VariantInput } from './route-files';
+import { parseXml } from './xml-parser';
+
+const __filename = fileURLToPath(import.meta.url);
+
+// Spacing of the samples taken along OSM ways
+const WAY_SAMPLE_METERS = 10;
+// Max difference in direction between a route edge and a matching way
+const MAX_BEARING_DIFFERENCE = 30;
+// Unknown stretches up to this long between two equal surfaces take that surface
+const MAX_BRIDGED_METERS = 50;
+
+interface EnrichOptions {
+  variants: VariantInput[];
+  osmPath: string | null;
+  maxDistanceMeters: number;
+  outputPath: string;
+}
+
+interface OsmWay {
+  surface: SurfaceType;
+  nodes: Position[];
+}
+
+interface TrackPoint {
+  lng: number;
+  lat: number;
+  distanceFromStart: number; // meters
+}
+
+/**
+ * Find the child elements of a node by local name, ignoring namespaces
+ */
+function childElements(node: Node, localName: string): Element[] {
+  return Array.from(node.childNodes).filter(
+    (child): child is Element =>
+      child.nodeType === 1 && (child as Element).localName === localName
+  );
+}
+
+/**
+ * Read the surface tag from a node's <extensions>, if any
+ */
+function extensionSurface(node: Node): SurfaceType | null {
+  for (const extensions of childElements(node, 'extensions')) {
+    const stack: Node[] = [extensions];
+    while (stack.length > 0) {
+      const current = stack.pop()!;
+      if (current.nodeType === 1 && (current as Element).localName === 'surface') {
+        return parseSurface(current.textContent ?? '');
+      }
+      stack.push(...Array.from(current.childNodes));
+    }
+  }
+  return null;
+}
+
+/**
+ * Surfaces from GPX extensions, per track point. Null when the file isn't
+ * a GPX file or its track points don't line up with the parsed route.
+ */
+function readGpxSurfaces(filePath: string, pointCount: number): (SurfaceType | null)[] | null {
+  if (!filePath.toLowerCase().endsWith('.gpx')) return null;
+
+  const doc = parseXml(fs.readFileSync(filePath, 'utf-8'));
+  const surfaces: (SurfaceType | null)[] = [];
+  for (const segment of Array.from(doc.getElementsByTagName('trkseg'))) {
+    const segmentSurface = extensionSurface(segment) ?? extensionSurface(segment.parentNode!);
+    for (const point of childElements(segment, 'trkpt')) {
+      surfaces.push(extensionSurface(point) ?? segmentSurface);
+    }
+  }
+
+  if (surfaces.length !== pointCount) {
+    console.warn(
+      `${path.basename(filePath)}: ${surfaces.length} trkpt elements for ${pointCount} route points, ignoring its extensions`
+    );
+    return null;
+  }
+  return surfaces;
+}
+
+/**
+ * Read the classified highways from an OSM XML extract
+ */
+function readOsmWays(filePath: string): OsmWay[] {
+  const doc = parseXml(fs.readFileSync(filePath, 'utf-8'));
+
+  const nodes = new Map<string, Position>();
+  for (const node of Array.from(doc.getElementsByTagName('node'))) {
+    nodes.set(node.getAttribute('id')!, [
+      Number(node.getAttribute('lon')),
+      Number(node.getAttribute('lat')),
+    ]);
+  }
+
+  const ways: OsmWay[] = [];
+  for (const way of Array.from(doc.getElementsByTagName('way'))) {
+    const tags: Record<string, string> = {};
+    childElements(way, 'tag').forEach((tag) => {
+      tags[tag.getAttribute('k')!] = tag.getAttribute('v')!;
+    });
+    if (!tags.highway) continue;
+
+    const surface = classifyOsmWay(tags);
+    if (!surface) continue;
+
+    const wayNodes = childElements(way, 'nd')
+      .map((nd) => nodes.get(nd.getAttribute('ref')!))
+      .filter((node): node is Position => node !== undefined);
+    if (wayNodes.length >= 2) {
+      ways.push({ surface, nodes: wayNodes });
+    }
+  }
+
+  console.log(`Read ${ways.length} classified ways from ${path.basename(filePath)}`);
+  return ways;
+}
+
+/**
+ * Difference between two bearings regardless of travel direction, 0-90
+ */
+function directionDifference(a: number, b: number): number {
+  const diff = Math.abs(a - b) % 180;
+  return Math.min(diff, 180 - diff);
+}
+
+/**
+ * Match route edges to OSM ways. Samples along each way look up the route
+ * edges nearby; an edge takes the surface of the closest sample from a way
+ * running in the same direction.
+ */
+function matchOsmSurfaces(
+  coordinates: Position[],
+  ways: OsmWay[],
+  maxDistanceMeters: number
+): (SurfaceType | null)[] {
+  const distances = calculateCumulativeDistances(coordinates);
+  const route: TrackPoint[] = coordinates.map(([lng, lat], i) => ({
+    lng,
+    lat,
+    distanceFromStart: distances[i] * 1000,
+  }));
+  const index: SpatialIndex<TrackPoint> = buildSpatialIndex(route, maxDistanceMeters);
+  const edgeBearings = coordinates.map((point, i) =>
+    i + 1 < coordinates.length ? bearing(point, coordinates[i + 1]) : 0
+  );
+
+  const best: { surface: SurfaceType; distance: number }[] = [];
+  for (const way of ways) {
+    for (let n = 0; n + 1 < way.nodes.length; n++) {
+      const from = way.nodes[n];
+      const to = way.nodes[n + 1];
+      const wayBearing = bearing(from, to);
+      const samples = Math.max(1, Math.ceil((positionDistance(from, to) * 1000) / WAY_SAMPLE_METERS));
+
+      for (let s = 0; s <= samples; s++) {
+        const t = s / samples;
+        const sample = { lng: from[0] + t * (to[0] - from[0]), lat: from[1] + t * (to[1] - from[1]) };
+        for (const match of findAllOnRoute(sample, index, maxDistanceMeters)) {
+          const edge = match.segmentIndex;
+          if (directionDifference(edgeBearings[edge], wayBearing) > MAX_BEARING_DIFFERENCE) continue;
+          if (!best[edge] || match.distance < best[edge].distance) {
+            best[edge] = { surface: way.surface, distance: match.distance };
+          }
+        }
+      }
+    }
+  }
+
+  return coordinates.map((_, i) => best[i]?.surface ?? null);
+}
+
+/**
+ * Give short unknown stretches the surface on both sides of them
+ */
+function bridgeUnknown(surfaces: SurfaceType[], coordinates: Position[]): SurfaceType[] {
+  const distances = calculateCumulativeDistances(coordinates);
+  const result = [...surfaces];
+  let i = 0;
+  while (i < result.length) {
+    if (result[i] !== 'unknown') {
+      i++;
+      continue;
+    }
+    let end = i;
+    while (end < result.length && result[end] === 'unknown') end++;
+
+    const before = result[i - 1];
+    const after = result[end];
+    const lengthMeters = ((distances[end] ?? distances[distances.length - 1]) - distances[i]) * 1000;
+    if (before && before === after && lengthMeters <= MAX_BRIDGED_METERS) {
+      result.fill(before, i, end);
+    }
+    i = end;
+  }
+  return result;
+}
+
+/**
+ * Work out the surfaces of one route variant
+ */
+function enrichRoute(
+  { id, file }: VariantInput,
+  ways: OsmWay[],
+  maxDistanceMeters: number
+): SurfaceRuns {
+  const { coordinates } = readRouteTrack(file);
+  const fromGpx = readGpxSurfaces(file, coordinates.length);
+  const fromOsm = ways.length > 0 ? matchOsmSurfaces(coordinates, ways, maxDistanceMeters) : null;
+
+  const surfaces = bridgeUnknown(
+    coordinates.map((_, i) => fromGpx?.[i] ?? fromOsm?.[i] ?? 'unknown'),
+    coordinates
+  );
+
+  const breakdown = calculateSurfaceBreakdown(
+    surfaces,
+    calculateCumulativeDistances(coordinates)
+  );
+  const shares = getSurfaceShares(breakdown)
+    .map(({ surface, km, fraction }) =>
+      `${SURFACE_TYPES[surface].label.toLowerCase()} ${km.toFixed(1)} km (${Math.round(fraction * 100)}%)`
+    )
+    .join(', ');
+  console.log(`${id}: ${shares}`);
+
+  return encodeSurfaceRuns(surfaces);
+}
+
+/**
+ * Parse command-line arguments into enrichment options
+ */
+function parseOptions(argv: string[]): EnrichOptions | null {
+  const { values } = parseArgs({
+    args: argv,
+    options: {
+      route: { type: 'string', multiple: true },
+      osm: { type: 'string' },
+      'max-distance': { type: 'string' },
+      output: { type: 'string' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+
+  if (values.help) return null;
+
+  let variants = DEFAULT_VARIANTS;
+  if (values.route) {
+    variants = values.route.map((spec) => {
+      const separator = spec.indexOf('=');
+      if (separator <= 0 || separator === spec.length - 1) {
+        throw new Error(`--route must look like <id>=<path>, got "${spec}"`);
+      }
+      return { id: spec.slice(0, separator), file: path.resolve(spec.slice(separator + 1)) };
+    });
+  }
+
+  const maxDistanceMeters = Number(values['max-distance'] ?? 20);
+  if (!Number.isFinite(maxDistanceMeters) || maxDistanceMeters <= 0) {
+    throw new Error(
+      `--max-distance must be a positive number of meters, got "${values['max-distance']}"`
+    );
+  }
+
+  return {
+    variants,
+    osmPath: values.osm ? path.resolve(values.osm) : null,
+    maxDistanceMeters,
+    outputPath: values.output
+      ? path.resolve(values.output)
+      : path.join(DATA_DIR, 'surfaces.json'),
+  };
+}
+
+/**
+ * Print the usage text from this file's header comment
+ */
+function printHelp(): void {
+  const source = fs.readFileSync(__filename, 'utf-8');
+  const header = source.slice(source.indexOf('Run with:'), source.indexOf('*/'));
+  console.log(header.replace(/^ \* ?/gm, '').trimEnd());
+}
+
+// Enrich and save surfaces
+try {
+  const options = parseOptions(process.argv.slice(2));
+  if (!options) {
+    printHelp();
+  } else {
+    if (!options.osmPath) {
+      console.warn('No --osm extract given, only GPX extension surfaces are used');
+    }
+    const ways = options.osmPath ? readOsmWays(options.osmPath) : [];
+
+    const surfaces: Record<string, SurfaceRuns> = {};
+    for (const variant of options.variants) {
+      surfaces[variant.id] = enrichRoute(variant, ways, options.maxDistanceMeters);
+    }
+
+    fs.writeFileSync(options.outputPath, JSON.stringify(surfaces));
+    console.log(`\nSaved surfaces to ${options.outputPath}`);
+    console.log('Run "npm run bundle" to update the route bundle the app loads');
+  }
+} catch (err) {
+  console.error(err instanceof Error ? err.message : err);
+  process.exitCode = 1;
+}
@@ -0,0 +1,217 @@
+/**
+ * Overnight Stops Extraction Script
+ *
+ * Picks the towns, villages, hotels, guest houses, hostels, campsites and
+ * alpine huts near the official route variants out of a local OSM extract
+ * and writes public/data/overnight-stops.json, which the day planner snaps
+ * its breakpoints to.
+ *
+ * The OSM extract is an .osm XML file covering the routes, e.g. exported
+ * with Overpass (nwr[place~"town|village"] and nwr[tourism~"hotel|
+ * guest_house|hostel|motel|camp_site|alpine_hut"] in the routes' bounding
+ * box, with the ways' nodes). Places mapped as areas are placed at the
+ * middle of their outline. Unnamed places are skipped. The bundled
+ * overnight-stops.json so far only has towns and villages; rerun this on an
+ * extract with the tourism query to add places to stay.
+ *
+ * Run with: npm run extract:stops -- --osm <file> [options]
+ *
+ * Options:
+ *   --route <id>=<file>      Route variant to keep stops near (repeatable):
+ *                            GPX, TCX, FIT or GeoJSON. Defaults to the gravel
+ *                            and tarmac routes.
+ *   --osm <file>             OSM XML extract to read places from
+ *   --max-distance <m>       Max distance from a stop to a route (default: 3000)
+ *   --output <path>          Stops JSON path (default: public/data/overnight-stops.json)
+ *   --help                   Show this help
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import { parseArgs } from 'util';
+import type { Position } from 'geojson';
+import type { OvernightStop } from '../src/types/route';
+import { calculateCumulativeDistances } from '../src/utils/geo';
+import {
+  classifyOsmStop,
+  MAX_STOP_OFFSET_KM,
+  OVERNIGHT_STOP_KINDS,
+} from '../src/utils/overnightStops';
+import { buildSpatialIndex, findNearestOnRoute } from '../src/utils/spatialIndex';
+import { DATA_DIR, DEFAULT_VARIANTS, readRouteTrack, type VariantInput } from './route-files';
+import { parseXml } from './xml-parser';
+
+const __filename = fileURLToPath(import.meta.url);
+
+// Grid cell size of the route indexes
+const INDEX_CELL_METERS = 1000;
+
+interface ExtractOptions {
+  variants: VariantInput[];
+  osmPath: string;
+  maxDistanceMeters: number;
+  outputPath: string;
+}
+
+/**
+ * Read the tags of an OSM element
+ */
+function readTags(element: Element): Record<string, string> {
+  const tags: Record<string, string> = {};
+  for (const tag of Array.from(element.getElementsByTagName('tag'))) {
+    tags[tag.getAttribute('k')!] = tag.getAttribute('v')!;
+  }
+  return tags;
+}
+
+/**
+ * Read the named overnight stops from an OSM XML extract, from nodes and
+ * from ways (at the middle of their nodes)
+ */
+function readOsmStops(filePath: string): OvernightStop[] {
+  const doc = parseXml(fs.readFileSync(filePath, 'utf-8'));
+  const stops: OvernightStop[] = [];
+
+  const addStop = (tags: Record<string, string>, [lng, lat]: Position) => {
+    const kind = classifyOsmStop(tags);
+    if (!kind || !tags.name) return;
+    stops.push({
+      name: tags.name,
+      kind,
+      lat: Math.round(lat * 1e5) / 1e5,
+      lng: Math.round(lng * 1e5) / 1e5,
+    });
+  };
+
+  const nodes = new Map<string, Position>();
+  for (const node of Array.from(doc.getElementsByTagName('node'))) {
+    const position = [Number(node.getAttribute('lon')), Number(node.getAttribute('lat'))];
+    nodes.set(node.getAttribute('id')!, position);
+    addStop(readTags(node), position);
+  }
+
+  for (const way of Array.from(doc.getElementsByTagName('way'))) {
+    const outline = Array.from(way.getElementsByTagName('nd'))
+      .map((nd) => nodes.get(nd.getAttribute('ref')!))
+      .filter((node): node is Position => node !== undefined);
+    if (outline.length === 0) continue;
+    addStop(readTags(way), [
+      outline.reduce((sum, [lng]) => sum + lng, 0) / outline.length,
+      outline.reduce((sum, [, lat]) => sum + lat, 0) / outline.length,
+    ]);
+  }
+
+  console.log(`Read ${stops.length} named places from ${path.basename(filePath)}`);
+  return stops;
+}
+
+/**
+ * Keep the stops within maxDistanceMeters of any of the routes
+ */
+function filterNearRoutes(
+  stops: OvernightStop[],
+  variants: VariantInput[],
+  maxDistanceMeters: number
+): OvernightStop[] {
+  const indexes = variants.map(({ file }) => {
+    const { coordinates } = readRouteTrack(file);
+    const distances = calculateCumulativeDistances(coordinates);
+    return buildSpatialIndex(
+      coordinates.map(([lng, lat], i) => ({ lng, lat, distanceFromStart: distances[i] * 1000 })),
+      INDEX_CELL_METERS
+    );
+  });
+
+  return stops.filter((stop) =>
+    indexes.some((index) => findNearestOnRoute(stop, index, maxDistanceMeters) !== null)
+  );
+}
+
+/**
+ * Parse command-line arguments into extraction options
+ */
+function parseOptions(argv: string[]): ExtractOptions | null {
+  const { values } = parseArgs({
+    args: argv,
+    options: {
+      route: { type: 'string', multiple: true },
+      osm: { type: 'string' },
+      'max-distance': { type: 'string' },
+      output: { type: 'string' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+
+  if (values.help) return null;
+
+  if (!values.osm) {
+    throw new Error('An OSM extract is required: --osm <file>');
+  }
+
+  let variants = DEFAULT_VARIANTS;
+  if (values.route) {
+    variants = values.route.map((spec) => {
+      const separator = spec.indexOf('=');
+      if (separator <= 0 || separator === spec.length - 1) {
+        throw new Error(`--route must look like <id>=<path>, got "${spec}"`);
+      }
+      return { id: spec.slice(0, separator), file: path.resolve(spec.slice(separator + 1)) };
+    });
+  }
+
+  const maxDistanceMeters = Number(values['max-distance'] ?? MAX_STOP_OFFSET_KM * 1000);
+  if (!Number.isFinite(maxDistanceMeters) || maxDistanceMeters <= 0) {
+    throw new Error(
+      `--max-distance must be a positive number of meters, got "${values['max-distance']}"`
+    );
+  }
+
+  return {
+    variants,
+    osmPath: path.resolve(values.osm),
+    maxDistanceMeters,
+    outputPath: values.output
+      ? path.resolve(values.output)
+      : path.join(DATA_DIR, 'overnight-stops.json'),
+  };
+}
+
+/**
+ * Print the usage text from this file's header comment
+ */
+function printHelp(): void {
+  const source = fs.readFileSync(__filename, 'utf-8');
+  const header = source.slice(source.indexOf('Run with:'), source.indexOf('*/'));
+  console.log(header.replace(/^ \* ?/gm, '').trimEnd());
+}
+
+// Extract and save the stops
+try {
+  const options = parseOptions(process.argv.slice(2));
+  if (!options) {
+    printHelp();
+  } else {
+    const stops = filterNearRoutes(
+      readOsmStops(options.osmPath),
+      options.variants,
+      options.maxDistanceMeters
+    ).sort((a, b) => a.kind.localeCompare(b.kind) || a.name.localeCompare(b.name));
+
+    for (const [kind, { label }] of Object.entries(OVERNIGHT_STOP_KINDS)) {
+      const count = stops.filter((stop) => stop.kind === kind).length;
+      console.log(`${label}: ${count}`);
+    }
+    if (stops.every((stop) => stop.kind === 'town')) {
+      console.warn(
+        '\nWarning: no hotels, campsites or huts found; was the extract exported with the tourism query?'
+      );
+    }
+
+    fs.writeFileSync(options.outputPath, JSON.stringify(stops, null, 2) + '\n');
+    console.log(`\nSaved ${stops.length} stops to ${options.outputPath}`);
+  }
+} catch (err) {
+  console.error(err instanceof Error ? err.message : err);
+  process.exitCode = 1;
+}
@@ -0,0 +1,48 @@
+/**
+ * Reading route files in scripts, with the app's parsers
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import { parseRouteFile, type ParsedRoute } from '../src/utils/parsers';
+import { joinLines, type RouteTrack } from '../src/utils/routeData';
+import { parseXml } from './xml-parser';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+export const DATA_DIR = path.join(__dirname, '..', 'public', 'data');
+
+export interface VariantInput {
+  id: string;
+  file: string;
+}
+
+// Official route variants. The first is the primary route.
+// Ids must match ROUTE_VARIANTS in src/utils/routeVariants.ts.
+export const DEFAULT_VARIANTS: VariantInput[] = [
+  { id: 'gravel', file: path.join(DATA_DIR, 'gravel.gpx') },
+  { id: 'tarmac', file: path.join(DATA_DIR, 'tarmac.gpx') },
+];
+
+/**
+ * Parse a route file (GPX, TCX, FIT or GeoJSON)
+ */
+export function readRouteFile(filePath: string): ParsedRoute {
+  const content = fs.readFileSync(filePath);
+  const data = content.buffer.slice(
+    content.byteOffset,
+    content.byteOffset + content.byteLength
+  ) as ArrayBuffer;
+  return parseRouteFile(data, filePath, parseXml);
+}
+
+/**
+ * Parse a route file and join its track segments, like the app does
+ */
+export function readRouteTrack(filePath: string): RouteTrack {
+  const parsed = readRouteFile(filePath);
+  const { coordinates, gaps } = joinLines(parsed.lines);
+  return { name: parsed.name, coordinates, gaps, waypoints: parsed.waypoints };
+}
@@ -0,0 +1,39 @@
+/**
+ * Segment Validation Script
+ *
+ * Checks a segments.json file with the same validator the app runs on load:
+ * structure and types, unique ids and orders, junction continuity for each
+ * variant, index ranges against the official route files, and overlap of
+ * shared segments. Exits non-zero on problems.
+ *
+ * Run with: npm run validate:segments -- [path/to/segments.json]
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { validateSegments } from '../src/utils/segmentValidation';
+import { DATA_DIR, DEFAULT_VARIANTS, readRouteTrack } from './route-files';
+
+const filePath = process.argv[2]
+  ? path.resolve(process.argv[2])
+  : path.join(DATA_DIR, 'segments.json');
+
+try {
+  const data: unknown = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  const tracks = Object.fromEntries(
+    DEFAULT_VARIANTS.map(({ id, file }) => [id, readRouteTrack(file).coordinates])
+  );
+  const errors = validateSegments(data, tracks);
+
+  if (errors.length > 0) {
+    console.error(`${filePath} is invalid:`);
+    errors.forEach((error) => console.error(`  - ${error}`));
+    process.exitCode = 1;
+  } else {
+    const count = Array.isArray(data) ? data.length : 0;
+    console.log(`${filePath}: ${count} segments OK`);
+  }
+} catch (err) {
+  console.error(`Failed to read ${filePath}: ${err instanceof Error ? err.message : err}`);
+  process.exitCode = 1;
+}
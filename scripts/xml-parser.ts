@@ -0,0 +1,16 @@
+/**
+ * XML parsing for scripts. The app's route parsers take an XmlParser; in
+ * the browser that is DOMParser, here it comes from xmldom.
+ */
+
+import { DOMParser } from 'xmldom';
+import type { XmlParser } from '../src/utils/parsers';
+
+export const parseXml: XmlParser = (text) => {
+  const fail = (message: string) => {
+    throw new Error(`Invalid XML: ${message}`);
+  };
+  return new DOMParser({
+    errorHandler: { warning: () => {}, error: fail, fatalError: fail },
+  }).parseFromString(text, 'application/xml') as unknown as Document;
+};
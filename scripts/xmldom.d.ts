@@ -0,0 +1,12 @@
+declare module 'xmldom' {
+  interface ErrorHandler {
+    warning?: (message: string) => void;
+    error?: (message: string) => void;
+    fatalError?: (message: string) => void;
+  }
+
+  export class DOMParser {
+    constructor(options?: { errorHandler?: ErrorHandler });
+    parseFromString(source: string, mimeType: string): unknown;
+  }
+}
@@ -1,26 +1,83 @@
-import { useState, useCallback, useRef } from "react";
+import { useState, useCallback, useRef, useMemo } from "react";
 import { HoverProvider } from "./hooks/useHoverSync";
 import { UnitsProvider } from "./hooks/useUnits";
+import { useElevationSettings } from "./hooks/useElevationSettings";
+import { useRidingSettings } from "./hooks/useRidingSettings";
 import { BlendedRouteProvider, useBlendedRoute } from "./hooks/useBlendedRoute";
 import { useRouteData } from "./hooks/useRouteData";
+import { ROUTE_VARIANTS } from "./utils/routeVariants";
+import { useUploadedRoutes } from "./hooks/useUploadedRoutes";
+import { ElevationSettingsProvider } from "./components/ElevationSettingsProvider";
+import { RidingSettingsProvider } from "./components/RidingSettingsProvider";
+import { MapViewportProvider } from "./components/MapViewportProvider";
 import { Header } from "./components/Header";
 import { Map, type MapRef } from "./components/Map";
 import { RouteToggle } from "./components/RouteToggle";
+import { RouteUpload } from "./components/RouteUpload";
 import { ElevationProfiles } from "./components/ElevationProfiles";
 import { RouteInfo } from "./components/RouteInfo";
 import { SegmentTable } from "./components/SegmentTable";
+import { SegmentComparisonChart } from "./components/SegmentComparisonChart";
+import { ClimbList } from "./components/ClimbList";
+import { RidingTimeSettings } from "./components/RidingTimeSettings";
+import type { RouteData } from "./types/route";
 import type { Segment } from "./types/segments";
+import { calculateRouteStats } from "./utils/routeData";
+import { getRouteGaps, getRouteTracks } from "./utils/segmentGeometry";
+import { applyElevationSettings, applyRidingSettings } from "./utils/segments";
+import { estimateMovingTime } from "./utils/ridingTime";
+import { getRouteSurfaces } from "./utils/surface";
 import "./App.css";
 
-function AppContent() {
-  const { routes, isLoading, error } = useRouteData();
+interface AppContentProps {
+  officialRoutes: RouteData[];
+  error: string | null;
+}
+
+function AppContent({ officialRoutes, error }: AppContentProps) {
+  const {
+    uploadedRoutes,
+    overlaps,
+    analysisProgress,
+    error: uploadError,
+    analysisError,
+    addFiles,
+    removeRoute,
+  } = useUploadedRoutes(officialRoutes);
   const { isBuilding } = useBlendedRoute();
+  const { elevationSettings } = useElevationSettings();
+  const { ridingSettings } = useRidingSettings();
   const mapRef = useRef<MapRef>(null);
-  const [visibleRoutes, setVisibleRoutes] = useState<Set<"gravel" | "tarmac">>(
-    new Set(["gravel", "tarmac"]),
+  const [visibleRoutes, setVisibleRoutes] = useState<Set<string>>(
+    () => new Set(ROUTE_VARIANTS.map((v) => v.id)),
+  );
+
+  const loadedRoutes = useMemo(
+    () => [...officialRoutes, ...uploadedRoutes],
+    [officialRoutes, uploadedRoutes],
+  );
+
+  // Recompute climbing with the selected elevation method, and riding time
+  // with the riding settings. The map only draws geometry, so it keeps the
+  // loaded routes and isn't redrawn.
+  const routes = useMemo(
+    () =>
+      loadedRoutes.map((route) => ({
+        ...route,
+        stats: {
+          ...calculateRouteStats(route.elevationProfile, elevationSettings),
+          movingTime: estimateMovingTime(
+            route.elevationProfile.map((p) => p.elevation),
+            route.elevationProfile.map((p) => p.distance),
+            route.elevationProfile.map((p) => p.surface),
+            ridingSettings,
+          ),
+        },
+      })),
+    [loadedRoutes, elevationSettings, ridingSettings],
   );
 
-  const handleToggleRoute = useCallback((routeId: "gravel" | "tarmac") => {
+  const handleToggleRoute = useCallback((routeId: string) => {
     setVisibleRoutes((prev) => {
       const next = new Set(prev);
       if (next.has(routeId)) {
@@ -32,6 +89,26 @@ function AppContent() {
     });
   }, []);
 
+  const handleUploadFiles = useCallback(
+    async (files: File[]) => {
+      const added = await addFiles(files);
+      setVisibleRoutes((prev) => new Set([...prev, ...added.map((r) => r.id)]));
+    },
+    [addFiles],
+  );
+
+  const handleRemoveRoute = useCallback(
+    (routeId: string) => {
+      removeRoute(routeId);
+      setVisibleRoutes((prev) => {
+        const next = new Set(prev);
+        next.delete(routeId);
+        return next;
+      });
+    },
+    [removeRoute],
+  );
+
   const handleSegmentFocus = useCallback((segment: Segment) => {
     mapRef.current?.zoomToSegment(segment);
   }, []);
@@ -55,59 +132,61 @@ function AppContent() {
     <div className="app">
       <Header />
       <main className="main">
-        {isLoading ? (
-          <div className="loading">
-            <div className="loading-spinner" />
-            <p>Loading routes...</p>
-          </div>
-        ) : (
-          <>
-            {!isBuilding && (
-              <section className="controls-section">
-                <RouteToggle
-                  routes={routes}
-                  visibleRoutes={visibleRoutes}
-                  onToggle={handleToggleRoute}
-                />
-              </section>
-            )}
-
-            {isBuilding ? (
-              <section className="build-mode-section">
-                <div className="build-mode-layout">
-                  <div className="build-mode-map">
-                    <Map
-                      ref={mapRef}
-                      routes={routes}
-                      visibleRoutes={visibleRoutes}
-                    />
-                  </div>
-                  <div className="build-mode-sidebar">
-                    <SegmentTable onSegmentFocus={handleSegmentFocus} />
-                  </div>
-                </div>
-              </section>
-            ) : (
-              <section className="map-section">
+        {!isBuilding && (
+          <section className="controls-section">
+            <RouteToggle
+              routes={routes}
+              visibleRoutes={visibleRoutes}
+              onToggle={handleToggleRoute}
+            />
+            <RouteUpload
+              onFiles={handleUploadFiles}
+              error={uploadError}
+              analysisError={analysisError}
+            />
+          </section>
+        )}
+
+        {isBuilding ? (
+          <section className="build-mode-section">
+            <div className="build-mode-layout">
+              <div className="build-mode-map">
                 <Map
                   ref={mapRef}
-                  routes={routes}
+                  routes={loadedRoutes}
                   visibleRoutes={visibleRoutes}
                 />
-              </section>
-            )}
-
-            <section className="charts-section">
-              <ElevationProfiles
-                routes={routes}
-                visibleRoutes={visibleRoutes}
-              />
-            </section>
-            <section className="info-section">
-              <RouteInfo routes={routes} visibleRoutes={visibleRoutes} />
-            </section>
-          </>
+              </div>
+              <div className="build-mode-sidebar">
+                <SegmentTable onSegmentFocus={handleSegmentFocus} />
+              </div>
+            </div>
+            <SegmentComparisonChart />
+          </section>
+        ) : (
+          <section className="map-section">
+            <Map
+              ref={mapRef}
+              routes={loadedRoutes}
+              visibleRoutes={visibleRoutes}
+            />
+          </section>
         )}
+
+        <section className="charts-section">
+          <ElevationProfiles routes={routes} visibleRoutes={visibleRoutes} />
+        </section>
+        <section className="info-section">
+          <RouteInfo
+            routes={routes}
+            visibleRoutes={visibleRoutes}
+            overlaps={overlaps}
+            analysisProgress={analysisProgress}
+            onRemoveRoute={handleRemoveRoute}
+          />
+          <RidingTimeSettings />
+          <ClimbList routes={routes} visibleRoutes={visibleRoutes} />
+        </section>
       </main>
       <footer className="footer">
         <p>
@@ -127,7 +206,35 @@ function AppContent() {
 }
 
 function AppWithSegments() {
-  const { segments, isLoading } = useRouteData();
+  const {
+    routes,
+    segments: loadedSegments,
+    overnightStops,
+    isLoading,
+    error,
+  } = useRouteData();
+  const { elevationSettings } = useElevationSettings();
+  const { ridingSettings } = useRidingSettings();
+
+  const tracks = useMemo(() => getRouteTracks(routes), [routes]);
+  const gaps = useMemo(() => getRouteGaps(routes), [routes]);
+  const surfaces = useMemo(() => getRouteSurfaces(routes), [routes]);
+  const climbingSegments = useMemo(
+    () =>
+      applyElevationSettings(loadedSegments, tracks, gaps, elevationSettings),
+    [loadedSegments, tracks, gaps, elevationSettings],
+  );
+  const segments = useMemo(
+    () =>
+      applyRidingSettings(
+        climbingSegments,
+        tracks,
+        gaps,
+        surfaces,
+        ridingSettings,
+      ),
+    [climbingSegments, tracks, gaps, surfaces, ridingSettings],
+  );
 
   // Wait for segments to load before rendering BlendedRouteProvider
   if (isLoading) {
@@ -142,8 +249,14 @@ function AppWithSegments() {
   }
 
   return (
-    <BlendedRouteProvider segments={segments}>
-      <AppContent />
+    <BlendedRouteProvider
+      segments={segments}
+      tracks={tracks}
+      gaps={gaps}
+      surfaces={surfaces}
+      overnightStops={overnightStops}
+    >
+      <AppContent officialRoutes={routes} error={error} />
     </BlendedRouteProvider>
   );
 }
@@ -151,9 +264,15 @@ function AppWithSegments() {
 function App() {
   return (
     <UnitsProvider>
-      <HoverProvider>
-        <AppWithSegments />
-      </HoverProvider>
+      <ElevationSettingsProvider>
+        <RidingSettingsProvider>
+          <HoverProvider>
+            <MapViewportProvider>
+              <AppWithSegments />
+            </MapViewportProvider>
+          </HoverProvider>
+        </RidingSettingsProvider>
+      </ElevationSettingsProvider>
     </UnitsProvider>
   );
 }
@@ -1,24 +1,52 @@
-import { useMemo, useCallback } from "react";
+import { useMemo, useCallback, useState } from "react";
 import {
-  AreaChart,
+  ComposedChart,
   Area,
+  Line,
   XAxis,
   YAxis,
   Tooltip,
   ResponsiveContainer,
   ReferenceLine,
+  ReferenceArea,
 } from "recharts";
 import type { BlendedRoute } from "../types/segments";
-import type { ElevationPoint } from "../types/route";
-import { useUnits, kmToMiles, metersToFeet } from "../hooks/useUnits";
+import type { ElevationPoint, SurfaceType } from "../types/route";
+import { useUnits } from "../hooks/useUnits";
+import {
+  kmToMiles,
+  metersToFeet,
+  milesToKm,
+  feetToMeters,
+} from "../utils/units";
 import { ROUTE_CONFIG } from "../hooks/useRouteData";
 import { useBlendedRoute } from "../hooks/useBlendedRoute";
 import { useHoverSync } from "../hooks/useHoverSync";
+import { useElevationSettings } from "../hooks/useElevationSettings";
+import { useChartZoom } from "../hooks/useChartZoom";
 import { MultiRangeSlider } from "./MultiRangeSlider";
 import { DayStatsTable } from "./DayStatsTable";
+import { SurfaceBand } from "./SurfaceBar";
+import { ChartBrush } from "./ChartBrush";
+import { SURFACE_TYPES } from "../utils/surface";
+import { getClimbColor } from "../utils/climbs";
+import {
+  calculateStretchGrades,
+  getChartGradeStops,
+  getGradeAxisDomain,
+  getGradeBand,
+} from "../utils/gradient";
+import { getRangeIndices } from "../utils/chartZoom";
+import {
+  BALANCE_METRICS,
+  balanceBreakpoints,
+  type BalanceMetric,
+  type DayCaps,
+} from "../utils/daySplitCalculations";
 
 interface BlendedElevationChartProps {
   blendedRoute: BlendedRoute;
+  showGrade: boolean; // grade line on a secondary axis
 }
 
 interface ChartDataPoint {
@@ -27,10 +55,13 @@ interface ChartDataPoint {
   distanceRaw: number;
   lat: number;
   lng: number;
+  grade: number; // percent, average to the next point
+  surface?: SurfaceType;
 }
 
 export function BlendedElevationChart({
   blendedRoute,
+  showGrade,
 }: BlendedElevationChartProps) {
   const {
     units,
@@ -44,15 +75,103 @@ export function BlendedElevationChart({
     numberOfDays,
     setNumberOfDays,
     breakpoints,
+    requestedBreakpoints,
     setBreakpoints,
     daySplits,
+    ridingTimes,
+    routeStops,
+    snapToStops,
+    setSnapToStops,
+    startDate,
+    setStartDate,
+    addNonRidingDay,
+    updateNonRidingDay,
   } = useBlendedRoute();
   const { setHover, clearHover } = useHoverSync();
+  const { elevationSettings } = useElevationSettings();
+  const { range, total, zoomTo } = useChartZoom(
+    blendedRoute.coordinates,
+    blendedRoute.distances,
+  );
+
+  // Chart points being dragged over to zoom to
+  const [selection, setSelection] = useState<{
+    from: number;
+    to: number;
+  } | null>(null);
+
+  // Auto-balancing: the metric to even out and per-day caps as typed, in
+  // display units (empty for no cap)
+  const [balanceMetric, setBalanceMetric] = useState<BalanceMetric>("effort");
+  const [capInputs, setCapInputs] = useState({
+    distance: "",
+    elevation: "",
+    time: "",
+  });
+  const [balanceError, setBalanceError] = useState<string | null>(null);
+
+  const handleBalance = useCallback(() => {
+    const parseCap = (value: string) => {
+      const number = parseFloat(value);
+      return Number.isFinite(number) && number > 0 ? number : undefined;
+    };
+    const distance = parseCap(capInputs.distance);
+    const elevation = parseCap(capInputs.elevation);
+    const caps: DayCaps = {
+      distanceKm:
+        distance && (units === "imperial" ? milesToKm(distance) : distance),
+      elevationGain:
+        elevation &&
+        (units === "imperial" ? feetToMeters(elevation) : elevation),
+      movingTime: parseCap(capInputs.time),
+    };
+
+    // Balance over the stops when snapping, or snapping would unbalance it
+    const stopDistances =
+      snapToStops && routeStops.length > 0
+        ? routeStops.map((routeStop) => routeStop.distanceKm)
+        : null;
+    const balanced = balanceBreakpoints(
+      blendedRoute,
+      numberOfDays,
+      balanceMetric,
+      elevationSettings,
+      ridingTimes,
+      caps,
+      stopDistances,
+    );
+    if (balanced) {
+      setBreakpoints(balanced);
+      setBalanceError(null);
+    } else if (Object.values(caps).some((cap) => cap !== undefined)) {
+      setBalanceError(`The caps don't fit the route into ${numberOfDays} days`);
+    } else if (stopDistances) {
+      setBalanceError(
+        `There aren't enough places to stop for ${numberOfDays} days`,
+      );
+    } else {
+      setBalanceError(
+        `The route has too few points to split into ${numberOfDays} days`,
+      );
+    }
+  }, [
+    capInputs,
+    units,
+    blendedRoute,
+    numberOfDays,
+    balanceMetric,
+    elevationSettings,
+    ridingTimes,
+    snapToStops,
+    routeStops,
+    setBreakpoints,
+  ]);
 
   const handleDayCountChange = useCallback(
     (e: React.ChangeEvent<HTMLSelectElement>) => {
       const days = parseInt(e.target.value, 10);
       setNumberOfDays(days);
+      setBalanceError(null);
 
       // Auto-generate evenly distributed breakpoints
       if (days > 1) {
@@ -68,54 +187,77 @@ export function BlendedElevationChart({
     [setNumberOfDays, setBreakpoints],
   );
 
-  // Convert coordinates to chart data
+  // Convert coordinates in the shown range to chart data, downsampled for
+  // performance
   const chartData = useMemo<ChartDataPoint[]>(() => {
-    const points: ChartDataPoint[] = [];
-    let cumulativeDistance = 0;
+    const cumulativeDistances = blendedRoute.distances;
+    const indices = getRangeIndices(cumulativeDistances, range, 500);
+    const grades = calculateStretchGrades(
+      blendedRoute.coordinates.map(([, , elevation]) => elevation),
+      cumulativeDistances,
+      indices,
+    );
+    // Finer distances when zoomed in, so points stay distinct on the axis
+    const precision = range && range.end - range.start < 50 ? 100 : 10;
 
-    for (let i = 0; i < blendedRoute.coordinates.length; i++) {
+    return indices.map((i, k) => {
       const [lng, lat, elevation] = blendedRoute.coordinates[i];
-
-      // Calculate distance from previous point
-      if (i > 0) {
-        const [prevLng, prevLat] = blendedRoute.coordinates[i - 1];
-        const R = 6371; // Earth's radius in km
-        const dLat = ((lat - prevLat) * Math.PI) / 180;
-        const dLng = ((lng - prevLng) * Math.PI) / 180;
-        const a =
-          Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-          Math.cos((prevLat * Math.PI) / 180) *
-            Math.cos((lat * Math.PI) / 180) *
-            Math.sin(dLng / 2) *
-            Math.sin(dLng / 2);
-        const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-        cumulativeDistance += R * c;
-      }
+      const cumulativeDistance = cumulativeDistances[i];
 
       const displayDistance =
         units === "imperial"
-          ? Math.round(kmToMiles(cumulativeDistance) * 10) / 10
-          : Math.round(cumulativeDistance * 10) / 10;
+          ? Math.round(kmToMiles(cumulativeDistance) * precision) / precision
+          : Math.round(cumulativeDistance * precision) / precision;
       const displayElevation =
         units === "imperial" ? metersToFeet(elevation) : Math.round(elevation);
 
-      points.push({
+      return {
         distance: displayDistance,
         elevation: displayElevation,
         distanceRaw: cumulativeDistance,
         lat,
         lng,
-      });
-    }
+        grade: Math.round(grades[k] * 10) / 10,
+        surface: blendedRoute.surfaces?.[i],
+      };
+    });
+  }, [
+    blendedRoute.coordinates,
+    blendedRoute.distances,
+    blendedRoute.surfaces,
+    range,
+    units,
+  ]);
 
-    // Downsample if too many points
-    if (points.length > 500) {
-      const step = Math.ceil(points.length / 500);
-      return points.filter((_, i) => i % step === 0 || i === points.length - 1);
-    }
+  // Shade the climbs in view from the first chart points at or past their
+  // foot and summit
+  const climbAreas = useMemo(() => {
+    if (chartData.length === 0) return [];
+    const first = chartData[0];
+    const last = chartData[chartData.length - 1];
+    const inView = blendedRoute.climbs.filter(
+      (climb) =>
+        climb.endDistance > first.distanceRaw &&
+        climb.startDistance < last.distanceRaw,
+    );
+    return inView.map((climb) => ({
+      climb,
+      x1: (chartData.find((d) => d.distanceRaw >= climb.startDistance) ?? last)
+        .distance,
+      x2: (chartData.find((d) => d.distanceRaw >= climb.endDistance) ?? last)
+        .distance,
+    }));
+  }, [blendedRoute.climbs, chartData]);
 
-    return points;
-  }, [blendedRoute.coordinates, units]);
+  // Fill colors by grade band, and the grade axis range
+  const gradeStops = useMemo(
+    () => getChartGradeStops(chartData.map((d) => d.grade)),
+    [chartData],
+  );
+  const gradeDomain = useMemo(
+    () => getGradeAxisDomain(chartData.map((d) => d.grade)),
+    [chartData],
+  );
 
   // Calculate Y-axis domain with some padding
   const yDomain = useMemo(() => {
@@ -127,12 +269,39 @@ export function BlendedElevationChart({
     return [Math.floor(min - padding), Math.ceil(max + padding)];
   }, [chartData]);
 
-  // Calculate breakpoint distances for reference lines
+  // Chart positions of the day breakpoints in view, at the first chart
+  // point at or past each one
   const breakpointDistances = useMemo(() => {
     if (breakpoints.length === 0 || chartData.length === 0) return [];
-    const totalDistance = chartData[chartData.length - 1].distance;
-    return breakpoints.map((pct) => (pct / 100) * totalDistance);
-  }, [breakpoints, chartData]);
+    const first = chartData[0];
+    const last = chartData[chartData.length - 1];
+    return breakpoints
+      .map((pct) => (pct / 100) * total)
+      .filter((km) => km >= first.distanceRaw && km <= last.distanceRaw)
+      .map(
+        (km) => (chartData.find((d) => d.distanceRaw >= km) ?? last).distance,
+      );
+  }, [breakpoints, chartData, total]);
+
+  // Dragging across the chart selects a range to zoom to
+  const handleMouseDown = useCallback(
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    (state: any) => {
+      if (state?.activeTooltipIndex == null) return;
+      const index = Number(state.activeTooltipIndex);
+      setSelection({ from: index, to: index });
+    },
+    [],
+  );
+
+  const handleMouseUp = useCallback(() => {
+    if (selection && selection.from !== selection.to) {
+      const a = chartData[Math.min(selection.from, selection.to)];
+      const b = chartData[Math.max(selection.from, selection.to)];
+      if (a && b) zoomTo({ start: a.distanceRaw, end: b.distanceRaw });
+    }
+    setSelection(null);
+  }, [selection, chartData, zoomTo]);
 
   // Hover handlers for map sync
   const handleMouseMove = useCallback(
@@ -143,19 +312,26 @@ export function BlendedElevationChart({
         chartData[state.activeTooltipIndex]
       ) {
         const data = chartData[state.activeTooltipIndex];
+        if (selection) {
+          const index = Number(state.activeTooltipIndex);
+          setSelection((current) => current && { ...current, to: index });
+        }
         const point: ElevationPoint = {
           distance: data.distanceRaw,
           elevation: data.elevation,
           lat: data.lat,
           lng: data.lng,
+          grade: data.grade,
+          surface: data.surface,
         };
         setHover("blended", point, "chart");
       }
     },
-    [setHover, chartData],
+    [setHover, chartData, selection],
   );
 
   const handleMouseLeave = useCallback(() => {
+    setSelection(null);
     clearHover();
   }, [clearHover]);
 
@@ -183,6 +359,27 @@ export function BlendedElevationChart({
             {data.elevation.toLocaleString()} {elevationUnit}
           </span>
         </div>
+        <div className="tooltip-row">
+          <span className="tooltip-label">Grade:</span>
+          <span
+            className="tooltip-value"
+            style={{ color: getGradeBand(data.grade).color }}
+          >
+            {data.grade > 0 ? "+" : ""}
+            {data.grade.toFixed(1)}%
+          </span>
+        </div>
+        {data.surface && (
+          <div className="tooltip-row">
+            <span className="tooltip-label">Surface:</span>
+            <span
+              className="tooltip-value"
+              style={{ color: SURFACE_TYPES[data.surface].color }}
+            >
+              {SURFACE_TYPES[data.surface].label}
+            </span>
+          </div>
+        )}
       </div>
     );
   };
@@ -199,6 +396,14 @@ export function BlendedElevationChart({
           <span className="blended-badge">Custom</span>
         </div>
         <div className="chart-stats">
+          {range && (
+            <>
+              <button className="chart-zoom-reset" onClick={() => zoomTo(null)}>
+                Reset zoom
+              </button>
+              <span className="stat-divider">|</span>
+            </>
+          )}
           <span>{formatDistance(blendedRoute.distanceKm)}</span>
           <span className="stat-divider">|</span>
           <span>{formatElevationChange(blendedRoute.elevationGain)}</span>
@@ -206,16 +411,19 @@ export function BlendedElevationChart({
       </div>
       <div className="chart-wrapper">
         <ResponsiveContainer width="100%" height={140}>
-          <AreaChart
+          <ComposedChart
             data={chartData}
             margin={{ top: 5, right: 20, left: 0, bottom: 5 }}
+            onMouseDown={handleMouseDown}
             onMouseMove={handleMouseMove}
+            onMouseUp={handleMouseUp}
             onMouseLeave={handleMouseLeave}
           >
             <defs>
-              <linearGradient id="gradient-blended" x1="0" y1="0" x2="0" y2="1">
-                <stop offset="5%" stopColor={color} stopOpacity={0.4} />
-                <stop offset="95%" stopColor={color} stopOpacity={0.05} />
+              <linearGradient id="gradient-blended" x1="0" y1="0" x2="1" y2="0">
+                {gradeStops.map((stop, i) => (
+                  <stop key={i} offset={stop.offset} stopColor={stop.color} />
+                ))}
               </linearGradient>
             </defs>
             <XAxis
@@ -232,18 +440,69 @@ export function BlendedElevationChart({
               tickFormatter={(value) => `${value.toLocaleString()}`}
               width={55}
             />
+            {showGrade && (
+              <YAxis
+                yAxisId="grade"
+                orientation="right"
+                mirror
+                domain={gradeDomain}
+                tick={{ fill: "#8892a0", fontSize: 10 }}
+                tickLine={false}
+                axisLine={false}
+                tickFormatter={(value) => `${value}%`}
+              />
+            )}
             <Tooltip
               content={<CustomTooltip />}
               cursor={{ stroke: color, strokeWidth: 2 }}
             />
+            {climbAreas.map(({ climb, x1, x2 }) => (
+              <ReferenceArea
+                key={climb.startIndex}
+                x1={x1}
+                x2={x2}
+                fill={getClimbColor(climb.category)}
+                fillOpacity={0.15}
+                label={{
+                  value: climb.category,
+                  position: "insideTop",
+                  fill: getClimbColor(climb.category),
+                  fontSize: 10,
+                }}
+              />
+            ))}
             <Area
               type="monotone"
               dataKey="elevation"
               stroke={color}
               strokeWidth={2}
               fill="url(#gradient-blended)"
+              fillOpacity={0.45}
               isAnimationActive={false}
             />
+            {showGrade && (
+              <Line
+                yAxisId="grade"
+                type="monotone"
+                dataKey="grade"
+                stroke="#cbd5e0"
+                strokeWidth={1}
+                strokeOpacity={0.7}
+                dot={false}
+                activeDot={false}
+                isAnimationActive={false}
+              />
+            )}
+            {selection &&
+              chartData[selection.from] &&
+              chartData[selection.to] && (
+                <ReferenceArea
+                  x1={chartData[selection.from].distance}
+                  x2={chartData[selection.to].distance}
+                  fill="#cbd5e0"
+                  fillOpacity={0.2}
+                />
+              )}
             {/* Reference lines for day breakpoints */}
             {breakpointDistances.map((distance, index) => (
               <ReferenceLine
@@ -254,9 +513,13 @@ export function BlendedElevationChart({
                 strokeDasharray="4 4"
               />
             ))}
-          </AreaChart>
+          </ComposedChart>
         </ResponsiveContainer>
       </div>
+      {blendedRoute.surfaces && (
+        <SurfaceBand surfaces={chartData.map((d) => d.surface)} />
+      )}
+      <ChartBrush total={total} range={range} onChange={zoomTo} color={color} />
 
       {/* Day Splitter UI */}
       <div className="day-splitter day-splitter-chart">
@@ -274,10 +537,19 @@ export function BlendedElevationChart({
               </option>
             ))}
           </select>
+          {numberOfDays > 1 && (
+            <button
+              className="day-balance-button"
+              onClick={handleBalance}
+              title={BALANCE_METRICS[balanceMetric].description}
+            >
+              Balance
+            </button>
+          )}
           {numberOfDays > 1 ? (
             <div className="slider-chart-aligned">
               <MultiRangeSlider
-                values={breakpoints}
+                values={requestedBreakpoints}
                 onChange={setBreakpoints}
                 minGap={5}
               />
@@ -287,7 +559,89 @@ export function BlendedElevationChart({
           )}
         </div>
 
-        {numberOfDays > 1 && <DayStatsTable daySplits={daySplits} />}
+        <div className="day-balance">
+          {numberOfDays > 1 && (
+            <>
+              <label>
+                By
+                <select
+                  className="day-selector"
+                  value={balanceMetric}
+                  onChange={(e) =>
+                    setBalanceMetric(e.target.value as BalanceMetric)
+                  }
+                >
+                  {(Object.keys(BALANCE_METRICS) as BalanceMetric[]).map(
+                    (metric) => (
+                      <option key={metric} value={metric}>
+                        {BALANCE_METRICS[metric].label}
+                      </option>
+                    ),
+                  )}
+                </select>
+              </label>
+              <span className="day-balance-caps">
+                Max per day
+                {(
+                  [
+                    ["distance", distanceUnit],
+                    ["elevation", elevationUnit],
+                    ["time", "h"],
+                  ] as const
+                ).map(([key, unit]) => (
+                  <label key={key} className="day-balance-cap">
+                    <input
+                      type="number"
+                      min={0}
+                      value={capInputs[key]}
+                      placeholder="–"
+                      onChange={(e) =>
+                        setCapInputs((caps) => ({
+                          ...caps,
+                          [key]: e.target.value,
+                        }))
+                      }
+                    />
+                    {unit}
+                  </label>
+                ))}
+              </span>
+              {balanceError && (
+                <span className="day-balance-error">{balanceError}</span>
+              )}
+            </>
+          )}
+          <label className="day-start-date">
+            Start
+            <input
+              type="date"
+              value={startDate ?? ""}
+              onChange={(e) => setStartDate(e.target.value || null)}
+            />
+          </label>
+          {numberOfDays > 1 && routeStops.length > 0 && (
+            <label
+              className="day-snap-toggle"
+              title="End each day at the nearest town or place to stay"
+            >
+              <input
+                type="checkbox"
+                checked={snapToStops}
+                onChange={(e) => setSnapToStops(e.target.checked)}
+              />
+              Snap to places
+            </label>
+          )}
+        </div>
+
+        {/* A single day only needs the table for its daylight */}
+        {(numberOfDays > 1 || startDate) && (
+          <DayStatsTable
+            daySplits={daySplits}
+            onAddNonRidingDay={addNonRidingDay}
+            onUpdateNonRidingDay={updateNonRidingDay}
+          />
+        )}
       </div>
     </div>
   );
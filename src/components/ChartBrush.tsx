@@ -0,0 +1,114 @@
+import { useEffect, useRef, useState } from "react";
+import { MIN_ZOOM_KM, type DistanceRange } from "../utils/chartZoom";
+
+interface ChartBrushProps {
+  total: number; // route length in km
+  range: DistanceRange | null; // null for the whole route
+  onChange: (range: DistanceRange | null) => void;
+  color: string;
+}
+
+// Dragging an edge of the window resizes it; dragging the window pans
+type DragMode = "start" | "end" | "window";
+
+interface DragState {
+  mode: DragMode;
+  originX: number;
+  origin: DistanceRange;
+}
+
+/**
+ * Overview track under an elevation chart with the zoomed window on it.
+ * The range is only reported when a drag ends, so the chart re-renders
+ * once per gesture.
+ */
+export function ChartBrush({ total, range, onChange, color }: ChartBrushProps) {
+  const trackRef = useRef<HTMLDivElement>(null);
+  const [drag, setDrag] = useState<DragState | null>(null);
+  const [preview, setPreview] = useState<DistanceRange | null>(null);
+
+  const current = preview ?? range ?? { start: 0, end: total };
+
+  const startDrag = (mode: DragMode) => (e: React.MouseEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    setDrag({ mode, originX: e.clientX, origin: current });
+  };
+
+  useEffect(() => {
+    if (!drag) return;
+    let latest: DistanceRange | null = null;
+
+    const handleMove = (e: MouseEvent) => {
+      const width = trackRef.current?.getBoundingClientRect().width ?? 0;
+      if (width === 0) return;
+      const delta = ((e.clientX - drag.originX) / width) * total;
+      const { start, end } = drag.origin;
+
+      if (drag.mode === "start") {
+        latest = {
+          start: Math.max(0, Math.min(end - MIN_ZOOM_KM, start + delta)),
+          end,
+        };
+      } else if (drag.mode === "end") {
+        latest = {
+          start,
+          end: Math.min(total, Math.max(start + MIN_ZOOM_KM, end + delta)),
+        };
+      } else {
+        const shift = Math.max(-start, Math.min(total - end, delta));
+        latest = { start: start + shift, end: end + shift };
+      }
+      setPreview(latest);
+    };
+
+    const handleEnd = () => {
+      if (latest) onChange(latest);
+      setPreview(null);
+      setDrag(null);
+    };
+
+    document.addEventListener("mousemove", handleMove);
+    document.addEventListener("mouseup", handleEnd);
+
+    return () => {
+      document.removeEventListener("mousemove", handleMove);
+      document.removeEventListener("mouseup", handleEnd);
+    };
+  }, [drag, total, onChange]);
+
+  if (total <= 0) return null;
+
+  const left = (current.start / total) * 100;
+  const width = ((current.end - current.start) / total) * 100;
+
+  return (
+    <div
+      className="chart-brush"
+      ref={trackRef}
+      onDoubleClick={() => onChange(null)}
+      title="Drag the edges to zoom, the window to pan; double-click to reset"
+    >
+      <div
+        className={`chart-brush-window ${drag ? "dragging" : ""}`}
+        style={{
+          left: `${left}%`,
+          width: `${width}%`,
+          borderColor: color,
+        }}
+        onMouseDown={startDrag("window")}
+      >
+        <div
+          className="chart-brush-handle chart-brush-handle-start"
+          style={{ backgroundColor: color }}
+          onMouseDown={startDrag("start")}
+        />
+        <div
+          className="chart-brush-handle chart-brush-handle-end"
+          style={{ backgroundColor: color }}
+          onMouseDown={startDrag("end")}
+        />
+      </div>
+    </div>
+  );
+}
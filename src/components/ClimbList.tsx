@@ -0,0 +1,134 @@
+import type { Climb, RouteData } from "../types/route";
+import { useUnits } from "../hooks/useUnits";
+import { useHoverSync } from "../hooks/useHoverSync";
+import { useBlendedRoute } from "../hooks/useBlendedRoute";
+import { ROUTE_CONFIG } from "../hooks/useRouteData";
+import { getClimbColor } from "../utils/climbs";
+
+interface ClimbListProps {
+  routes: RouteData[];
+  visibleRoutes: Set<string>;
+}
+
+/**
+ * Category badge of a climb
+ */
+function ClimbCategoryBadge({ climb }: { climb: Climb }) {
+  return (
+    <span
+      className="climb-category"
+      style={{ backgroundColor: getClimbColor(climb.category) }}
+    >
+      {climb.category === "HC" ? "HC" : `Cat ${climb.category}`}
+    </span>
+  );
+}
+
+/**
+ * Table of one route's climbs. Hovering a climb marks its summit on the map.
+ */
+function ClimbTable({
+  routeId,
+  name,
+  color,
+  climbs,
+}: {
+  routeId: string;
+  name: string;
+  color: string;
+  climbs: Climb[];
+}) {
+  const { formatDistance, formatElevation, formatElevationChange } = useUnits();
+  const { setHover, clearHover } = useHoverSync();
+
+  return (
+    <div className="climb-list-card" style={{ borderColor: color }}>
+      <h3 style={{ color }}>
+        {name}
+        <span className="climb-count">
+          {climbs.length} {climbs.length === 1 ? "climb" : "climbs"}
+        </span>
+      </h3>
+      {climbs.length === 0 ? (
+        <p className="climb-list-empty">No categorized climbs</p>
+      ) : (
+        <table className="climb-table">
+          <thead>
+            <tr>
+              <th>Cat</th>
+              <th>Start</th>
+              <th>Length</th>
+              <th>Gain</th>
+              <th>Avg</th>
+              <th>Max</th>
+              <th>Summit</th>
+            </tr>
+          </thead>
+          <tbody>
+            {climbs.map((climb) => (
+              <tr
+                key={climb.startIndex}
+                className="climb-row"
+                onMouseEnter={() =>
+                  setHover(
+                    routeId,
+                    {
+                      distance: climb.endDistance,
+                      elevation: climb.summitElevation,
+                      lat: climb.summit.lat,
+                      lng: climb.summit.lng,
+                    },
+                    "chart",
+                  )
+                }
+                onMouseLeave={clearHover}
+              >
+                <td>
+                  <ClimbCategoryBadge climb={climb} />
+                </td>
+                <td>{formatDistance(climb.startDistance, 1)}</td>
+                <td>{formatDistance(climb.length, 1)}</td>
+                <td>{formatElevationChange(climb.elevationGain)}</td>
+                <td>{climb.averageGrade.toFixed(1)}%</td>
+                <td>{climb.maxGrade.toFixed(1)}%</td>
+                <td>{formatElevation(climb.summitElevation)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
+
+export function ClimbList({ routes, visibleRoutes }: ClimbListProps) {
+  const { blendedRoute, isBuilding } = useBlendedRoute();
+  const visibleRoutesList = routes.filter((r) => visibleRoutes.has(r.id));
+  const showBlendedRoute = !isBuilding && blendedRoute !== null;
+
+  if (visibleRoutesList.length === 0 && !showBlendedRoute) {
+    return null;
+  }
+
+  return (
+    <div className="climb-list">
+      {showBlendedRoute && (
+        <ClimbTable
+          routeId="blended"
+          name={ROUTE_CONFIG.blended.name}
+          color={ROUTE_CONFIG.blended.color}
+          climbs={blendedRoute.climbs}
+        />
+      )}
+      {visibleRoutesList.map((route) => (
+        <ClimbTable
+          key={route.id}
+          routeId={route.id}
+          name={route.name}
+          color={route.color}
+          climbs={route.climbs}
+        />
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,284 @@
+import { useCallback, useMemo, useState } from "react";
+import type { Position } from "geojson";
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  Tooltip,
+  ResponsiveContainer,
+  ReferenceLine,
+} from "recharts";
+import type { ElevationPoint, RouteData } from "../types/route";
+import { useBlendedRoute } from "../hooks/useBlendedRoute";
+import { useHoverSync } from "../hooks/useHoverSync";
+import { useUnits } from "../hooks/useUnits";
+import { kmToMiles, metersToFeet } from "../utils/units";
+import { ROUTE_CONFIG } from "../hooks/useRouteData";
+import { ROUTE_VARIANTS } from "../utils/routeVariants";
+import {
+  getBlendedCourseAnchors,
+  getRouteCourseAnchors,
+  mapCoursePosition,
+  type CourseAnchor,
+} from "../utils/courseAlignment";
+import { interpolateAlongLine } from "../utils/geo";
+
+interface CombinedElevationChartProps {
+  routes: RouteData[]; // visible routes, in display order
+  showBlended: boolean;
+}
+
+// Route distance, or course position lined up at the segment junctions
+type Alignment = "distance" | "course";
+
+const COMBINED_SAMPLES = 500;
+
+interface ChartSeries {
+  id: string; // route id or "blended"
+  name: string;
+  color: string;
+  coordinates: Position[];
+  distances: number[]; // cumulative km
+  anchors: CourseAnchor[];
+}
+
+interface ChartDataPoint {
+  x: number; // km on the shared axis
+  elevations: Record<string, number>; // series id -> display elevation
+  points: Record<string, ElevationPoint>; // series id -> point on its route
+}
+
+/**
+ * Elevation profiles of all shown routes on one shared axis
+ */
+export function CombinedElevationChart({
+  routes,
+  showBlended,
+}: CombinedElevationChartProps) {
+  const { segments, blendedRoute } = useBlendedRoute();
+  const { hoverState, setHover, clearHover } = useHoverSync();
+  const { units, distanceUnit, elevationUnit } = useUnits();
+  const [alignment, setAlignment] = useState<Alignment>("course");
+
+  // The first official variant's distances set the course axis
+  const referenceId = ROUTE_VARIANTS[0].id;
+
+  const series = useMemo<ChartSeries[]>(() => {
+    const list: ChartSeries[] = [];
+    if (showBlended && blendedRoute) {
+      list.push({
+        id: "blended",
+        name: ROUTE_CONFIG.blended.name,
+        color: ROUTE_CONFIG.blended.color,
+        coordinates: blendedRoute.coordinates,
+        distances: blendedRoute.distances,
+        anchors: getBlendedCourseAnchors(blendedRoute, segments, referenceId),
+      });
+    }
+    routes.forEach((route) => {
+      list.push({
+        id: route.id,
+        name: route.name,
+        color: route.color,
+        coordinates: route.geojson.geometry.coordinates,
+        distances: route.elevationProfile.map((p) => p.distance),
+        anchors: getRouteCourseAnchors(segments, route.id, referenceId),
+      });
+    });
+    return list;
+  }, [routes, showBlended, blendedRoute, segments, referenceId]);
+
+  // Position of a route distance on the shared axis
+  const toAxis = useCallback(
+    (s: ChartSeries, distance: number) =>
+      alignment === "course"
+        ? mapCoursePosition(s.anchors, distance, "distance")
+        : distance,
+    [alignment],
+  );
+
+  // Sample every route at the same axis positions
+  const chartData = useMemo<ChartDataPoint[]>(() => {
+    const end = Math.max(
+      0,
+      ...series.map((s) => toAxis(s, s.distances[s.distances.length - 1] ?? 0)),
+    );
+    const rows: ChartDataPoint[] = [];
+
+    for (let i = 0; i <= COMBINED_SAMPLES; i++) {
+      const x = (i / COMBINED_SAMPLES) * end;
+      const row: ChartDataPoint = { x, elevations: {}, points: {} };
+
+      series.forEach((s) => {
+        const distance =
+          alignment === "course"
+            ? mapCoursePosition(s.anchors, x, "course")
+            : x;
+        const total = s.distances[s.distances.length - 1] ?? 0;
+        if (distance < 0 || distance > total) return;
+
+        const [lng, lat, elevation = 0] = interpolateAlongLine(
+          s.coordinates,
+          s.distances,
+          distance,
+        );
+        row.points[s.id] = { distance, elevation, lat, lng };
+        row.elevations[s.id] =
+          units === "imperial"
+            ? metersToFeet(elevation)
+            : Math.round(elevation);
+      });
+
+      rows.push(row);
+    }
+    return rows;
+  }, [series, alignment, toAxis, units]);
+
+  // Hovering the chart marks the first route drawn at that position
+  const handleMouseMove = useCallback(
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    (state: any) => {
+      const data = chartData[state?.activeTooltipIndex];
+      if (!data) return;
+      const s = series.find((s) => data.points[s.id]);
+      if (s) setHover(s.id, data.points[s.id], "chart");
+    },
+    [chartData, series, setHover],
+  );
+
+  // Crosshair for the point hovered on the map
+  const mapHoverX = useMemo(() => {
+    if (hoverState.source !== "map" || !hoverState.point) return null;
+    const s = series.find((s) => s.id === hoverState.routeId);
+    return s ? toAxis(s, hoverState.point.distance) : null;
+  }, [hoverState, series, toAxis]);
+
+  if (series.length === 0) return null;
+
+  const formatX = (value: number) =>
+    `${Math.round(units === "imperial" ? kmToMiles(value) : value)}`;
+
+  const renderTooltip = ({
+    active,
+    payload,
+  }: {
+    active?: boolean;
+    payload?: ReadonlyArray<{ payload: ChartDataPoint }>;
+  }) => {
+    if (!active || !payload || !payload[0]) return null;
+    const data = payload[0].payload;
+
+    return (
+      <div className="chart-tooltip">
+        <div className="tooltip-row">
+          <span className="tooltip-label">
+            {alignment === "course" ? "Course:" : "Distance:"}
+          </span>
+          <span className="tooltip-value">
+            {formatX(data.x)} {distanceUnit}
+          </span>
+        </div>
+        {series.map((s) =>
+          data.points[s.id] ? (
+            <div key={s.id} className="tooltip-row">
+              <span className="tooltip-label" style={{ color: s.color }}>
+                {s.name}:
+              </span>
+              <span className="tooltip-value">
+                {data.elevations[s.id].toLocaleString()} {elevationUnit}
+                {alignment === "course" && (
+                  <span className="tooltip-secondary">
+                    {" "}
+                    @ {formatX(data.points[s.id].distance)} {distanceUnit}
+                  </span>
+                )}
+              </span>
+            </div>
+          ) : null,
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="elevation-chart combined-elevation-chart">
+      <div className="chart-header">
+        <div className="chart-title">
+          {series.map((s) => (
+            <span key={s.id} className="combined-legend-item">
+              <span
+                className="route-indicator"
+                style={{ backgroundColor: s.color }}
+              />
+              {s.name}
+            </span>
+          ))}
+        </div>
+        <div className="comparison-scale">
+          {(["course", "distance"] as const).map((option) => (
+            <button
+              key={option}
+              className={`comparison-scale-button ${alignment === option ? "active" : ""}`}
+              onClick={() => setAlignment(option)}
+              title={
+                option === "course"
+                  ? "Line routes up at the segment junctions"
+                  : "Each route by its own distance"
+              }
+            >
+              {option === "course" ? "Course" : "Distance"}
+            </button>
+          ))}
+        </div>
+      </div>
+      <div className="chart-wrapper">
+        <ResponsiveContainer width="100%" height={220}>
+          <LineChart
+            data={chartData}
+            margin={{ top: 5, right: 20, left: 0, bottom: 5 }}
+            onMouseMove={handleMouseMove}
+            onMouseLeave={clearHover}
+          >
+            <XAxis
+              dataKey="x"
+              type="number"
+              domain={[0, "dataMax"]}
+              tick={{ fill: "#8892a0", fontSize: 11 }}
+              tickLine={{ stroke: "#8892a0" }}
+              axisLine={{ stroke: "#3d4555" }}
+              tickFormatter={formatX}
+            />
+            <YAxis
+              domain={["auto", "auto"]}
+              tick={{ fill: "#8892a0", fontSize: 11 }}
+              tickLine={{ stroke: "#8892a0" }}
+              axisLine={{ stroke: "#3d4555" }}
+              tickFormatter={(value) => `${value.toLocaleString()}`}
+              width={55}
+            />
+            <Tooltip
+              content={renderTooltip}
+              cursor={{ stroke: "#cbd5e0", strokeWidth: 1 }}
+            />
+            {series.map((s) => (
+              <Line
+                key={s.id}
+                type="monotone"
+                dataKey={(d: ChartDataPoint) => d.elevations[s.id]}
+                name={s.name}
+                stroke={s.color}
+                strokeWidth={2}
+                dot={false}
+                isAnimationActive={false}
+              />
+            ))}
+            {mapHoverX !== null && (
+              <ReferenceLine x={mapHoverX} stroke="#cbd5e0" strokeWidth={1} />
+            )}
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  );
+}
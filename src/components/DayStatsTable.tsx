@@ -1,8 +1,17 @@
-import type { DaySplit } from '../types/segments';
+import type { DaySplit, NonRidingDayKind } from '../types/segments';
 import { useUnits } from '../hooks/useUnits';
+import { useRidingSettings } from '../hooks/useRidingSettings';
+import { formatDuration, withStops } from '../utils/ridingTime';
+import { OVERNIGHT_STOP_KINDS } from '../utils/overnightStops';
+import { formatTripDate, NON_RIDING_DAYS } from '../utils/daySplitCalculations';
+import { formatClockTime } from '../utils/sunTimes';
+import { COURSE_TIME_ZONE } from '../hooks/useRouteData';
+import { SurfaceBreakdownBar } from './SurfaceBar';
 
 interface DayStatsTableProps {
   daySplits: DaySplit[];
+  onAddNonRidingDay?: (afterDay: number, kind: NonRidingDayKind) => void;
+  onUpdateNonRidingDay?: (index: number, kind: NonRidingDayKind | null) => void; // null removes it
 }
 
 const DAY_COLORS = [
@@ -15,11 +24,57 @@ const DAY_COLORS = [
   '#F39C12', // Yellow-orange
 ];
 
-export function DayStatsTable({ daySplits }: DayStatsTableProps) {
+export function DayStatsTable({
+  daySplits,
+  onAddNonRidingDay,
+  onUpdateNonRidingDay,
+}: DayStatsTableProps) {
   const { formatDistance, formatElevationChange } = useUnits();
+  const { ridingSettings } = useRidingSettings();
 
   if (daySplits.length === 0) return null;
 
+  const showSurfaces = daySplits.some((day) => day.surfaces);
+  const showTimes = daySplits.some((day) => day.movingTime !== undefined);
+  const showStops = daySplits.some((day) => day.endStop);
+  const showDaylight = daySplits.some((day) => day.sunrise && day.sunset);
+  const columnCount =
+    3 + [showTimes, showStops, showDaylight, showSurfaces].filter(Boolean).length;
+  const lastRidingDay = daySplits[daySplits.length - 1].ridingDayNumber;
+
+  // Hours from sunrise at the start to sunset at the end, and whether the
+  // ride with its stops takes longer
+  const getDaylight = (day: DaySplit) => {
+    if (!day.sunrise || !day.sunset) return null;
+    const hours = (day.sunset.getTime() - day.sunrise.getTime()) / 3600000;
+    const needed = day.movingTime !== undefined ? withStops(day.movingTime, ridingSettings) : 0;
+    return { hours, needed, short: !day.nonRiding && needed > hours };
+  };
+
+  // Non-riding days are updated by their position among the non-riding days
+  let nonRidingCount = 0;
+  const rows = daySplits.map((day) => ({
+    day,
+    nonRidingIndex: day.nonRiding ? nonRidingCount++ : -1,
+    daylight: getDaylight(day),
+  }));
+  const shortDays = rows.filter(({ daylight }) => daylight?.short).map(({ day }) => day);
+
+  const renderDayLabel = (day: DaySplit) => (
+    <>
+      <span
+        className="day-color-indicator"
+        style={{
+          backgroundColor: day.nonRiding
+            ? 'var(--text-muted)'
+            : DAY_COLORS[(day.ridingDayNumber - 1) % DAY_COLORS.length],
+        }}
+      />
+      Day {day.dayNumber}
+      {day.date && <span className="day-date">{formatTripDate(day.date)}</span>}
+    </>
+  );
+
   return (
     <div className="day-stats-table">
       <table>
@@ -28,24 +83,117 @@ export function DayStatsTable({ daySplits }: DayStatsTableProps) {
             <th>Day</th>
             <th>Distance</th>
             <th>Elevation</th>
+            {showTimes && <th>Moving time</th>}
+            {showStops && <th>Ends at</th>}
+            {showDaylight && <th>Daylight</th>}
+            {showSurfaces && <th>Surface</th>}
           </tr>
         </thead>
         <tbody>
-          {daySplits.map((day) => (
-            <tr key={day.dayNumber} className="day-stats-row">
-              <td>
-                <span
-                  className="day-color-indicator"
-                  style={{ backgroundColor: DAY_COLORS[(day.dayNumber - 1) % DAY_COLORS.length] }}
-                />
-                Day {day.dayNumber}
-              </td>
-              <td>{formatDistance(day.distanceKm, 1)}</td>
-              <td>{formatElevationChange(day.elevationGain)}</td>
-            </tr>
-          ))}
+          {rows.map(({ day, nonRidingIndex, daylight }) =>
+            day.nonRiding ? (
+              <tr key={day.dayNumber} className="day-stats-row day-stats-row-off">
+                <td>{renderDayLabel(day)}</td>
+                <td colSpan={columnCount - 1}>
+                  <span className="day-off">
+                    {onUpdateNonRidingDay ? (
+                      <select
+                        className="day-off-kind"
+                        value={day.nonRiding}
+                        onChange={(e) =>
+                          onUpdateNonRidingDay(nonRidingIndex, e.target.value as NonRidingDayKind)
+                        }
+                        aria-label={`Day ${day.dayNumber} type`}
+                      >
+                        {(Object.keys(NON_RIDING_DAYS) as NonRidingDayKind[]).map((kind) => (
+                          <option key={kind} value={kind}>
+                            {NON_RIDING_DAYS[kind].label}
+                          </option>
+                        ))}
+                      </select>
+                    ) : (
+                      NON_RIDING_DAYS[day.nonRiding].label
+                    )}
+                    {day.endStop && <span>in {day.endStop.name}</span>}
+                    {onUpdateNonRidingDay && (
+                      <button
+                        className="day-off-remove"
+                        onClick={() => onUpdateNonRidingDay(nonRidingIndex, null)}
+                        title="Remove this day"
+                      >
+                        ×
+                      </button>
+                    )}
+                  </span>
+                </td>
+              </tr>
+            ) : (
+              <tr key={day.dayNumber} className="day-stats-row">
+                <td>
+                  {renderDayLabel(day)}
+                  {onAddNonRidingDay && day.ridingDayNumber < lastRidingDay && (
+                    <button
+                      className="day-off-add"
+                      onClick={() => onAddNonRidingDay(day.ridingDayNumber, 'rest')}
+                      title="Add a rest or shuttle day after this day"
+                    >
+                      +
+                    </button>
+                  )}
+                </td>
+                <td>{formatDistance(day.distanceKm, 1)}</td>
+                <td>{formatElevationChange(day.elevationGain)}</td>
+                {showTimes && (
+                  <td
+                    title={
+                      day.movingTime !== undefined
+                        ? `${formatDuration(withStops(day.movingTime, ridingSettings))} with stops`
+                        : undefined
+                    }
+                  >
+                    {day.movingTime !== undefined && formatDuration(day.movingTime)}
+                  </td>
+                )}
+                {showStops && (
+                  <td
+                    className="day-stop-cell"
+                    title={day.endStop && OVERNIGHT_STOP_KINDS[day.endStop.kind].label}
+                  >
+                    {day.endStop &&
+                      `${OVERNIGHT_STOP_KINDS[day.endStop.kind].icon} ${day.endStop.name}`}
+                  </td>
+                )}
+                {showDaylight && (
+                  <td
+                    className={`day-daylight-cell ${daylight?.short ? 'short' : ''}`}
+                    title={
+                      daylight
+                        ? `${formatDuration(daylight.hours)} of daylight, ${formatDuration(daylight.needed)} riding with stops`
+                        : undefined
+                    }
+                  >
+                    {day.sunrise &&
+                      day.sunset &&
+                      `${formatClockTime(day.sunrise, COURSE_TIME_ZONE)}–${formatClockTime(day.sunset, COURSE_TIME_ZONE)}`}
+                    {daylight?.short && ' ⚠'}
+                  </td>
+                )}
+                {showSurfaces && (
+                  <td className="day-surface-cell">
+                    {day.surfaces && <SurfaceBreakdownBar breakdown={day.surfaces} showLabels />}
+                  </td>
+                )}
+              </tr>
+            )
+          )}
         </tbody>
       </table>
+      {shortDays.length > 0 && (
+        <p className="day-daylight-warning">
+          ⚠ {shortDays.map((day) => `Day ${day.dayNumber}`).join(', ')}{' '}
+          {shortDays.length === 1 ? 'takes' : 'take'} longer than the daylight, counting stops
+        </p>
+      )}
     </div>
   );
 }
@@ -1,21 +1,36 @@
-import { useCallback, useMemo, useRef } from 'react';
+import { useCallback, useMemo, useRef, useState } from 'react';
 import {
-  AreaChart,
+  ComposedChart,
   Area,
+  Line,
   XAxis,
   YAxis,
   Tooltip,
   ResponsiveContainer,
   ReferenceLine,
+  ReferenceArea,
 } from 'recharts';
-import type { RouteData, ElevationPoint } from '../types/route';
+import type { RouteData, ElevationPoint, SurfaceType } from '../types/route';
 import { useHoverSync } from '../hooks/useHoverSync';
-import { useUnits, kmToMiles, metersToFeet } from '../hooks/useUnits';
-import { downsampleProfile } from '../utils/gpx';
+import { useUnits } from '../hooks/useUnits';
+import { kmToMiles, metersToFeet } from '../utils/units';
+import { useChartZoom } from '../hooks/useChartZoom';
+import { getRangeIndices } from '../utils/chartZoom';
+import {
+  calculateStretchGrades,
+  getChartGradeStops,
+  getGradeAxisDomain,
+  getGradeBand,
+} from '../utils/gradient';
+import { SURFACE_TYPES } from '../utils/surface';
+import { getClimbColor } from '../utils/climbs';
+import { SurfaceBand } from './SurfaceBar';
+import { ChartBrush } from './ChartBrush';
 
 interface ElevationChartProps {
   route: RouteData;
   isVisible: boolean;
+  showGrade: boolean; // grade line on a secondary axis
 }
 
 interface ChartDataPoint {
@@ -24,22 +39,45 @@ interface ChartDataPoint {
   distanceRaw: number; // km - for reference line matching
   lat: number;
   lng: number;
-  grade: number;
+  grade: number; // percent, average to the next point
+  surface?: SurfaceType;
 }
 
-export function ElevationChart({ route, isVisible }: ElevationChartProps) {
+export function ElevationChart({ route, isVisible, showGrade }: ElevationChartProps) {
   const { hoverState, setHover, clearHover } = useHoverSync();
   const { units, formatDistance, formatElevationChange, distanceUnit, elevationUnit } = useUnits();
   const chartWrapperRef = useRef<HTMLDivElement>(null);
 
-  // Downsample data for performance (max 500 points)
+  const line = useMemo(
+    () => route.elevationProfile.map((p) => [p.lng, p.lat]),
+    [route.elevationProfile]
+  );
+  const distances = useMemo(
+    () => route.elevationProfile.map((p) => p.distance),
+    [route.elevationProfile]
+  );
+  const { range, total, zoomTo } = useChartZoom(line, distances);
+
+  // Chart points being dragged over to zoom to
+  const [selection, setSelection] = useState<{ from: number; to: number } | null>(null);
+
+  // Downsample the shown range for performance (max 500 points)
   // Convert units based on current setting
   const chartData = useMemo<ChartDataPoint[]>(() => {
-    const downsampled = downsampleProfile(route.elevationProfile, 500);
-    return downsampled.map((p) => {
+    const profile = route.elevationProfile;
+    const indices = getRangeIndices(distances, range, 500);
+    const grades = calculateStretchGrades(
+      profile.map((p) => p.elevation),
+      distances,
+      indices
+    );
+    // Finer distances when zoomed in, so points stay distinct on the axis
+    const precision = range && range.end - range.start < 50 ? 100 : 10;
+    return indices.map((index, i) => {
+      const p = profile[index];
       const distance = units === 'imperial' 
-        ? Math.round(kmToMiles(p.distance) * 10) / 10
-        : Math.round(p.distance * 10) / 10;
+        ? Math.round(kmToMiles(p.distance) * precision) / precision
+        : Math.round(p.distance * precision) / precision;
       const elevation = units === 'imperial'
         ? metersToFeet(p.elevation)
         : Math.round(p.elevation);
@@ -49,10 +87,31 @@ export function ElevationChart({ route, isVisible }: ElevationChartProps) {
         distanceRaw: p.distance,
         lat: p.lat,
         lng: p.lng,
-        grade: Math.round((p.grade || 0) * 10) / 10,
+        grade: Math.round(grades[i] * 10) / 10,
+        surface: p.surface,
       };
     });
-  }, [route.elevationProfile, units]);
+  }, [route.elevationProfile, distances, range, units]);
+
+  // Shade the climbs in view from the first chart points at or past their
+  // foot and summit
+  const climbAreas = useMemo(() => {
+    if (chartData.length === 0) return [];
+    const first = chartData[0];
+    const last = chartData[chartData.length - 1];
+    const inView = route.climbs.filter(
+      (climb) => climb.endDistance > first.distanceRaw && climb.startDistance < last.distanceRaw
+    );
+    return inView.map((climb) => ({
+      climb,
+      x1: (chartData.find((d) => d.distanceRaw >= climb.startDistance) ?? last).distance,
+      x2: (chartData.find((d) => d.distanceRaw >= climb.endDistance) ?? last).distance,
+    }));
+  }, [route.climbs, chartData]);
+
+  // Fill colors by grade band, and the grade axis range
+  const gradeStops = useMemo(() => getChartGradeStops(chartData.map((d) => d.grade)), [chartData]);
+  const gradeDomain = useMemo(() => getGradeAxisDomain(chartData.map((d) => d.grade)), [chartData]);
 
   // Calculate Y-axis domain with some padding
   const yDomain = useMemo(() => {
@@ -63,26 +122,52 @@ export function ElevationChart({ route, isVisible }: ElevationChartProps) {
     return [Math.floor(min - padding), Math.ceil(max + padding)];
   }, [chartData]);
 
+  // Dragging across the chart selects a range to zoom to
+  const handleMouseDown = useCallback(
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    (state: any) => {
+      if (state?.activeTooltipIndex == null) return;
+      const index = Number(state.activeTooltipIndex);
+      setSelection({ from: index, to: index });
+    },
+    []
+  );
+
+  const handleMouseUp = useCallback(() => {
+    if (selection && selection.from !== selection.to) {
+      const a = chartData[Math.min(selection.from, selection.to)];
+      const b = chartData[Math.max(selection.from, selection.to)];
+      if (a && b) zoomTo({ start: a.distanceRaw, end: b.distanceRaw });
+    }
+    setSelection(null);
+  }, [selection, chartData, zoomTo]);
+
   const handleMouseMove = useCallback(
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     (state: any) => {
       // Recharts passes activeTooltipIndex which we use to look up the data point
       if (state?.activeTooltipIndex != null && chartData[state.activeTooltipIndex]) {
         const data = chartData[state.activeTooltipIndex];
+        if (selection) {
+          const index = Number(state.activeTooltipIndex);
+          setSelection((current) => current && { ...current, to: index });
+        }
         const point: ElevationPoint = {
           distance: data.distanceRaw,
           elevation: data.elevation,
           lat: data.lat,
           lng: data.lng,
           grade: data.grade,
+          surface: data.surface,
         };
         setHover(route.id, point, 'chart');
       }
     },
-    [route.id, setHover, chartData]
+    [route.id, setHover, chartData, selection]
   );
 
   const handleMouseLeave = useCallback(() => {
+    setSelection(null);
     clearHover();
   }, [clearHover]);
 
@@ -91,7 +176,10 @@ export function ElevationChart({ route, isVisible }: ElevationChartProps) {
     if (
       hoverState.source === 'map' &&
       hoverState.routeId === route.id &&
-      hoverState.point
+      hoverState.point &&
+      chartData.length > 0 &&
+      hoverState.point.distance >= chartData[0].distanceRaw &&
+      hoverState.point.distance <= chartData[chartData.length - 1].distanceRaw
     ) {
       // Find the closest chart data point by raw distance
       const targetDistanceKm = hoverState.point.distance;
@@ -126,14 +214,7 @@ export function ElevationChart({ route, isVisible }: ElevationChartProps) {
 
   // Tooltip content renderer - used for both built-in tooltip and map hover overlay
   const renderTooltipContent = (data: ChartDataPoint) => {
-    const gradeColor =
-      data.grade > 8
-        ? '#e74c3c'
-        : data.grade > 4
-        ? '#f39c12'
-        : data.grade < -4
-        ? '#27ae60'
-        : '#95a5a6';
+    const gradeColor = getGradeBand(data.grade).color;
 
     return (
       <div className="chart-tooltip">
@@ -152,6 +233,14 @@ export function ElevationChart({ route, isVisible }: ElevationChartProps) {
             {data.grade.toFixed(1)}%
           </span>
         </div>
+        {data.surface && (
+          <div className="tooltip-row">
+            <span className="tooltip-label">Surface:</span>
+            <span className="tooltip-value" style={{ color: SURFACE_TYPES[data.surface].color }}>
+              {SURFACE_TYPES[data.surface].label}
+            </span>
+          </div>
+        )}
       </div>
     );
   };
@@ -208,6 +297,14 @@ export function ElevationChart({ route, isVisible }: ElevationChartProps) {
           {route.name}
         </div>
         <div className="chart-stats">
+          {range && (
+            <>
+              <button className="chart-zoom-reset" onClick={() => zoomTo(null)}>
+                Reset zoom
+              </button>
+              <span className="stat-divider">|</span>
+            </>
+          )}
           <span>{formatDistance(route.stats.distance)}</span>
           <span className="stat-divider">|</span>
           <span>{formatElevationChange(route.stats.elevationGain)}</span>
@@ -215,10 +312,12 @@ export function ElevationChart({ route, isVisible }: ElevationChartProps) {
       </div>
       <div className="chart-wrapper" ref={chartWrapperRef}>
         <ResponsiveContainer width="100%" height={140}>
-          <AreaChart
+          <ComposedChart
             data={chartData}
             margin={{ top: 5, right: 20, left: 0, bottom: 5 }}
+            onMouseDown={handleMouseDown}
             onMouseMove={handleMouseMove}
+            onMouseUp={handleMouseUp}
             onMouseLeave={handleMouseLeave}
           >
             <defs>
@@ -226,11 +325,12 @@ export function ElevationChart({ route, isVisible }: ElevationChartProps) {
                 id={`gradient-${route.id}`}
                 x1="0"
                 y1="0"
-                x2="0"
-                y2="1"
+                x2="1"
+                y2="0"
               >
-                <stop offset="5%" stopColor={route.color} stopOpacity={0.4} />
-                <stop offset="95%" stopColor={route.color} stopOpacity={0.05} />
+                {gradeStops.map((stop, i) => (
+                  <stop key={i} offset={stop.offset} stopColor={stop.color} />
+                ))}
               </linearGradient>
             </defs>
             <XAxis
@@ -248,18 +348,67 @@ export function ElevationChart({ route, isVisible }: ElevationChartProps) {
               tickFormatter={(value) => `${value.toLocaleString()}`}
               width={55}
             />
+            {showGrade && (
+              <YAxis
+                yAxisId="grade"
+                orientation="right"
+                mirror
+                domain={gradeDomain}
+                tick={{ fill: '#8892a0', fontSize: 10 }}
+                tickLine={false}
+                axisLine={false}
+                tickFormatter={(value) => `${value}%`}
+              />
+            )}
             <Tooltip 
               content={<CustomTooltip />}
               cursor={{ stroke: route.color, strokeWidth: 2 }}
             />
+            {climbAreas.map(({ climb, x1, x2 }) => (
+              <ReferenceArea
+                key={climb.startIndex}
+                x1={x1}
+                x2={x2}
+                fill={getClimbColor(climb.category)}
+                fillOpacity={0.15}
+                label={{
+                  value: climb.category,
+                  position: 'insideTop',
+                  fill: getClimbColor(climb.category),
+                  fontSize: 10,
+                }}
+              />
+            ))}
             <Area
               type="monotone"
               dataKey="elevation"
               stroke={route.color}
               strokeWidth={2}
               fill={`url(#gradient-${route.id})`}
+              fillOpacity={0.45}
               isAnimationActive={false}
             />
+            {showGrade && (
+              <Line
+                yAxisId="grade"
+                type="monotone"
+                dataKey="grade"
+                stroke="#cbd5e0"
+                strokeWidth={1}
+                strokeOpacity={0.7}
+                dot={false}
+                activeDot={false}
+                isAnimationActive={false}
+              />
+            )}
+            {selection && chartData[selection.from] && chartData[selection.to] && (
+              <ReferenceArea
+                x1={chartData[selection.from].distance}
+                x2={chartData[selection.to].distance}
+                fill="#cbd5e0"
+                fillOpacity={0.2}
+              />
+            )}
             {mapHoverData && (
               <ReferenceLine
                 x={mapHoverData.distance}
@@ -267,7 +416,7 @@ export function ElevationChart({ route, isVisible }: ElevationChartProps) {
                 strokeWidth={2}
               />
             )}
-          </AreaChart>
+          </ComposedChart>
         </ResponsiveContainer>
         
         {/* Overlay tooltip when hovering from map */}
@@ -280,6 +429,8 @@ export function ElevationChart({ route, isVisible }: ElevationChartProps) {
           </div>
         )}
       </div>
+      {route.surfaces && <SurfaceBand surfaces={chartData.map((d) => d.surface)} />}
+      <ChartBrush total={total} range={range} onChange={zoomTo} color={route.color} />
     </div>
   );
 }
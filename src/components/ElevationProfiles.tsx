@@ -1,45 +1,101 @@
-import { useMemo } from 'react';
+import { useMemo, useState } from 'react';
 import type { RouteData } from '../types/route';
 import { ElevationChart } from './ElevationChart';
 import { BlendedElevationChart } from './BlendedElevationChart';
+import { CombinedElevationChart } from './CombinedElevationChart';
 import { useBlendedRoute } from '../hooks/useBlendedRoute';
+import { useMapViewport } from '../hooks/useMapViewport';
+import { ROUTE_VARIANTS } from '../utils/routeVariants';
+import { GRADE_BANDS } from '../utils/gradient';
 
 interface ElevationProfilesProps {
   routes: RouteData[];
-  visibleRoutes: Set<'gravel' | 'tarmac'>;
+  visibleRoutes: Set<string>;
 }
 
 export function ElevationProfiles({ routes, visibleRoutes }: ElevationProfilesProps) {
   const { blendedRoute, isBuilding } = useBlendedRoute();
+  const { followMap, setFollowMap } = useMapViewport();
+  const [showGrade, setShowGrade] = useState(false);
+  // Stacked: a chart per route; combined: all routes overlaid on one chart
+  const [combined, setCombined] = useState(false);
 
-  // Sort routes so gravel is first (top), then tarmac
+  // Sort routes in variant display order (gravel first/top, then tarmac),
+  // followed by uploaded routes in upload order
   const sortedRoutes = useMemo(() => {
-    return [...routes].sort((a, b) => {
-      if (a.id === 'gravel') return -1;
-      if (b.id === 'gravel') return 1;
-      return 0;
-    });
+    const order = ROUTE_VARIANTS.map((v) => v.id);
+    const rank = (id: string) => {
+      const index = order.indexOf(id);
+      return index === -1 ? order.length : index;
+    };
+    return [...routes].sort((a, b) => rank(a.id) - rank(b.id));
   }, [routes]);
 
   // Show blended route chart when we have a completed blended route and not in building mode
   const showBlendedChart = !isBuilding && blendedRoute !== null;
 
+  const shownRoutes = sortedRoutes.filter((route) => visibleRoutes.has(route.id));
+
   return (
     <div className="elevation-profiles">
+      <div className="profiles-toolbar">
+        <div className="grade-legend">
+          {GRADE_BANDS.map((band) => (
+            <span key={band.label} className="gradient-legend-item">
+              <span className="gradient-legend-swatch" style={{ backgroundColor: band.color }} />
+              {band.label}
+            </span>
+          ))}
+        </div>
+        <label className="grade-line-toggle">
+          <input
+            type="checkbox"
+            checked={showGrade}
+            onChange={(e) => setShowGrade(e.target.checked)}
+          />
+          Grade line
+        </label>
+        <label className="follow-map-toggle" title="Zoom the charts to the part of each route on the map">
+          <input
+            type="checkbox"
+            checked={followMap}
+            onChange={(e) => setFollowMap(e.target.checked)}
+          />
+          Follow map
+        </label>
+        <div className="comparison-scale">
+          {[false, true].map((option) => (
+            <button
+              key={String(option)}
+              className={`comparison-scale-button ${combined === option ? 'active' : ''}`}
+              onClick={() => setCombined(option)}
+            >
+              {option ? 'Combined' : 'Stacked'}
+            </button>
+          ))}
+        </div>
+      </div>
       <div className="profiles-container">
         {/* Blended route chart (shown at top when available) */}
         {showBlendedChart && (
-          <BlendedElevationChart blendedRoute={blendedRoute} />
+          <BlendedElevationChart blendedRoute={blendedRoute} showGrade={showGrade} />
         )}
         
-        {/* Original route charts */}
-        {sortedRoutes.map((route) => (
-          <ElevationChart
-            key={route.id}
-            route={route}
-            isVisible={visibleRoutes.has(route.id)}
-          />
-        ))}
+        {/* Original route charts, overlaid in combined mode */}
+        {combined ? (
+          (shownRoutes.length > 0 || showBlendedChart) && (
+            <CombinedElevationChart routes={shownRoutes} showBlended={showBlendedChart} />
+          )
+        ) : (
+          sortedRoutes.map((route) => (
+            <ElevationChart
+              key={route.id}
+              route={route}
+              isVisible={visibleRoutes.has(route.id)}
+              showGrade={showGrade}
+            />
+          ))
+        )}
       </div>
       {visibleRoutes.size === 0 && !showBlendedChart && (
         <div className="no-routes-message">
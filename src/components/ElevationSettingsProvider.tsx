@@ -0,0 +1,28 @@
+import { useState, useMemo, type ReactNode } from 'react';
+import { ElevationSettingsContext } from '../hooks/useElevationSettings';
+import {
+  CLIMBING_METHODS,
+  DEFAULT_CLIMBING_METHOD,
+  type ClimbingMethod,
+} from '../utils/elevation';
+
+export function ElevationSettingsProvider({ children }: { children: ReactNode }) {
+  const [climbingMethod, setClimbingMethod] = useState<ClimbingMethod>(
+    DEFAULT_CLIMBING_METHOD
+  );
+
+  const value = useMemo(
+    () => ({
+      climbingMethod,
+      setClimbingMethod,
+      elevationSettings: CLIMBING_METHODS[climbingMethod].settings,
+    }),
+    [climbingMethod]
+  );
+
+  return (
+    <ElevationSettingsContext.Provider value={value}>
+      {children}
+    </ElevationSettingsContext.Provider>
+  );
+}
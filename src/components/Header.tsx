@@ -1,8 +1,11 @@
 import { useUnits } from "../hooks/useUnits";
 import { useBlendedRoute } from "../hooks/useBlendedRoute";
+import { useElevationSettings } from "../hooks/useElevationSettings";
+import { CLIMBING_METHODS, type ClimbingMethod } from "../utils/elevation";
 
 export function Header() {
   const { units, toggleUnits } = useUnits();
+  const { climbingMethod, setClimbingMethod } = useElevationSettings();
   const {
     isBuilding,
     enterBuildMode,
@@ -69,6 +72,23 @@ export function Header() {
                 Build Route
               </button>
             )}
+            <select
+              className="climbing-selector"
+              value={climbingMethod}
+              onChange={(e) =>
+                setClimbingMethod(e.target.value as ClimbingMethod)
+              }
+              aria-label="Climbing calculation"
+              title={CLIMBING_METHODS[climbingMethod].description}
+            >
+              {(Object.keys(CLIMBING_METHODS) as ClimbingMethod[]).map(
+                (method) => (
+                  <option key={method} value={method}>
+                    ↗ {CLIMBING_METHODS[method].label}
+                  </option>
+                ),
+              )}
+            </select>
             <button
               className="unit-toggle"
               onClick={toggleUnits}
@@ -1,28 +1,100 @@
 import {
   useEffect,
+  useMemo,
   useRef,
   useState,
   useImperativeHandle,
   forwardRef,
 } from "react";
-import mapboxgl from "mapbox-gl";
+import mapboxgl, { type ExpressionSpecification } from "mapbox-gl";
+import type { Position } from "geojson";
 import "mapbox-gl/dist/mapbox-gl.css";
-import type { RouteData } from "../types/route";
+import type { Climb, RouteData, RouteGap } from "../types/route";
 import type { Segment } from "../types/segments";
 import { useHoverSync } from "../hooks/useHoverSync";
 import { useBlendedRoute } from "../hooks/useBlendedRoute";
-import { ROUTE_CONFIG } from "../hooks/useRouteData";
-import { findClosestPoint } from "../utils/gpx";
+import { useUnits } from "../hooks/useUnits";
+import { useMapViewport } from "../hooks/useMapViewport";
+import { ROUTE_CONFIG, getVariantColor } from "../hooks/useRouteData";
+import { getClimbColor } from "../utils/climbs";
+import { OVERNIGHT_STOP_KINDS } from "../utils/overnightStops";
+import { calculateCumulativeDistances } from "../utils/geo";
+import {
+  GRADE_BANDS,
+  calculateLineGrades,
+  getGradeColorStops,
+} from "../utils/gradient";
+import { findClosestPoint } from "../utils/routeData";
+import { getSegmentCoordinates } from "../utils/segmentGeometry";
+import { getSegmentVariantIds } from "../utils/segments";
 
 interface MapProps {
   routes: RouteData[];
-  visibleRoutes: Set<"gravel" | "tarmac">;
+  visibleRoutes: Set<string>;
 }
 
 export interface MapRef {
   zoomToSegment: (segment: Segment) => void;
 }
 
+// Route lines in their route's color, or colored by grade band
+type LineColorMode = "route" | "gradient";
+
+const TRANSPARENT = "rgba(0, 0, 0, 0)";
+
+/**
+ * line-gradient step expression from [line progress, color] stops, with
+ * the straight bridges across the line's gaps left transparent: they
+ * weren't ridden. The line's source needs lineMetrics.
+ */
+function getStepExpression(
+  coordinates: Position[],
+  [[, firstColor], ...stops]: [number, string][],
+  gaps: RouteGap[],
+): ExpressionSpecification {
+  const distances = calculateCumulativeDistances(coordinates);
+  const total = distances[distances.length - 1] ?? 0;
+
+  let colorStops = stops;
+  for (const { index } of gaps) {
+    if (total <= 0) break;
+    const start = distances[index - 1] / total;
+    const end = distances[index] / total;
+    if (end <= start) continue;
+
+    // The color in effect where the bridge ends carries on after it
+    const resume =
+      [...colorStops].reverse().find(([progress]) => progress <= end)?.[1] ??
+      firstColor;
+    colorStops = [
+      ...colorStops.filter(([progress]) => progress < start || progress > end),
+      [start, TRANSPARENT] as [number, string],
+      [end, resume] as [number, string],
+    ].sort((a, b) => a[0] - b[0]);
+  }
+
+  return ["step", ["line-progress"], firstColor, ...colorStops.flat()];
+}
+
+/**
+ * line-gradient expression coloring a line by grade band
+ */
+function getGradientExpression(
+  coordinates: Position[],
+  gaps: RouteGap[] = [],
+): ExpressionSpecification {
+  const distances = calculateCumulativeDistances(coordinates);
+  const grades = calculateLineGrades(
+    coordinates.map(([, , elevation = 0]) => elevation),
+    distances,
+  );
+  return getStepExpression(
+    coordinates,
+    getGradeColorStops(grades, distances),
+    gaps,
+  );
+}
+
 // You'll need to set your Mapbox token here or via environment variable
 const MAPBOX_TOKEN =
   import.meta.env.VITE_MAPBOX_TOKEN || "YOUR_MAPBOX_TOKEN_HERE";
@@ -39,16 +111,45 @@ export const Map = forwardRef<MapRef, MapProps>(function Map(
   const {
     isBuilding,
     segments,
+    tracks,
     selections,
     selectedSegmentId,
     blendedRoute,
     breakpointCoordinates,
     setHoveredSegment,
   } = useBlendedRoute();
+  const { formatDistance, formatElevation } = useUnits();
+  const { followMap, setBounds, fitRequest } = useMapViewport();
+  const [lineColorMode, setLineColorMode] = useState<LineColorMode>("route");
+
+  // Gradient colors of the route lines, only worked out when shown. Routes
+  // with gaps also need one in their own color, to hide the bridges.
+  const routeGradients = useMemo(() => {
+    const gradients: Record<string, ExpressionSpecification> = {};
+    routes.forEach((route) => {
+      const { coordinates } = route.geojson.geometry;
+      if (lineColorMode === "gradient") {
+        gradients[route.id] = getGradientExpression(coordinates, route.gaps);
+      } else if (route.gaps.length > 0) {
+        gradients[route.id] = getStepExpression(
+          coordinates,
+          [[0, route.color]],
+          route.gaps,
+        );
+      }
+    });
+    return gradients;
+  }, [routes, lineColorMode]);
 
   // Refs for breakpoint markers
   const breakpointMarkers = useRef<mapboxgl.Marker[]>([]);
 
+  // Refs for climb summit markers
+  const summitMarkers = useRef<mapboxgl.Marker[]>([]);
+
+  // Ids of the routes currently drawn, so removed uploads can be cleared
+  const drawnRouteIds = useRef<Set<string>>(new Set());
+
   // Expose zoom function via ref
   useImperativeHandle(
     ref,
@@ -56,14 +157,15 @@ export const Map = forwardRef<MapRef, MapProps>(function Map(
       zoomToSegment: (segment: Segment) => {
         if (!map.current) return;
 
-        // Collect all coordinates from both gravel and tarmac options
+        // Collect all coordinates from every variant option
         const allCoords: [number, number][] = [];
 
-        segment.gravel.coordinates.forEach(([lng, lat]) => {
-          allCoords.push([lng, lat]);
-        });
-        segment.tarmac.coordinates.forEach(([lng, lat]) => {
-          allCoords.push([lng, lat]);
+        Object.entries(segment.variants).forEach(([variantId, stats]) => {
+          getSegmentCoordinates(stats, tracks[variantId] ?? []).forEach(
+            ([lng, lat]) => {
+              allCoords.push([lng, lat]);
+            },
+          );
         });
 
         if (allCoords.length === 0) return;
@@ -80,7 +182,7 @@ export const Map = forwardRef<MapRef, MapProps>(function Map(
         });
       },
     }),
-    [],
+    [tracks],
   );
 
   // Initialize map
@@ -121,6 +223,21 @@ export const Map = forwardRef<MapRef, MapProps>(function Map(
 
     const m = map.current;
 
+    // Remove routes that are gone (e.g. a removed upload)
+    const routeIds = new Set(routes.map((route) => route.id));
+    drawnRouteIds.current.forEach((id) => {
+      if (routeIds.has(id)) return;
+      [
+        `route-${id}-hit-area`,
+        `route-${id}-line`,
+        `route-${id}-outline`,
+      ].forEach((layerId) => {
+        if (m.getLayer(layerId)) m.removeLayer(layerId);
+      });
+      if (m.getSource(`route-${id}`)) m.removeSource(`route-${id}`);
+    });
+    drawnRouteIds.current = routeIds;
+
     // Add routes
     routes.forEach((route) => {
       const sourceId = `route-${route.id}`;
@@ -138,6 +255,7 @@ export const Map = forwardRef<MapRef, MapProps>(function Map(
       m.addSource(sourceId, {
         type: "geojson",
         data: route.geojson,
+        lineMetrics: true,
       });
 
       // Determine visibility - hide in building mode
@@ -155,6 +273,13 @@ export const Map = forwardRef<MapRef, MapProps>(function Map(
         },
         paint: {
           "line-color": "#1a1a2e",
+          ...(route.gaps.length > 0 && {
+            "line-gradient": getStepExpression(
+              route.geojson.geometry.coordinates,
+              [[0, "#1a1a2e"]],
+              route.gaps,
+            ),
+          }),
           "line-width": 6,
           "line-opacity": 0.8,
         },
@@ -264,6 +389,22 @@ export const Map = forwardRef<MapRef, MapProps>(function Map(
     });
   }, [mapLoaded, routes, visibleRoutes, isBuilding]);
 
+  // Color the route lines by grade or in their route's color. Runs after
+  // the layers are (re)added above.
+  useEffect(() => {
+    if (!map.current || !mapLoaded) return;
+
+    routes.forEach((route) => {
+      const layerId = `route-${route.id}-line`;
+      if (!map.current?.getLayer(layerId)) return;
+      map.current.setPaintProperty(
+        layerId,
+        "line-gradient",
+        routeGradients[route.id] ?? null,
+      );
+    });
+  }, [mapLoaded, routes, visibleRoutes, isBuilding, routeGradients]);
+
   // Add/update segment layers in building mode
   useEffect(() => {
     if (!map.current || !mapLoaded || segments.length === 0) return;
@@ -272,27 +413,17 @@ export const Map = forwardRef<MapRef, MapProps>(function Map(
 
     // Remove all existing segment layers
     segments.forEach((segment) => {
-      const layerIds = [
-        `segment-${segment.id}-gravel-outline`,
-        `segment-${segment.id}-gravel-line`,
-        `segment-${segment.id}-gravel-hit`,
-        `segment-${segment.id}-tarmac-outline`,
-        `segment-${segment.id}-tarmac-line`,
-        `segment-${segment.id}-tarmac-hit`,
-        `segment-${segment.id}-shared-outline`,
-        `segment-${segment.id}-shared-line`,
-      ];
-      const sourceIds = [
-        `segment-${segment.id}-gravel`,
-        `segment-${segment.id}-tarmac`,
-        `segment-${segment.id}-shared`,
-      ];
-
-      layerIds.forEach((id) => {
-        if (m.getLayer(id)) m.removeLayer(id);
-      });
-      sourceIds.forEach((id) => {
-        if (m.getSource(id)) m.removeSource(id);
+      const keys = [...getSegmentVariantIds(segment), "shared"];
+      keys.forEach((key) => {
+        [
+          `segment-${segment.id}-${key}-outline`,
+          `segment-${segment.id}-${key}-line`,
+          `segment-${segment.id}-${key}-hit`,
+        ].forEach((id) => {
+          if (m.getLayer(id)) m.removeLayer(id);
+        });
+        const sourceId = `segment-${segment.id}-${key}`;
+        if (m.getSource(sourceId)) m.removeSource(sourceId);
       });
     });
 
@@ -305,10 +436,12 @@ export const Map = forwardRef<MapRef, MapProps>(function Map(
       if (segment.type === "shared") {
         // Add shared segment (grey)
         const sourceId = `segment-${segment.id}-shared`;
-        const coords = segment.gravel.coordinates.map(([lng, lat]) => [
-          lng,
-          lat,
-        ]);
+        const [primaryId] = getSegmentVariantIds(segment);
+        const line = getSegmentCoordinates(
+          segment.variants[primaryId],
+          tracks[primaryId] ?? [],
+        );
+        const coords = line.map(([lng, lat]) => [lng, lat]);
 
         if (coords.length < 2) return;
 
@@ -319,6 +452,7 @@ export const Map = forwardRef<MapRef, MapProps>(function Map(
             properties: {},
             geometry: { type: "LineString", coordinates: coords },
           },
+          lineMetrics: true,
         });
 
         m.addLayer({
@@ -339,148 +473,102 @@ export const Map = forwardRef<MapRef, MapProps>(function Map(
           source: sourceId,
           paint: {
             "line-color": ROUTE_CONFIG.shared.color,
+            ...(lineColorMode === "gradient" && {
+              "line-gradient": getGradientExpression(line),
+            }),
             "line-width": 3,
             "line-opacity": 1,
           },
           layout: { "line-join": "round", "line-cap": "round" },
         });
       } else {
-        // Diverging segment - show both options
+        // Diverging segment - show every variant option
         const selection = selections.get(segment.id);
 
-        // Gravel option
-        const gravelCoords = segment.gravel.coordinates.map(([lng, lat]) => [
-          lng,
-          lat,
-        ]);
-        if (gravelCoords.length >= 2) {
-          const gravelSourceId = `segment-${segment.id}-gravel`;
-          m.addSource(gravelSourceId, {
-            type: "geojson",
-            data: {
-              type: "Feature",
-              properties: {},
-              geometry: { type: "LineString", coordinates: gravelCoords },
-            },
-          });
-
-          const isGravelSelected = selection === "gravel";
-          // Highlight when this segment is focused in the table
-          const isHighlighted = isSelected;
-          const gravelOpacity = selection
-            ? isGravelSelected
-              ? 1
-              : 0.3
-            : isHighlighted
-              ? 1
-              : 0.7;
-          const lineWidth = isHighlighted ? 6 : isGravelSelected ? 4 : 3;
-
-          m.addLayer({
-            id: `segment-${segment.id}-gravel-outline`,
-            type: "line",
-            source: gravelSourceId,
-            paint: {
-              "line-color": "#1a1a2e",
-              "line-width": lineWidth + 2,
-              "line-opacity": gravelOpacity * 0.8,
-            },
-            layout: { "line-join": "round", "line-cap": "round" },
-          });
-
-          m.addLayer({
-            id: `segment-${segment.id}-gravel-line`,
-            type: "line",
-            source: gravelSourceId,
-            paint: {
-              "line-color": ROUTE_CONFIG.gravel.color,
-              "line-width": lineWidth,
-              "line-opacity": gravelOpacity,
-            },
-            layout: { "line-join": "round", "line-cap": "round" },
-          });
-
-          // Hit area for gravel (for hover effects)
-          m.addLayer({
-            id: `segment-${segment.id}-gravel-hit`,
-            type: "line",
-            source: gravelSourceId,
-            paint: {
-              "line-color": ROUTE_CONFIG.gravel.color,
-              "line-width": 20,
-              "line-opacity": 0,
-            },
-            layout: { "line-join": "round", "line-cap": "round" },
-          });
-        }
+        // Add in reverse display order so the first variant draws on top
+        [...getSegmentVariantIds(segment)].reverse().forEach((variantId) => {
+          const line = getSegmentCoordinates(
+            segment.variants[variantId],
+            tracks[variantId] ?? [],
+          );
+          const coords = line.map(([lng, lat]) => [lng, lat]);
+          if (coords.length < 2) return;
 
-        // Tarmac option
-        const tarmacCoords = segment.tarmac.coordinates.map(([lng, lat]) => [
-          lng,
-          lat,
-        ]);
-        if (tarmacCoords.length >= 2) {
-          const tarmacSourceId = `segment-${segment.id}-tarmac`;
-          m.addSource(tarmacSourceId, {
+          const sourceId = `segment-${segment.id}-${variantId}`;
+          const color = getVariantColor(variantId);
+          m.addSource(sourceId, {
             type: "geojson",
             data: {
               type: "Feature",
               properties: {},
-              geometry: { type: "LineString", coordinates: tarmacCoords },
+              geometry: { type: "LineString", coordinates: coords },
             },
+            lineMetrics: true,
           });
 
-          const isTarmacSelected = selection === "tarmac";
+          const isVariantSelected = selection === variantId;
+          // Highlight when this segment is focused in the table
           const isHighlighted = isSelected;
-          const tarmacOpacity = selection
-            ? isTarmacSelected
+          const opacity = selection
+            ? isVariantSelected
               ? 1
               : 0.3
             : isHighlighted
               ? 1
               : 0.7;
-          const lineWidth = isHighlighted ? 6 : isTarmacSelected ? 4 : 3;
+          const lineWidth = isHighlighted ? 6 : isVariantSelected ? 4 : 3;
 
           m.addLayer({
-            id: `segment-${segment.id}-tarmac-outline`,
+            id: `segment-${segment.id}-${variantId}-outline`,
             type: "line",
-            source: tarmacSourceId,
+            source: sourceId,
             paint: {
               "line-color": "#1a1a2e",
               "line-width": lineWidth + 2,
-              "line-opacity": tarmacOpacity * 0.8,
+              "line-opacity": opacity * 0.8,
             },
             layout: { "line-join": "round", "line-cap": "round" },
           });
 
           m.addLayer({
-            id: `segment-${segment.id}-tarmac-line`,
+            id: `segment-${segment.id}-${variantId}-line`,
             type: "line",
-            source: tarmacSourceId,
+            source: sourceId,
             paint: {
-              "line-color": ROUTE_CONFIG.tarmac.color,
+              "line-color": color,
+              ...(lineColorMode === "gradient" && {
+                "line-gradient": getGradientExpression(line),
+              }),
               "line-width": lineWidth,
-              "line-opacity": tarmacOpacity,
+              "line-opacity": opacity,
             },
             layout: { "line-join": "round", "line-cap": "round" },
           });
 
-          // Hit area for tarmac
+          // Hit area (for hover effects)
           m.addLayer({
-            id: `segment-${segment.id}-tarmac-hit`,
+            id: `segment-${segment.id}-${variantId}-hit`,
             type: "line",
-            source: tarmacSourceId,
+            source: sourceId,
             paint: {
-              "line-color": ROUTE_CONFIG.tarmac.color,
+              "line-color": color,
               "line-width": 20,
               "line-opacity": 0,
             },
             layout: { "line-join": "round", "line-cap": "round" },
           });
-        }
+        });
       }
     });
-  }, [mapLoaded, segments, isBuilding, selections, selectedSegmentId]);
+  }, [
+    mapLoaded,
+    segments,
+    tracks,
+    isBuilding,
+    selections,
+    selectedSegmentId,
+    lineColorMode,
+  ]);
 
   // Add hover handlers for segment layers (for visual feedback only, no popup)
   useEffect(() => {
@@ -491,30 +579,19 @@ export const Map = forwardRef<MapRef, MapProps>(function Map(
     segments.forEach((segment) => {
       if (segment.type !== "diverging") return;
 
-      const gravelHitLayer = `segment-${segment.id}-gravel-hit`;
-      const tarmacHitLayer = `segment-${segment.id}-tarmac-hit`;
+      getSegmentVariantIds(segment).forEach((variantId) => {
+        const hitLayer = `segment-${segment.id}-${variantId}-hit`;
+        if (!m.getLayer(hitLayer)) return;
 
-      if (m.getLayer(gravelHitLayer)) {
-        m.on("mouseenter", gravelHitLayer, () => {
+        m.on("mouseenter", hitLayer, () => {
           m.getCanvas().style.cursor = "pointer";
           setHoveredSegment(segment.id);
         });
-        m.on("mouseleave", gravelHitLayer, () => {
+        m.on("mouseleave", hitLayer, () => {
           m.getCanvas().style.cursor = "";
           setHoveredSegment(null);
         });
-      }
-
-      if (m.getLayer(tarmacHitLayer)) {
-        m.on("mouseenter", tarmacHitLayer, () => {
-          m.getCanvas().style.cursor = "pointer";
-          setHoveredSegment(segment.id);
-        });
-        m.on("mouseleave", tarmacHitLayer, () => {
-          m.getCanvas().style.cursor = "";
-          setHoveredSegment(null);
-        });
-      }
+      });
     });
   }, [mapLoaded, segments, isBuilding, setHoveredSegment]);
 
@@ -545,6 +622,7 @@ export const Map = forwardRef<MapRef, MapProps>(function Map(
         properties: {},
         geometry: { type: "LineString", coordinates: coords },
       },
+      lineMetrics: true,
     });
 
     m.addLayer({
@@ -565,12 +643,15 @@ export const Map = forwardRef<MapRef, MapProps>(function Map(
       source: sourceId,
       paint: {
         "line-color": ROUTE_CONFIG.blended.color,
+        ...(lineColorMode === "gradient" && {
+          "line-gradient": getGradientExpression(blendedRoute.coordinates),
+        }),
         "line-width": 5,
         "line-opacity": 1,
       },
       layout: { "line-join": "round", "line-cap": "round" },
     });
-  }, [mapLoaded, isBuilding, blendedRoute]);
+  }, [mapLoaded, isBuilding, blendedRoute, lineColorMode]);
 
   // Add/update breakpoint markers for overnight stops
   useEffect(() => {
@@ -589,6 +670,15 @@ export const Map = forwardRef<MapRef, MapProps>(function Map(
       el.className = "breakpoint-marker";
       el.textContent = "🌙";
 
+      // Name the place the night is spent at, when the stop is at one
+      if (breakpoint.stop) {
+        el.title = `${breakpoint.stop.name} (${OVERNIGHT_STOP_KINDS[breakpoint.stop.kind].label})`;
+        const label = document.createElement("span");
+        label.className = "breakpoint-marker-label";
+        label.textContent = breakpoint.stop.name;
+        el.appendChild(label);
+      }
+
       const newMarker = new mapboxgl.Marker({ element: el })
         .setLngLat([breakpoint.coordinates[0], breakpoint.coordinates[1]])
         .addTo(map.current!);
@@ -602,6 +692,98 @@ export const Map = forwardRef<MapRef, MapProps>(function Map(
     };
   }, [mapLoaded, isBuilding, breakpointCoordinates]);
 
+  // Add/update summit markers for the climbs of the shown routes
+  useEffect(() => {
+    if (!map.current || !mapLoaded) return;
+
+    summitMarkers.current.forEach((marker) => marker.remove());
+    summitMarkers.current = [];
+
+    if (isBuilding) return;
+
+    const climbs: Climb[] = [
+      ...(blendedRoute?.climbs ?? []),
+      ...routes
+        .filter((route) => visibleRoutes.has(route.id))
+        .flatMap((route) => route.climbs),
+    ];
+
+    // Routes share most climbs, so mark each summit once
+    const marked = new Set<string>();
+    climbs.forEach((climb) => {
+      const key = `${climb.summit.lng.toFixed(4)},${climb.summit.lat.toFixed(4)}`;
+      if (marked.has(key)) return;
+      marked.add(key);
+
+      const el = document.createElement("div");
+      el.className = "summit-marker";
+      el.style.backgroundColor = getClimbColor(climb.category);
+      el.textContent = climb.category;
+      el.title =
+        `${climb.category === "HC" ? "HC" : `Cat ${climb.category}`} climb: ` +
+        `${formatDistance(climb.length, 1)} at ${climb.averageGrade.toFixed(1)}%, ` +
+        `summit ${formatElevation(climb.summitElevation)}`;
+
+      const newMarker = new mapboxgl.Marker({ element: el })
+        .setLngLat([climb.summit.lng, climb.summit.lat])
+        .addTo(map.current!);
+
+      summitMarkers.current.push(newMarker);
+    });
+
+    return () => {
+      summitMarkers.current.forEach((marker) => marker.remove());
+      summitMarkers.current = [];
+    };
+  }, [
+    mapLoaded,
+    isBuilding,
+    routes,
+    visibleRoutes,
+    blendedRoute,
+    formatDistance,
+    formatElevation,
+  ]);
+
+  // Fit the map to a zoomed chart range
+  useEffect(() => {
+    if (!map.current || !mapLoaded || !fitRequest) return;
+
+    const [first, ...rest] = fitRequest.coordinates;
+    const bounds = rest.reduce(
+      (bounds, coord) => bounds.extend([coord[0], coord[1]]),
+      new mapboxgl.LngLatBounds([first[0], first[1]], [first[0], first[1]]),
+    );
+    map.current.fitBounds(bounds, {
+      padding: { top: 50, bottom: 50, left: 50, right: 50 },
+      duration: 800,
+      maxZoom: 15,
+    });
+  }, [mapLoaded, fitRequest]);
+
+  // Publish the visible area while the charts follow the map
+  useEffect(() => {
+    if (!map.current || !mapLoaded || !followMap) return;
+
+    const m = map.current;
+    const publishBounds = () => {
+      const bounds = m.getBounds();
+      if (!bounds) return;
+      setBounds([
+        bounds.getWest(),
+        bounds.getSouth(),
+        bounds.getEast(),
+        bounds.getNorth(),
+      ]);
+    };
+
+    publishBounds();
+    m.on("moveend", publishBounds);
+    return () => {
+      m.off("moveend", publishBounds);
+    };
+  }, [mapLoaded, followMap, setBounds]);
+
   // Update hover marker position
   useEffect(() => {
     if (!marker.current) return;
@@ -632,6 +814,32 @@ export const Map = forwardRef<MapRef, MapProps>(function Map(
   return (
     <div className="map-container">
       <div ref={mapContainer} className="map" />
+      <div className="map-line-controls">
+        <button
+          className={`map-line-toggle ${lineColorMode === "gradient" ? "active" : ""}`}
+          onClick={() =>
+            setLineColorMode((mode) =>
+              mode === "gradient" ? "route" : "gradient",
+            )
+          }
+          aria-pressed={lineColorMode === "gradient"}
+        >
+          Color by gradient
+        </button>
+        {lineColorMode === "gradient" && (
+          <div className="gradient-legend">
+            {GRADE_BANDS.map((band) => (
+              <span key={band.label} className="gradient-legend-item">
+                <span
+                  className="gradient-legend-swatch"
+                  style={{ backgroundColor: band.color }}
+                />
+                {band.label}
+              </span>
+            ))}
+          </div>
+        )}
+      </div>
     </div>
   );
 });
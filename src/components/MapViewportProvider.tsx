@@ -0,0 +1,33 @@
+import { useState, useCallback, type ReactNode } from "react";
+import type { Position } from "geojson";
+import { MapViewportContext, type FitRequest } from "../hooks/useMapViewport";
+import type { MapBounds } from "../utils/chartZoom";
+
+export function MapViewportProvider({ children }: { children: ReactNode }) {
+  const [bounds, setBounds] = useState<MapBounds | null>(null);
+  const [followMap, setFollowMap] = useState(false);
+  const [fitRequest, setFitRequest] = useState<FitRequest | null>(null);
+
+  const fitMap = useCallback((coordinates: Position[]) => {
+    if (coordinates.length === 0) return;
+    setFitRequest((previous) => ({
+      id: (previous?.id ?? 0) + 1,
+      coordinates,
+    }));
+  }, []);
+
+  return (
+    <MapViewportContext.Provider
+      value={{
+        bounds,
+        setBounds,
+        followMap,
+        setFollowMap,
+        fitRequest,
+        fitMap,
+      }}
+    >
+      {children}
+    </MapViewportContext.Provider>
+  );
+}
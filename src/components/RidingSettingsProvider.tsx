@@ -0,0 +1,39 @@
+import { useState, useCallback, useMemo, type ReactNode } from 'react';
+import { RidingSettingsContext } from '../hooks/useRidingSettings';
+import {
+  DEFAULT_FITNESS_LEVEL,
+  FITNESS_LEVELS,
+  type FitnessLevel,
+  type RidingSettings,
+} from '../utils/ridingTime';
+
+export function RidingSettingsProvider({ children }: { children: ReactNode }) {
+  const [fitnessLevel, setFitnessLevelState] = useState<FitnessLevel | null>(
+    DEFAULT_FITNESS_LEVEL
+  );
+  const [ridingSettings, setRidingSettings] = useState<RidingSettings>(
+    FITNESS_LEVELS[DEFAULT_FITNESS_LEVEL].settings
+  );
+
+  const setFitnessLevel = useCallback((level: FitnessLevel) => {
+    setFitnessLevelState(level);
+    setRidingSettings(FITNESS_LEVELS[level].settings);
+  }, []);
+
+  // Editing a setting starts custom settings from the current ones
+  const updateRidingSettings = useCallback((changes: Partial<RidingSettings>) => {
+    setFitnessLevelState(null);
+    setRidingSettings((prev) => ({ ...prev, ...changes }));
+  }, []);
+
+  const value = useMemo(
+    () => ({ fitnessLevel, setFitnessLevel, ridingSettings, updateRidingSettings }),
+    [fitnessLevel, setFitnessLevel, ridingSettings, updateRidingSettings]
+  );
+
+  return (
+    <RidingSettingsContext.Provider value={value}>
+      {children}
+    </RidingSettingsContext.Provider>
+  );
+}
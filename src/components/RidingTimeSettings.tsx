@@ -0,0 +1,149 @@
+import { useRidingSettings } from "../hooks/useRidingSettings";
+import { useUnits } from "../hooks/useUnits";
+import {
+  kmToMiles,
+  metersToFeet,
+  milesToKm,
+  feetToMeters,
+} from "../utils/units";
+import {
+  FITNESS_LEVELS,
+  type FitnessLevel,
+  type RidingSettings,
+} from "../utils/ridingTime";
+import { SURFACE_ORDER, SURFACE_TYPES } from "../utils/surface";
+
+/**
+ * Number input for one riding setting, shown in the current units
+ */
+function SettingInput({
+  label,
+  unit,
+  value,
+  min,
+  onChange,
+}: {
+  label: string;
+  unit: string;
+  value: number;
+  min: number;
+  onChange: (value: number) => void;
+}) {
+  return (
+    <label className="riding-setting">
+      <span className="info-label">{label}</span>
+      <span className="riding-setting-input">
+        <input
+          type="number"
+          min={min}
+          value={Math.round(value)}
+          onChange={(e) => {
+            const next = parseFloat(e.target.value);
+            if (Number.isFinite(next) && next >= min) onChange(next);
+          }}
+        />
+        <span className="riding-setting-unit">{unit}</span>
+      </span>
+    </label>
+  );
+}
+
+/**
+ * Fitness presets and the speeds behind the riding time estimates
+ */
+export function RidingTimeSettings() {
+  const {
+    fitnessLevel,
+    setFitnessLevel,
+    ridingSettings,
+    updateRidingSettings,
+  } = useRidingSettings();
+  const { units, distanceUnit, elevationUnit } = useUnits();
+  const imperial = units === "imperial";
+
+  const toSpeed = (kmh: number) => (imperial ? kmToMiles(kmh) : kmh);
+  const fromSpeed = (value: number) => (imperial ? milesToKm(value) : value);
+
+  const updateFlatSpeed = (
+    surface: keyof RidingSettings["flatSpeeds"],
+    value: number,
+  ) =>
+    updateRidingSettings({
+      flatSpeeds: { ...ridingSettings.flatSpeeds, [surface]: fromSpeed(value) },
+    });
+
+  return (
+    <div className="riding-settings">
+      <h3>
+        Riding Time
+        <select
+          className="climbing-selector"
+          value={fitnessLevel ?? "custom"}
+          onChange={(e) => setFitnessLevel(e.target.value as FitnessLevel)}
+          aria-label="Fitness level"
+        >
+          {(Object.keys(FITNESS_LEVELS) as FitnessLevel[]).map((level) => (
+            <option key={level} value={level}>
+              {FITNESS_LEVELS[level].label}
+            </option>
+          ))}
+          {fitnessLevel === null && (
+            <option value="custom" disabled>
+              Custom
+            </option>
+          )}
+        </select>
+      </h3>
+      <p className="riding-settings-description">
+        {fitnessLevel
+          ? FITNESS_LEVELS[fitnessLevel].description
+          : "Custom speeds"}
+      </p>
+      <div className="riding-settings-grid">
+        {SURFACE_ORDER.map((surface) => (
+          <SettingInput
+            key={surface}
+            label={`${SURFACE_TYPES[surface].label} speed`}
+            unit={`${distanceUnit}/h`}
+            value={toSpeed(ridingSettings.flatSpeeds[surface])}
+            min={1}
+            onChange={(value) => updateFlatSpeed(surface, value)}
+          />
+        ))}
+        <SettingInput
+          label="Climbing rate"
+          unit={`${elevationUnit}/h`}
+          value={
+            imperial
+              ? metersToFeet(ridingSettings.climbingRate)
+              : ridingSettings.climbingRate
+          }
+          min={1}
+          onChange={(value) =>
+            updateRidingSettings({
+              climbingRate: imperial ? feetToMeters(value) : value,
+            })
+          }
+        />
+        <SettingInput
+          label="Max descent speed"
+          unit={`${distanceUnit}/h`}
+          value={toSpeed(ridingSettings.maxDescentSpeed)}
+          min={1}
+          onChange={(value) =>
+            updateRidingSettings({ maxDescentSpeed: fromSpeed(value) })
+          }
+        />
+        <SettingInput
+          label="Stops"
+          unit="min/h"
+          value={ridingSettings.stopMinutesPerHour}
+          min={0}
+          onChange={(value) =>
+            updateRidingSettings({ stopMinutesPerHour: value })
+          }
+        />
+      </div>
+    </div>
+  );
+}
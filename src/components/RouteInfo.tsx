@@ -2,19 +2,83 @@ import { useMemo, useState, useCallback } from "react";
 import type { RouteData } from "../types/route";
 import { useUnits } from "../hooks/useUnits";
 import { useBlendedRoute } from "../hooks/useBlendedRoute";
-import { ROUTE_CONFIG } from "../hooks/useRouteData";
-import type { BlendedRoute } from "../types/segments";
+import { useRidingSettings } from "../hooks/useRidingSettings";
+import { ROUTE_CONFIG, getVariantConfig } from "../hooks/useRouteData";
+import type { RouteOverlap } from "../hooks/useUploadedRoutes";
+import type { BlendedRoute, DaySplit } from "../types/segments";
+import { SurfaceBreakdownBar } from "./SurfaceBar";
+import { calculateSurfaceBreakdown } from "../utils/surface";
+import { formatDuration, withStops } from "../utils/ridingTime";
+import { formatTripDate, NON_RIDING_DAYS } from "../utils/daySplitCalculations";
 
 interface RouteInfoProps {
   routes: RouteData[];
-  visibleRoutes: Set<"gravel" | "tarmac">;
+  visibleRoutes: Set<string>;
+  overlaps: Record<string, RouteOverlap[]>; // uploaded route id -> per variant
+  analysisProgress: Record<string, number>; // uploaded routes still being analyzed, 0-1
+  onRemoveRoute: (routeId: string) => void;
 }
 
 /**
- * Generate GPX file content from blended route coordinates
+ * Escape text for an XML element
  */
-function generateGpx(blendedRoute: BlendedRoute): string {
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+}
+
+/**
+ * GPX waypoints for the overnight stops, at the end of every riding day
+ * but the last, listing the days off spent there
+ */
+function generateDayWaypoints(
+  blendedRoute: BlendedRoute,
+  daySplits: DaySplit[],
+): string {
+  const lastRidingDay = daySplits[daySplits.length - 1]?.ridingDayNumber;
+
+  return daySplits
+    .filter((day) => !day.nonRiding && day.ridingDayNumber !== lastRidingDay)
+    .map((day) => {
+      const [lng, lat, ele] = blendedRoute.coordinates[day.endCoordIndex];
+      const name = `End of day ${day.dayNumber}${day.endStop ? `: ${day.endStop.name}` : ""}`;
+      const description = [
+        day.date && formatTripDate(day.date),
+        ...daySplits.flatMap((other) =>
+          other.nonRiding && other.ridingDayNumber === day.ridingDayNumber
+            ? [
+                `Day ${other.dayNumber}: ${NON_RIDING_DAYS[other.nonRiding].label}`,
+              ]
+            : [],
+        ),
+      ]
+        .filter(Boolean)
+        .join(", ");
+
+      return [
+        `  <wpt lat="${lat}" lon="${lng}">`,
+        `    <ele>${ele.toFixed(1)}</ele>`,
+        `    <name>${escapeXml(name)}</name>`,
+        ...(description ? [`    <desc>${escapeXml(description)}</desc>`] : []),
+        `    <type>Overnight</type>`,
+        `  </wpt>`,
+      ].join("\n");
+    })
+    .join("\n");
+}
+
+/**
+ * Generate GPX file content from blended route coordinates, with a
+ * waypoint for each overnight stop
+ */
+function generateGpx(
+  blendedRoute: BlendedRoute,
+  daySplits: DaySplit[],
+): string {
   const timestamp = new Date().toISOString();
+  const waypoints = generateDayWaypoints(blendedRoute, daySplits);
   const points = blendedRoute.coordinates
     .map(
       ([lng, lat, ele]) =>
@@ -31,7 +95,7 @@ function generateGpx(blendedRoute: BlendedRoute): string {
     <name>GranGarda Custom Route</name>
     <time>${timestamp}</time>
   </metadata>
-  <trk>
+${waypoints ? `${waypoints}\n` : ""}  <trk>
     <name>GranGarda Custom Route</name>
     <trkseg>
 ${points}
@@ -40,12 +104,102 @@ ${points}
 </gpx>`;
 }
 
-export function RouteInfo({ routes, visibleRoutes }: RouteInfoProps) {
+/**
+ * Overlap of an uploaded route with the official variants
+ */
+function RouteOverlapInfo({
+  route,
+  overlaps,
+  progress,
+  onRemove,
+}: {
+  route: RouteData;
+  overlaps: RouteOverlap[] | undefined;
+  progress: number | undefined; // 0-1 while the analysis runs
+  onRemove: () => void;
+}) {
+  const { formatDistance } = useUnits();
+
+  return (
+    <div className="route-overlap">
+      {progress !== undefined ? (
+        <div className="route-overlap-pending">
+          <span>
+            Comparing with the official routes... {Math.round(progress * 100)}%
+          </span>
+          <div className="progress-bar">
+            <div
+              className="progress-fill"
+              style={{ width: `${progress * 100}%` }}
+            />
+          </div>
+        </div>
+      ) : (
+        overlaps?.map((overlap) => {
+          const sharedPercent =
+            route.stats.distance > 0
+              ? Math.round((overlap.sharedKm / route.stats.distance) * 100)
+              : 0;
+          return (
+            <div key={overlap.variantId} className="route-overlap-row">
+              <span className="info-label">
+                vs{" "}
+                {getVariantConfig(overlap.variantId)?.shortName ??
+                  overlap.variantId}
+              </span>
+              <span className="route-overlap-value">
+                {`${formatDistance(overlap.sharedKm, 1)} shared (${sharedPercent}%)`}
+                {`, ${overlap.divergingSegments} diverging`}
+                {overlap.divergingSegments === 1 ? " section" : " sections"}
+              </span>
+            </div>
+          );
+        })
+      )}
+      <button className="action-button remove-route-button" onClick={onRemove}>
+        Remove
+      </button>
+    </div>
+  );
+}
+
+export function RouteInfo({
+  routes,
+  visibleRoutes,
+  overlaps,
+  analysisProgress,
+  onRemoveRoute,
+}: RouteInfoProps) {
   const { formatDistance, formatElevation, formatElevationChange } = useUnits();
-  const { blendedRoute, isBuilding, selections, divergingSegments } =
-    useBlendedRoute();
+  const {
+    blendedRoute,
+    isBuilding,
+    selections,
+    divergingSegments,
+    ridingTimes,
+    daySplits,
+  } = useBlendedRoute();
+  const { ridingSettings } = useRidingSettings();
   const [copySuccess, setCopySuccess] = useState(false);
   const visibleRoutesList = routes.filter((r) => visibleRoutes.has(r.id));
+  const blendedMovingTime = ridingTimes[ridingTimes.length - 1];
+
+  // Estimated moving time and the total with stops
+  const renderRidingTime = (movingTime: number | undefined) =>
+    movingTime !== undefined && (
+      <>
+        <div className="info-item">
+          <span className="info-label">Moving Time</span>
+          <span className="info-value">{formatDuration(movingTime)}</span>
+        </div>
+        <div className="info-item">
+          <span className="info-label">With Stops</span>
+          <span className="info-value">
+            {formatDuration(withStops(movingTime, ridingSettings))}
+          </span>
+        </div>
+      </>
+    );
 
   // Calculate min/max elevation for blended route
   const blendedElevationStats = useMemo(() => {
@@ -57,6 +211,30 @@ export function RouteInfo({ routes, visibleRoutes }: RouteInfoProps) {
     };
   }, [blendedRoute]);
 
+  const blendedSurfaces = useMemo(() => {
+    if (!blendedRoute?.surfaces) return null;
+    return calculateSurfaceBreakdown(
+      blendedRoute.surfaces,
+      blendedRoute.distances,
+    );
+  }, [blendedRoute]);
+
+  const routeSurfaces = useMemo(
+    () =>
+      Object.fromEntries(
+        routes
+          .filter((route) => route.surfaces)
+          .map((route) => [
+            route.id,
+            calculateSurfaceBreakdown(
+              route.surfaces!,
+              route.elevationProfile.map((p) => p.distance),
+            ),
+          ]),
+      ),
+    [routes],
+  );
+
   const handleCopyLink = useCallback(async () => {
     try {
       await navigator.clipboard.writeText(window.location.href);
@@ -70,7 +248,7 @@ export function RouteInfo({ routes, visibleRoutes }: RouteInfoProps) {
   const handleDownloadGpx = useCallback(() => {
     if (!blendedRoute) return;
 
-    const gpxContent = generateGpx(blendedRoute);
+    const gpxContent = generateGpx(blendedRoute, daySplits);
     const blob = new Blob([gpxContent], { type: "application/gpx+xml" });
     const url = URL.createObjectURL(blob);
 
@@ -81,7 +259,7 @@ export function RouteInfo({ routes, visibleRoutes }: RouteInfoProps) {
     link.click();
     document.body.removeChild(link);
     URL.revokeObjectURL(url);
-  }, [blendedRoute]);
+  }, [blendedRoute, daySplits]);
 
   // Show blended route when not in building mode and we have a complete one
   const showBlendedRoute = !isBuilding && blendedRoute !== null;
@@ -127,7 +305,11 @@ export function RouteInfo({ routes, visibleRoutes }: RouteInfoProps) {
                 {formatElevation(blendedElevationStats.min)}
               </span>
             </div>
+            {renderRidingTime(blendedMovingTime)}
           </div>
+          {blendedSurfaces && (
+            <SurfaceBreakdownBar breakdown={blendedSurfaces} showLabels />
+          )}
           <div className="blended-route-actions">
             <button
               className="action-button copy-link-button"
@@ -150,8 +332,8 @@ export function RouteInfo({ routes, visibleRoutes }: RouteInfoProps) {
         <div className="building-progress-card">
           <h3>Building Custom Route</h3>
           <p>
-            Click on diverging segments on the map to choose between gravel and
-            tarmac.
+            Click on diverging segments on the map to choose between the route
+            variants.
           </p>
           <div className="progress-info">
             <span className="progress-count">
@@ -169,14 +351,19 @@ export function RouteInfo({ routes, visibleRoutes }: RouteInfoProps) {
         </div>
       )}
 
-      {/* Original route cards */}
+      {/* Original and uploaded route cards */}
       {visibleRoutesList.map((route) => (
         <div
           key={route.id}
           className="route-info-card"
           style={{ borderColor: route.color }}
         >
-          <h3 style={{ color: route.color }}>{route.name}</h3>
+          <h3 style={{ color: route.color }}>
+            {route.name}
+            {!getVariantConfig(route.id) && (
+              <span className="uploaded-badge">Uploaded</span>
+            )}
+          </h3>
           <div className="info-grid">
             <div className="info-item">
               <span className="info-label">Distance</span>
@@ -202,7 +389,22 @@ export function RouteInfo({ routes, visibleRoutes }: RouteInfoProps) {
                 {formatElevation(route.stats.minElevation)}
               </span>
             </div>
+            {renderRidingTime(route.stats.movingTime)}
           </div>
+          {routeSurfaces[route.id] && (
+            <SurfaceBreakdownBar
+              breakdown={routeSurfaces[route.id]}
+              showLabels
+            />
+          )}
+          {!getVariantConfig(route.id) && (
+            <RouteOverlapInfo
+              route={route}
+              overlaps={overlaps[route.id]}
+              progress={analysisProgress[route.id]}
+              onRemove={() => onRemoveRoute(route.id)}
+            />
+          )}
         </div>
       ))}
     </div>
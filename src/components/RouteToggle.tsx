@@ -3,8 +3,8 @@ import { useUnits } from '../hooks/useUnits';
 
 interface RouteToggleProps {
   routes: RouteData[];
-  visibleRoutes: Set<'gravel' | 'tarmac'>;
-  onToggle: (routeId: 'gravel' | 'tarmac') => void;
+  visibleRoutes: Set<string>;
+  onToggle: (routeId: string) => void;
 }
 
 export function RouteToggle({ routes, visibleRoutes, onToggle }: RouteToggleProps) {
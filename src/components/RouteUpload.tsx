@@ -0,0 +1,75 @@
+import { useState, useRef, useCallback } from "react";
+import { ROUTE_FILE_ACCEPT, ROUTE_PARSERS } from "../utils/parsers";
+
+interface RouteUploadProps {
+  onFiles: (files: File[]) => void;
+  error: string | null; // files that couldn't be read
+  analysisError: string | null; // routes that couldn't be compared
+}
+
+const FORMAT_LABELS = ROUTE_PARSERS.map((p) => p.label).join(", ");
+
+/**
+ * Drop zone and file picker for comparing your own route files with the
+ * official variants
+ */
+export function RouteUpload({
+  onFiles,
+  error,
+  analysisError,
+}: RouteUploadProps) {
+  const [isDragging, setIsDragging] = useState(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const handleDrop = useCallback(
+    (e: React.DragEvent) => {
+      e.preventDefault();
+      setIsDragging(false);
+      const files = Array.from(e.dataTransfer.files);
+      if (files.length > 0) onFiles(files);
+    },
+    [onFiles],
+  );
+
+  const handleChange = useCallback(
+    (e: React.ChangeEvent<HTMLInputElement>) => {
+      const files = Array.from(e.target.files ?? []);
+      if (files.length > 0) onFiles(files);
+      // Allow picking the same file again after removing it
+      e.target.value = "";
+    },
+    [onFiles],
+  );
+
+  return (
+    <div className="route-upload">
+      <div
+        className={`upload-drop-zone ${isDragging ? "dragging" : ""}`}
+        onDragOver={(e) => {
+          e.preventDefault();
+          setIsDragging(true);
+        }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={handleDrop}
+      >
+        <span>Compare your own route: drop a {FORMAT_LABELS} file here or</span>
+        <button
+          className="upload-browse-button"
+          onClick={() => inputRef.current?.click()}
+        >
+          Browse...
+        </button>
+        <input
+          ref={inputRef}
+          type="file"
+          accept={ROUTE_FILE_ACCEPT}
+          multiple
+          hidden
+          onChange={handleChange}
+        />
+      </div>
+      {error && <p className="upload-error">{error}</p>}
+      {analysisError && <p className="upload-error">{analysisError}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,231 @@
+import { useCallback, useMemo, useState } from "react";
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  Tooltip,
+  ResponsiveContainer,
+} from "recharts";
+import { useBlendedRoute } from "../hooks/useBlendedRoute";
+import { useHoverSync } from "../hooks/useHoverSync";
+import { useUnits } from "../hooks/useUnits";
+import { kmToMiles, metersToFeet } from "../utils/units";
+import { getVariantColor, getVariantConfig } from "../hooks/useRouteData";
+import {
+  buildSegmentComparison,
+  type ComparisonRow,
+  type ComparisonScale,
+} from "../utils/segmentComparison";
+
+interface ChartDataPoint {
+  x: number; // display distance, or percent of the length
+  elevations: Record<string, number>; // variant id -> display elevation
+  row: ComparisonRow;
+}
+
+/**
+ * Overlaid elevation profiles of the variants of the segment focused in
+ * build mode, aligned at the segment start
+ */
+export function SegmentComparisonChart() {
+  const {
+    segments,
+    divergingSegments,
+    tracks,
+    gaps,
+    selections,
+    selectedSegmentId,
+  } = useBlendedRoute();
+  const { setHover, clearHover } = useHoverSync();
+  const {
+    units,
+    formatDistance,
+    formatElevationChange,
+    distanceUnit,
+    elevationUnit,
+  } = useUnits();
+  const [scale, setScale] = useState<ComparisonScale>("absolute");
+
+  const segment = segments.find(
+    (s) => s.id === selectedSegmentId && s.type === "diverging",
+  );
+
+  const comparison = useMemo(
+    () =>
+      segment ? buildSegmentComparison(segment, tracks, gaps, scale) : null,
+    [segment, tracks, gaps, scale],
+  );
+
+  const chartData = useMemo<ChartDataPoint[]>(() => {
+    if (!comparison) return [];
+    return comparison.rows.map((row) => {
+      const point: ChartDataPoint = {
+        x:
+          scale === "absolute" && units === "imperial"
+            ? kmToMiles(row.x)
+            : row.x,
+        elevations: {},
+        row,
+      };
+      comparison.variantIds.forEach((id) => {
+        const elevation = row.points[id]?.elevation;
+        if (elevation === undefined) return;
+        point.elevations[id] =
+          units === "imperial"
+            ? metersToFeet(elevation)
+            : Math.round(elevation);
+      });
+      return point;
+    });
+  }, [comparison, scale, units]);
+
+  // Show the hovered position on the map, on the chosen variant if any
+  const handleMouseMove = useCallback(
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    (state: any) => {
+      if (!segment || !comparison) return;
+      const data = chartData[state?.activeTooltipIndex];
+      if (!data) return;
+
+      const chosen = selections.get(segment.id);
+      const variantId =
+        chosen && data.row.points[chosen]
+          ? chosen
+          : comparison.variantIds.find((id) => data.row.points[id]);
+      if (variantId) {
+        setHover(variantId, data.row.points[variantId], "chart");
+      }
+    },
+    [segment, comparison, chartData, selections, setHover],
+  );
+
+  if (!segment || !comparison) {
+    return (
+      <div className="segment-comparison segment-comparison-empty">
+        Select a segment to compare its options
+      </div>
+    );
+  }
+
+  const segmentNumber =
+    divergingSegments.findIndex((s) => s.id === segment.id) + 1;
+
+  const formatX = (value: number) =>
+    scale === "normalized"
+      ? `${Math.round(value)}%`
+      : `${value.toFixed(1)} ${distanceUnit}`;
+
+  const renderTooltip = ({
+    active,
+    payload,
+  }: {
+    active?: boolean;
+    payload?: ReadonlyArray<{ payload: ChartDataPoint }>;
+  }) => {
+    if (!active || !payload || !payload[0]) return null;
+    const data = payload[0].payload;
+
+    return (
+      <div className="chart-tooltip">
+        <div className="tooltip-row">
+          <span className="tooltip-label">
+            {scale === "normalized" ? "Progress:" : "Distance:"}
+          </span>
+          <span className="tooltip-value">{formatX(data.x)}</span>
+        </div>
+        {comparison.variantIds.map((id) =>
+          data.elevations[id] === undefined ? null : (
+            <div key={id} className="tooltip-row">
+              <span className="tooltip-label">
+                {getVariantConfig(id)?.shortName ?? id}:
+              </span>
+              <span
+                className="tooltip-value"
+                style={{ color: getVariantColor(id) }}
+              >
+                {data.elevations[id].toLocaleString()} {elevationUnit}
+              </span>
+            </div>
+          ),
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="segment-comparison">
+      <div className="chart-header">
+        <div className="chart-title">Segment {segmentNumber} options</div>
+        <div className="comparison-scale">
+          {(["absolute", "normalized"] as const).map((option) => (
+            <button
+              key={option}
+              className={`comparison-scale-button ${scale === option ? "active" : ""}`}
+              onClick={() => setScale(option)}
+            >
+              {option === "absolute" ? "Distance" : "% of length"}
+            </button>
+          ))}
+        </div>
+      </div>
+      <div className="comparison-legend">
+        {comparison.variantIds.map((id) => (
+          <span key={id} className="comparison-legend-item">
+            <span
+              className="detail-dot"
+              style={{ backgroundColor: getVariantColor(id) }}
+            />
+            {getVariantConfig(id)?.shortName ?? id}
+            <span className="comparison-legend-stats">
+              {formatDistance(comparison.lengths[id], 1)},{" "}
+              {formatElevationChange(segment.variants[id].elevationGain)}
+            </span>
+          </span>
+        ))}
+      </div>
+      <ResponsiveContainer width="100%" height={180}>
+        <LineChart
+          data={chartData}
+          margin={{ top: 5, right: 20, left: 0, bottom: 5 }}
+          onMouseMove={handleMouseMove}
+          onMouseLeave={clearHover}
+        >
+          <XAxis
+            dataKey="x"
+            type="number"
+            domain={[0, "dataMax"]}
+            tick={{ fill: "#8892a0", fontSize: 11 }}
+            tickLine={{ stroke: "#8892a0" }}
+            axisLine={{ stroke: "#3d4555" }}
+            tickFormatter={formatX}
+          />
+          <YAxis
+            domain={["auto", "auto"]}
+            tick={{ fill: "#8892a0", fontSize: 11 }}
+            tickLine={{ stroke: "#8892a0" }}
+            axisLine={{ stroke: "#3d4555" }}
+            tickFormatter={(value) => `${value.toLocaleString()}`}
+            width={55}
+          />
+          <Tooltip
+            content={renderTooltip}
+            cursor={{ stroke: "#8892a0", strokeWidth: 1 }}
+          />
+          {comparison.variantIds.map((id) => (
+            <Line
+              key={id}
+              type="monotone"
+              dataKey={(d: ChartDataPoint) => d.elevations[id]}
+              stroke={getVariantColor(id)}
+              strokeWidth={selections.get(segment.id) === id ? 3 : 2}
+              dot={false}
+              connectNulls={false}
+              isAnimationActive={false}
+            />
+          ))}
+        </LineChart>
+      </ResponsiveContainer>
+    </div>
+  );
+}
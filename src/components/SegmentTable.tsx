@@ -1,8 +1,22 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
 import { useBlendedRoute } from "../hooks/useBlendedRoute";
 import { useUnits } from "../hooks/useUnits";
-import { ROUTE_CONFIG } from "../hooks/useRouteData";
+import { getVariantConfig, getVariantColor } from "../hooks/useRouteData";
+import { getSegmentVariantIds } from "../utils/segments";
+import { formatDuration } from "../utils/ridingTime";
+import {
+  getSegmentCoordinates,
+  getSegmentDistances,
+} from "../utils/segmentGeometry";
+import {
+  SURFACE_TYPES,
+  calculateSurfaceBreakdown,
+  getSegmentSurfaces,
+  getSurfaceShares,
+} from "../utils/surface";
 import type { Segment, RouteChoice } from "../types/segments";
+import type { SurfaceBreakdown } from "../types/route";
+import { SurfaceBreakdownBar } from "./SurfaceBar";
 
 interface SegmentTableProps {
   onSegmentFocus: (segment: Segment) => void;
@@ -15,6 +29,9 @@ export function SegmentTable({ onSegmentFocus }: SegmentTableProps) {
     selectSegment,
     selectedSegmentId,
     setSelectedSegment,
+    tracks,
+    gaps,
+    surfaces,
   } = useBlendedRoute();
   const { formatDistance, formatElevation } = useUnits();
   const [hoveredRowId, setHoveredRowId] = useState<string | null>(null);
@@ -24,6 +41,39 @@ export function SegmentTable({ onSegmentFocus }: SegmentTableProps) {
     setIsTouchDevice("ontouchstart" in window || navigator.maxTouchPoints > 0);
   }, []);
 
+  // One column per variant offered by any diverging segment
+  const variantIds = useMemo(() => {
+    const ids: string[] = [];
+    divergingSegments.forEach((segment) => {
+      getSegmentVariantIds(segment).forEach((id) => {
+        if (!ids.includes(id)) ids.push(id);
+      });
+    });
+    return ids;
+  }, [divergingSegments]);
+
+  // Surface breakdown per segment and variant, for variants with surfaces
+  const segmentSurfaces = useMemo(() => {
+    const result: Record<string, Record<string, SurfaceBreakdown>> = {};
+    divergingSegments.forEach((segment) => {
+      result[segment.id] = {};
+      Object.entries(segment.variants).forEach(([variantId, stats]) => {
+        const track = tracks[variantId];
+        const trackSurfaces = surfaces[variantId];
+        if (!track || !trackSurfaces) return;
+        result[segment.id][variantId] = calculateSurfaceBreakdown(
+          getSegmentSurfaces(stats, trackSurfaces),
+          getSegmentDistances(
+            stats,
+            getSegmentCoordinates(stats, track),
+            gaps[variantId],
+          ),
+        );
+      });
+    });
+    return result;
+  }, [divergingSegments, tracks, gaps, surfaces]);
+
   const handleRowClick = (segment: Segment) => {
     setSelectedSegment(segment.id);
     onSegmentFocus(segment);
@@ -41,7 +91,9 @@ export function SegmentTable({ onSegmentFocus }: SegmentTableProps) {
   const handleFeelingLucky = () => {
     divergingSegments.forEach((segment) => {
       if (!selections.has(segment.id)) {
-        const choice: RouteChoice = Math.random() < 0.5 ? "gravel" : "tarmac";
+        const options = getSegmentVariantIds(segment);
+        const choice: RouteChoice =
+          options[Math.floor(Math.random() * options.length)];
         selectSegment(segment.id, choice);
       }
     });
@@ -73,8 +125,11 @@ export function SegmentTable({ onSegmentFocus }: SegmentTableProps) {
           <thead>
             <tr>
               <th className="col-segment">#</th>
-              <th className="col-gravel">Gravel</th>
-              <th className="col-tarmac">Tarmac</th>
+              {variantIds.map((variantId) => (
+                <th key={variantId} className="col-variant">
+                  {getVariantConfig(variantId)?.shortName ?? variantId}
+                </th>
+              ))}
             </tr>
           </thead>
           <tbody>
@@ -98,47 +153,59 @@ export function SegmentTable({ onSegmentFocus }: SegmentTableProps) {
                     </span>
                   </td>
 
-                  <td className="col-gravel">
-                    <button
-                      className={`choice-button ${currentChoice === "gravel" ? "selected" : ""}`}
-                      onClick={(e) =>
-                        handleChoiceClick(e, segment.id, "gravel")
-                      }
-                      style={
-                        {
-                          "--choice-color": ROUTE_CONFIG.gravel.color,
-                        } as React.CSSProperties
-                      }
-                    >
-                      <span className="choice-distance">
-                        {formatDistance(segment.gravel.distanceKm)}
-                      </span>
-                      <span className="choice-elevation">
-                        {formatElevation(segment.gravel.elevationGain)}
-                      </span>
-                    </button>
-                  </td>
-
-                  <td className="col-tarmac">
-                    <button
-                      className={`choice-button ${currentChoice === "tarmac" ? "selected" : ""}`}
-                      onClick={(e) =>
-                        handleChoiceClick(e, segment.id, "tarmac")
-                      }
-                      style={
-                        {
-                          "--choice-color": ROUTE_CONFIG.tarmac.color,
-                        } as React.CSSProperties
-                      }
-                    >
-                      <span className="choice-distance">
-                        {formatDistance(segment.tarmac.distanceKm)}
-                      </span>
-                      <span className="choice-elevation">
-                        {formatElevation(segment.tarmac.elevationGain)}
-                      </span>
-                    </button>
-                  </td>
+                  {variantIds.map((variantId) => {
+                    const stats = segment.variants[variantId];
+                    const surfaceBreakdown =
+                      segmentSurfaces[segment.id]?.[variantId];
+                    // Largest share, shown next to the bar
+                    const mainSurface =
+                      surfaceBreakdown &&
+                      getSurfaceShares(surfaceBreakdown).sort(
+                        (a, b) => b.fraction - a.fraction,
+                      )[0];
+                    return (
+                      <td key={variantId} className="col-variant">
+                        {stats && (
+                          <button
+                            className={`choice-button ${currentChoice === variantId ? "selected" : ""}`}
+                            onClick={(e) =>
+                              handleChoiceClick(e, segment.id, variantId)
+                            }
+                            style={
+                              {
+                                "--choice-color": getVariantColor(variantId),
+                              } as React.CSSProperties
+                            }
+                          >
+                            <span className="choice-distance">
+                              {formatDistance(stats.distanceKm)}
+                            </span>
+                            <span className="choice-elevation">
+                              {formatElevation(stats.elevationGain)}
+                            </span>
+                            {stats.movingTime !== undefined && (
+                              <span className="choice-time">
+                                {formatDuration(stats.movingTime)}
+                              </span>
+                            )}
+                            {surfaceBreakdown && (
+                              <SurfaceBreakdownBar
+                                breakdown={surfaceBreakdown}
+                              />
+                            )}
+                            {mainSurface && (
+                              <span className="choice-surface">
+                                {Math.round(mainSurface.fraction * 100)}%{" "}
+                                {SURFACE_TYPES[
+                                  mainSurface.surface
+                                ].label.toLowerCase()}
+                              </span>
+                            )}
+                          </button>
+                        )}
+                      </td>
+                    );
+                  })}
                 </tr>
               );
             })}
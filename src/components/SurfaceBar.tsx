@@ -0,0 +1,94 @@
+import type { SurfaceBreakdown, SurfaceType } from "../types/route";
+import { useUnits } from "../hooks/useUnits";
+import { SURFACE_TYPES, getSurfaceShares } from "../utils/surface";
+
+interface SurfaceBreakdownBarProps {
+  breakdown: SurfaceBreakdown;
+  showLabels?: boolean; // percentages under the bar
+}
+
+/**
+ * Stacked bar of the share of distance on each surface
+ */
+export function SurfaceBreakdownBar({
+  breakdown,
+  showLabels = false,
+}: SurfaceBreakdownBarProps) {
+  const { formatDistance } = useUnits();
+  const shares = getSurfaceShares(breakdown);
+  if (shares.length === 0) return null;
+
+  return (
+    <div className="surface-breakdown">
+      <div className="surface-bar">
+        {shares.map(({ surface, km, fraction }) => (
+          <div
+            key={surface}
+            className="surface-bar-part"
+            style={{
+              width: `${fraction * 100}%`,
+              backgroundColor: SURFACE_TYPES[surface].color,
+            }}
+            title={`${SURFACE_TYPES[surface].label}: ${formatDistance(km, 1)} (${Math.round(fraction * 100)}%)`}
+          />
+        ))}
+      </div>
+      {showLabels && (
+        <div className="surface-mix">
+          {shares.map(({ surface, fraction }) => (
+            <span key={surface} className="surface-mix-item">
+              <span
+                className="surface-swatch"
+                style={{ backgroundColor: SURFACE_TYPES[surface].color }}
+              />
+              {SURFACE_TYPES[surface].label} {Math.round(fraction * 100)}%
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface SurfaceBandProps {
+  surfaces: (SurfaceType | undefined)[]; // one per chart data point
+}
+
+/**
+ * Colored band of surfaces along an elevation chart, aligned with its
+ * plot area. Chart points are evenly spaced, so runs are placed by index.
+ */
+export function SurfaceBand({ surfaces }: SurfaceBandProps) {
+  if (surfaces.length < 2 || surfaces.every((s) => s === undefined)) {
+    return null;
+  }
+
+  const last = surfaces.length - 1;
+  const runs: { surface: SurfaceType; start: number; end: number }[] = [];
+  surfaces.forEach((surface = "unknown", i) => {
+    if (i === last) return;
+    const run = runs[runs.length - 1];
+    if (run && run.surface === surface) {
+      run.end = i + 1;
+    } else {
+      runs.push({ surface, start: i, end: i + 1 });
+    }
+  });
+
+  return (
+    <div className="surface-band">
+      {runs.map(({ surface, start, end }) => (
+        <div
+          key={start}
+          className="surface-band-part"
+          style={{
+            left: `${(start / last) * 100}%`,
+            width: `${((end - start) / last) * 100}%`,
+            backgroundColor: SURFACE_TYPES[surface].color,
+          }}
+          title={SURFACE_TYPES[surface].label}
+        />
+      ))}
+    </div>
+  );
+}
@@ -12,13 +12,36 @@ import type {
   Segment,
   RouteChoice,
   BlendedRoute,
+  BlendedRouteSection,
   DaySplit,
   Breakpoint,
+  NonRidingDay,
+  NonRidingDayKind,
 } from "../types/segments";
 import {
+  addNonRidingDays,
+  addSunTimes,
   generateDaySplits,
   getBreakpointCoordinates,
+  NON_RIDING_DAYS,
 } from "../utils/daySplitCalculations";
+import { detectClimbs } from "../utils/climbs";
+import { haversineDistance } from "../utils/geo";
+import type { RouteGaps, RouteTracks } from "../utils/segmentGeometry";
+import { getSegmentVariantIds } from "../utils/segments";
+import { getSegmentSurfaces, type RouteSurfaces } from "../utils/surface";
+import type { OvernightStop, SurfaceType } from "../types/route";
+import { getVariantConfig } from "./useRouteData";
+import { ROUTE_VARIANTS } from "../utils/routeVariants";
+import { useElevationSettings } from "./useElevationSettings";
+import { useRidingSettings } from "./useRidingSettings";
+import { calculateCumulativeRidingTimes } from "../utils/ridingTime";
+import {
+  findStopAt,
+  findStopsAlongRoute,
+  snapBreakpoints,
+  type RouteStop,
+} from "../utils/overnightStops";
 
 interface BlendedRouteContextValue {
   // State
@@ -30,16 +53,30 @@ interface BlendedRouteContextValue {
 
   // Segments data
   segments: Segment[];
+  tracks: RouteTracks; // parent tracks the segments reference
+  gaps: RouteGaps; // breaks in the tracks, which add no distance
+  surfaces: RouteSurfaces; // per track point, for routes with surface data
   divergingSegments: Segment[];
   isComplete: boolean; // All diverging segments have selections
 
+  ridingTimes: number[]; // cumulative moving hours along the blended route
+
   // Day splitting
-  numberOfDays: number;
-  breakpoints: number[]; // percentages (0-100)
-  daySplits: DaySplit[];
+  numberOfDays: number; // riding days
+  breakpoints: number[]; // percentages (0-100), snapped to stops when on
+  requestedBreakpoints: number[]; // where they were put, before snapping
+  nonRidingDays: NonRidingDay[]; // ordered by the day they follow
+  startDate: string | null; // YYYY-MM-DD
+  daySplits: DaySplit[]; // every day of the trip, non-riding ones included
   breakpointCoordinates: Breakpoint[];
+  routeStops: RouteStop[]; // overnight stops along the blended route
+  snapToStops: boolean;
   setNumberOfDays: (days: number) => void;
   setBreakpoints: (breakpoints: number[]) => void;
+  setSnapToStops: (snap: boolean) => void;
+  addNonRidingDay: (afterDay: number, kind: NonRidingDayKind) => void;
+  updateNonRidingDay: (index: number, kind: NonRidingDayKind | null) => void; // null removes it
+  setStartDate: (date: string | null) => void;
 
   // Actions
   enterBuildMode: () => void;
@@ -57,10 +94,15 @@ const BlendedRouteContext = createContext<BlendedRouteContextValue | null>(
 interface BlendedRouteProviderProps {
   children: ReactNode;
   segments: Segment[];
+  tracks: RouteTracks;
+  gaps: RouteGaps;
+  surfaces: RouteSurfaces;
+  overnightStops: OvernightStop[];
 }
 
 /**
  * Encode selections to URL parameter format: g1-t2-g3 etc.
+ * The prefix is the chosen variant's urlCode.
  */
 function encodeSelectionsToUrl(
   selections: Map<string, RouteChoice>,
@@ -71,8 +113,8 @@ function encodeSelectionsToUrl(
 
   for (const seg of diverging) {
     const choice = selections.get(seg.id);
-    if (choice) {
-      const prefix = choice === "gravel" ? "g" : "t";
+    const prefix = choice ? getVariantConfig(choice)?.urlCode : undefined;
+    if (prefix) {
       parts.push(`${prefix}${seg.order}`);
     }
   }
@@ -80,6 +122,56 @@ function encodeSelectionsToUrl(
   return parts.join("-");
 }
 
+/**
+ * Encode breakpoints to the days URL parameter: 25,50rr,75 etc. Letters
+ * after a breakpoint are the non-riding days spent there.
+ */
+function encodeDaysToUrl(
+  breakpoints: number[],
+  nonRidingDays: NonRidingDay[],
+): string {
+  return breakpoints
+    .map((breakpoint, i) => {
+      const codes = nonRidingDays
+        .filter(({ afterDay }) => afterDay === i + 1)
+        .map(({ kind }) => NON_RIDING_DAYS[kind].code);
+      return `${Math.round(breakpoint)}${codes.join("")}`;
+    })
+    .join(",");
+}
+
+/**
+ * Decode the days URL parameter to breakpoints and non-riding days
+ */
+function decodeDaysFromUrl(param: string): {
+  breakpoints: number[];
+  nonRidingDays: NonRidingDay[];
+} {
+  const kindsByCode = new Map(
+    (Object.keys(NON_RIDING_DAYS) as NonRidingDayKind[]).map((kind) => [
+      NON_RIDING_DAYS[kind].code,
+      kind,
+    ]),
+  );
+  const breakpoints: number[] = [];
+  const nonRidingDays: NonRidingDay[] = [];
+
+  for (const part of param.split(",")) {
+    const match = part.match(/^(\d+(?:\.\d+)?)([a-z]*)$/);
+    if (!match) continue;
+    const breakpoint = parseFloat(match[1]);
+    if (breakpoint <= 0 || breakpoint >= 100) continue;
+
+    breakpoints.push(breakpoint);
+    for (const code of match[2]) {
+      const kind = kindsByCode.get(code);
+      if (kind) nonRidingDays.push({ afterDay: breakpoints.length, kind });
+    }
+  }
+
+  return { breakpoints, nonRidingDays };
+}
+
 /**
  * Decode URL parameter to selections map
  */
@@ -92,14 +184,20 @@ function decodeSelectionsFromUrl(
 
   const parts = param.split("-");
   const segmentsByOrder = new Map(segments.map((s) => [s.order, s]));
+  const variantsByCode = new Map(ROUTE_VARIANTS.map((v) => [v.urlCode, v.id]));
 
   for (const part of parts) {
-    const match = part.match(/^([gt])(\d+)$/);
+    const match = part.match(/^([a-z]+)(\d+)$/);
     if (match) {
-      const choice: RouteChoice = match[1] === "g" ? "gravel" : "tarmac";
+      const choice = variantsByCode.get(match[1]);
       const order = parseInt(match[2], 10);
       const segment = segmentsByOrder.get(order);
-      if (segment && segment.type === "diverging") {
+      if (
+        choice &&
+        segment &&
+        segment.type === "diverging" &&
+        segment.variants[choice]
+      ) {
         selections.set(segment.id, choice);
       }
     }
@@ -109,10 +207,44 @@ function decodeSelectionsFromUrl(
 }
 
 /**
- * Build the blended route from segments and selections
+ * Pick the variant each segment is ridden on. Diverging segments use the
+ * selection; shared segments stay on the variant chosen before them (or,
+ * at the start, the first choice after them) so the route only switches
+ * tracks where a diverging segment begins.
+ */
+function resolveSegmentVariants(
+  segments: Segment[],
+  selections: Map<string, RouteChoice>,
+): string[] {
+  const chosen = segments.map((segment) => {
+    const choice = selections.get(segment.id);
+    return segment.type === "diverging" && choice && segment.variants[choice]
+      ? choice
+      : null;
+  });
+  const firstChoice = chosen.find((choice) => choice !== null) ?? null;
+
+  let current: string | null = firstChoice;
+  return segments.map((segment, i) => {
+    current = chosen[i] ?? current;
+    return current && segment.variants[current]
+      ? current
+      : getSegmentVariantIds(segment)[0];
+  });
+}
+
+/**
+ * Build the blended route from segments and selections, assembling the
+ * coordinates from the parent tracks. Consecutive segments on the same
+ * variant share their junction point; switching variants joins the two
+ * junctions, which are at most the analysis threshold apart. Steps across
+ * gaps in a track add no distance.
  */
 function buildBlendedRoute(
   segments: Segment[],
+  tracks: RouteTracks,
+  routeGaps: RouteGaps,
+  routeSurfaces: RouteSurfaces,
   selections: Map<string, RouteChoice>,
 ): BlendedRoute | null {
   // Check if all diverging segments have selections
@@ -122,37 +254,84 @@ function buildBlendedRoute(
   if (!allSelected) return null;
 
   const coordinates: [number, number, number][] = [];
-  let totalDistance = 0;
+  const distances: number[] = [];
+  const sections: BlendedRouteSection[] = [];
+  const hasSurfaces = Object.keys(routeSurfaces).length > 0;
+  const surfaces: SurfaceType[] = [];
   let totalElevationGain = 0;
   let totalElevationLoss = 0;
 
-  for (const segment of segments) {
-    let segmentData;
+  const addPoint = (point: [number, number, number], acrossGap = false) => {
+    const prev = coordinates[coordinates.length - 1];
+    distances.push(
+      prev
+        ? distances[distances.length - 1] +
+            (acrossGap
+              ? 0
+              : haversineDistance(prev[1], prev[0], point[1], point[0]))
+        : 0,
+    );
+    coordinates.push(point);
+  };
 
-    if (segment.type === "shared") {
-      // For shared segments, use gravel data (they're essentially the same)
-      segmentData = segment.gravel;
+  const variantIds = resolveSegmentVariants(segments, selections);
+
+  segments.forEach((segment, i) => {
+    const variantId = variantIds[i];
+    const stats = segment.variants[variantId];
+    const track = tracks[variantId] ?? [];
+    const trackGaps = routeGaps[variantId];
+    const segmentSurfaces = getSegmentSurfaces(
+      stats,
+      routeSurfaces[variantId] ?? [],
+    );
+
+    // Reuse the previous end junction when this segment starts on it
+    const last = coordinates[coordinates.length - 1];
+    const [lng, lat, elevation] = stats.start.coordinates;
+    if (!last || last[0] !== lng || last[1] !== lat || last[2] !== elevation) {
+      addPoint(stats.start.coordinates);
+      surfaces.push(segmentSurfaces[0]);
     } else {
-      // For diverging segments, use the selected route
-      const choice = selections.get(segment.id);
-      segmentData = choice === "tarmac" ? segment.tarmac : segment.gravel;
+      // The junction's outgoing stretch belongs to this segment
+      surfaces[surfaces.length - 1] = segmentSurfaces[0];
     }
+    const startIndex = coordinates.length - 1;
+    surfaces.push(...segmentSurfaces.slice(1));
 
-    // Add coordinates (skip first point if we already have coordinates to avoid duplicates)
-    if (coordinates.length > 0 && segmentData.coordinates.length > 0) {
-      coordinates.push(...segmentData.coordinates.slice(1));
-    } else {
-      coordinates.push(...segmentData.coordinates);
+    // A gap index marks the first point after a break in the track
+    for (let t = stats.startIndex; t < stats.endIndex; t++) {
+      const [pointLng, pointLat, pointElevation = 0] = track[t];
+      addPoint([pointLng, pointLat, pointElevation], trackGaps?.has(t));
     }
+    addPoint(stats.end.coordinates, trackGaps?.has(stats.endIndex));
 
-    totalDistance += segmentData.distanceKm;
-    totalElevationGain += segmentData.elevationGain;
-    totalElevationLoss += segmentData.elevationLoss;
-  }
+    sections.push({
+      segmentId: segment.id,
+      variantId,
+      startIndex,
+      endIndex: coordinates.length - 1,
+      trackOffset: stats.startIndex - (startIndex + 1),
+    });
+
+    totalElevationGain += stats.elevationGain;
+    totalElevationLoss += stats.elevationLoss;
+  });
 
   return {
     coordinates,
-    distanceKm: totalDistance,
+    distances,
+    sections,
+    surfaces: hasSurfaces ? surfaces : undefined,
+    climbs: detectClimbs(
+      coordinates.map(([lng, lat, elevation], i) => ({
+        distance: distances[i],
+        elevation,
+        lat,
+        lng,
+      })),
+    ),
+    distanceKm: distances[distances.length - 1] ?? 0,
     elevationGain: totalElevationGain,
     elevationLoss: totalElevationLoss,
     selections: new Map(selections),
@@ -162,6 +341,10 @@ function buildBlendedRoute(
 export function BlendedRouteProvider({
   children,
   segments,
+  tracks,
+  gaps,
+  surfaces,
+  overnightStops,
 }: BlendedRouteProviderProps) {
   const [isBuilding, setIsBuilding] = useState(false);
   const [selections, setSelections] = useState<Map<string, RouteChoice>>(
@@ -175,9 +358,17 @@ export function BlendedRouteProvider({
     null,
   );
 
+  const { elevationSettings } = useElevationSettings();
+  const { ridingSettings } = useRidingSettings();
+
   // Day splitting state - default to 4 days
   const [numberOfDays, setNumberOfDaysState] = useState(4);
-  const [breakpoints, setBreakpointsState] = useState<number[]>([25, 50, 75]);
+  const [requestedBreakpoints, setBreakpointsState] = useState<number[]>([
+    25, 50, 75,
+  ]);
+  const [snapToStops, setSnapToStops] = useState(true);
+  const [nonRidingDays, setNonRidingDays] = useState<NonRidingDay[]>([]);
+  const [startDate, setStartDate] = useState<string | null>(null);
 
   const divergingSegments = useMemo(
     () => segments.filter((s) => s.type === "diverging"),
@@ -191,21 +382,81 @@ export function BlendedRouteProvider({
 
   // Build blended route from saved selections (not in-progress ones)
   const blendedRoute = useMemo(
-    () => buildBlendedRoute(segments, savedSelections),
-    [segments, savedSelections],
+    () => buildBlendedRoute(segments, tracks, gaps, surfaces, savedSelections),
+    [segments, tracks, gaps, surfaces, savedSelections],
   );
 
-  // Compute day splits from breakpoints
+  // Moving time from the start to each point, for the days and totals
+  const ridingTimes = useMemo(() => {
+    if (!blendedRoute) return [];
+    return calculateCumulativeRidingTimes(
+      blendedRoute.coordinates.map(([, , elevation]) => elevation),
+      blendedRoute.distances,
+      blendedRoute.surfaces,
+      ridingSettings,
+    );
+  }, [blendedRoute, ridingSettings]);
+
+  const routeStops = useMemo(() => {
+    if (!blendedRoute) return [];
+    return findStopsAlongRoute(
+      blendedRoute.coordinates,
+      blendedRoute.distances,
+      overnightStops,
+    );
+  }, [blendedRoute, overnightStops]);
+
+  // Breakpoints stay where they were put; snapping is applied on top, so
+  // turning it off brings them back
+  const breakpoints = useMemo(() => {
+    if (!blendedRoute || !snapToStops) return requestedBreakpoints;
+    return snapBreakpoints(
+      requestedBreakpoints,
+      routeStops,
+      blendedRoute.distanceKm,
+    );
+  }, [blendedRoute, snapToStops, requestedBreakpoints, routeStops]);
+
+  // Compute day splits from breakpoints, then add the days off the bike
+  // and, once dated, their daylight
   const daySplits = useMemo<DaySplit[]>(() => {
-    if (!blendedRoute || breakpoints.length === 0) return [];
-    return generateDaySplits(blendedRoute, breakpoints);
-  }, [blendedRoute, breakpoints]);
+    if (!blendedRoute) return [];
+    const ridingDays = generateDaySplits(
+      blendedRoute,
+      breakpoints,
+      elevationSettings,
+      ridingTimes,
+    ).map((day) => ({
+      ...day,
+      endStop: findStopAt(
+        routeStops,
+        blendedRoute.distances[day.endCoordIndex],
+      ),
+    }));
+    return addSunTimes(
+      addNonRidingDays(ridingDays, nonRidingDays, startDate),
+      blendedRoute.coordinates,
+    );
+  }, [
+    blendedRoute,
+    breakpoints,
+    elevationSettings,
+    ridingTimes,
+    routeStops,
+    nonRidingDays,
+    startDate,
+  ]);
 
   // Compute breakpoint coordinates for map markers
   const breakpointCoordinates = useMemo<Breakpoint[]>(() => {
     if (!blendedRoute || breakpoints.length === 0) return [];
-    return getBreakpointCoordinates(blendedRoute, breakpoints);
-  }, [blendedRoute, breakpoints]);
+    return getBreakpointCoordinates(blendedRoute, breakpoints).map(
+      (breakpoint) => ({
+        ...breakpoint,
+        stop: findStopAt(routeStops, breakpoint.cumulativeDistanceKm),
+      }),
+    );
+  }, [blendedRoute, breakpoints, routeStops]);
 
   // Track if we've done the initial URL load
   const initialLoadDone = useRef(false);
@@ -219,6 +470,14 @@ export function BlendedRouteProvider({
     const params = new URLSearchParams(window.location.search);
     const routeParam = params.get("route");
     const daysParam = params.get("days");
+    const startParam = params.get("start");
+
+    if (startParam && /^\d{4}-\d{2}-\d{2}$/.test(startParam)) {
+      setStartDate(startParam);
+    }
+    if (params.get("snap") === "0") {
+      setSnapToStops(false);
+    }
 
     if (routeParam) {
       const decoded = decodeSelectionsFromUrl(routeParam, segments);
@@ -229,13 +488,11 @@ export function BlendedRouteProvider({
 
         // Load day splits if present, otherwise use default 4 days
         if (daysParam) {
-          const loadedBreakpoints = daysParam
-            .split(",")
-            .map((s) => parseFloat(s))
-            .filter((n) => !isNaN(n) && n > 0 && n < 100);
-          if (loadedBreakpoints.length > 0) {
-            setBreakpointsState(loadedBreakpoints);
-            setNumberOfDaysState(loadedBreakpoints.length + 1);
+          const loaded = decodeDaysFromUrl(daysParam);
+          if (loaded.breakpoints.length > 0) {
+            setBreakpointsState(loaded.breakpoints);
+            setNumberOfDaysState(loaded.breakpoints.length + 1);
+            setNonRidingDays(loaded.nonRidingDays);
           }
         }
       }
@@ -255,6 +512,7 @@ export function BlendedRouteProvider({
       prevSavedSelectionsSize.current = savedSelections.size;
       setNumberOfDaysState(4);
       setBreakpointsState([25, 50, 75]);
+      setNonRidingDays([]);
     }
   }, [savedSelections]);
 
@@ -266,26 +524,50 @@ export function BlendedRouteProvider({
       // Remove route and days params if no selections
       params.delete("route");
       params.delete("days");
+      params.delete("start");
+      params.delete("snap");
     } else {
       const encoded = encodeSelectionsToUrl(savedSelections, segments);
       if (encoded) {
         params.set("route", encoded);
       }
 
-      // Handle days parameter
-      if (breakpoints.length > 0) {
-        const daysEncoded = breakpoints.map((b) => Math.round(b)).join(",");
-        params.set("days", daysEncoded);
+      // Handle days parameter, saving the breakpoints as placed so turning
+      // snapping off after a reload still brings them back
+      if (requestedBreakpoints.length > 0) {
+        params.set(
+          "days",
+          encodeDaysToUrl(requestedBreakpoints, nonRidingDays),
+        );
       } else {
         params.delete("days");
       }
+
+      if (startDate) {
+        params.set("start", startDate);
+      } else {
+        params.delete("start");
+      }
+
+      if (snapToStops) {
+        params.delete("snap");
+      } else {
+        params.set("snap", "0");
+      }
     }
 
     const newUrl = params.toString()
       ? `${window.location.pathname}?${params.toString()}`
       : window.location.pathname;
     window.history.replaceState({}, "", newUrl);
-  }, [savedSelections, breakpoints, segments]);
+  }, [
+    savedSelections,
+    requestedBreakpoints,
+    nonRidingDays,
+    startDate,
+    snapToStops,
+    segments,
+  ]);
 
   const enterBuildMode = useCallback(() => {
     // Start with current saved selections (or empty if none)
@@ -336,8 +618,34 @@ export function BlendedRouteProvider({
 
   const setNumberOfDays = useCallback((days: number) => {
     setNumberOfDaysState(days);
+    // Days off can only follow a riding day that's not the last
+    setNonRidingDays((prev) => prev.filter(({ afterDay }) => afterDay < days));
   }, []);
 
+  const addNonRidingDay = useCallback(
+    (afterDay: number, kind: NonRidingDayKind) => {
+      setNonRidingDays((prev) => {
+        // Keep them ordered by the day they follow, newest last
+        const index = prev.findIndex((day) => day.afterDay > afterDay);
+        const next = [...prev];
+        next.splice(index === -1 ? prev.length : index, 0, { afterDay, kind });
+        return next;
+      });
+    },
+    [],
+  );
+
+  const updateNonRidingDay = useCallback(
+    (index: number, kind: NonRidingDayKind | null) => {
+      setNonRidingDays((prev) =>
+        kind
+          ? prev.map((day, i) => (i === index ? { ...day, kind } : day))
+          : prev.filter((_, i) => i !== index),
+      );
+    },
+    [],
+  );
+
   const setBreakpoints = useCallback((newBreakpoints: number[]) => {
     setBreakpointsState(newBreakpoints);
   }, []);
@@ -349,14 +657,27 @@ export function BlendedRouteProvider({
     selectedSegmentId,
     blendedRoute,
     segments,
+    tracks,
+    gaps,
+    surfaces,
     divergingSegments,
     isComplete,
+    ridingTimes,
     numberOfDays,
     breakpoints,
+    requestedBreakpoints,
+    nonRidingDays,
+    startDate,
     daySplits,
     breakpointCoordinates,
+    routeStops,
+    snapToStops,
     setNumberOfDays,
     setBreakpoints,
+    setSnapToStops,
+    addNonRidingDay,
+    updateNonRidingDay,
+    setStartDate,
     enterBuildMode,
     exitBuildMode,
     selectSegment,
@@ -0,0 +1,56 @@
+import { useState, useMemo, useCallback } from 'react';
+import type { Position } from 'geojson';
+import { useMapViewport } from './useMapViewport';
+import {
+  clampRange,
+  getVisibleRange,
+  isFullRange,
+  type DistanceRange,
+} from '../utils/chartZoom';
+import { findIndexAtDistance } from '../utils/geo';
+
+interface UseChartZoomResult {
+  range: DistanceRange | null; // null for the whole route
+  total: number; // route length in km
+  zoomTo: (range: DistanceRange | null) => void;
+}
+
+/**
+ * Zoomed range of a route's elevation chart. Zooming fits the map to the
+ * range; with "follow map" on, the range is the part of the route in the
+ * map view instead.
+ */
+export function useChartZoom(line: Position[], distances: number[]): UseChartZoomResult {
+  const { bounds, followMap, fitMap } = useMapViewport();
+  const [zoom, setZoom] = useState<DistanceRange | null>(null);
+  const total = distances[distances.length - 1] ?? 0;
+
+  const followed = useMemo(() => {
+    if (!followMap || !bounds) return null;
+    const visible = getVisibleRange(line, distances, bounds);
+    if (!visible) return null;
+    const clamped = clampRange(visible, total);
+    return isFullRange(clamped, total) ? null : clamped;
+  }, [followMap, bounds, line, distances, total]);
+
+  const zoomTo = useCallback(
+    (next: DistanceRange | null) => {
+      const clamped = next && clampRange(next, total);
+      if (!clamped || isFullRange(clamped, total)) {
+        setZoom(null);
+        fitMap(line);
+        return;
+      }
+      setZoom(clamped);
+      fitMap(
+        line.slice(
+          findIndexAtDistance(distances, clamped.start),
+          findIndexAtDistance(distances, clamped.end) + 2
+        )
+      );
+    },
+    [line, distances, total, fitMap]
+  );
+
+  return { range: followMap ? followed : zoom, total, zoomTo };
+}
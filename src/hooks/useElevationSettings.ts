@@ -0,0 +1,22 @@
+import { createContext, useContext } from 'react';
+import type { ClimbingMethod, ElevationSettings } from '../utils/elevation';
+
+export interface ElevationSettingsContextValue {
+  climbingMethod: ClimbingMethod;
+  setClimbingMethod: (method: ClimbingMethod) => void;
+  elevationSettings: ElevationSettings;
+}
+
+// Provided by ElevationSettingsProvider
+export const ElevationSettingsContext =
+  createContext<ElevationSettingsContextValue | null>(null);
+
+export function useElevationSettings(): ElevationSettingsContextValue {
+  const context = useContext(ElevationSettingsContext);
+  if (!context) {
+    throw new Error(
+      'useElevationSettings must be used within an ElevationSettingsProvider'
+    );
+  }
+  return context;
+}
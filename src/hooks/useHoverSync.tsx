@@ -10,7 +10,7 @@ import type { HoverState, ElevationPoint } from "../types/route";
 interface HoverContextValue {
   hoverState: HoverState;
   setHover: (
-    routeId: "gravel" | "tarmac" | "blended" | null,
+    routeId: string | null,
     point: ElevationPoint | null,
     source: "map" | "chart" | null,
   ) => void;
@@ -30,7 +30,7 @@ export function HoverProvider({ children }: { children: ReactNode }) {
 
   const setHover = useCallback(
     (
-      routeId: "gravel" | "tarmac" | "blended" | null,
+      routeId: string | null,
       point: ElevationPoint | null,
       source: "map" | "chart" | null,
     ) => {
@@ -0,0 +1,31 @@
+import { createContext, useContext } from "react";
+import type { Position } from "geojson";
+import type { MapBounds } from "../utils/chartZoom";
+
+// Coordinates for the map to fit; the id makes a repeated request fit again
+export interface FitRequest {
+  id: number;
+  coordinates: Position[];
+}
+
+export interface MapViewportContextValue {
+  bounds: MapBounds | null; // visible map area, published while followMap is on
+  setBounds: (bounds: MapBounds | null) => void;
+  followMap: boolean; // charts zoom to the part of their route on the map
+  setFollowMap: (follow: boolean) => void;
+  fitRequest: FitRequest | null;
+  fitMap: (coordinates: Position[]) => void;
+}
+
+// Provided by MapViewportProvider
+export const MapViewportContext = createContext<MapViewportContextValue | null>(
+  null,
+);
+
+export function useMapViewport(): MapViewportContextValue {
+  const context = useContext(MapViewportContext);
+  if (!context) {
+    throw new Error("useMapViewport must be used within a MapViewportProvider");
+  }
+  return context;
+}
@@ -0,0 +1,20 @@
+import { createContext, useContext } from 'react';
+import type { FitnessLevel, RidingSettings } from '../utils/ridingTime';
+
+export interface RidingSettingsContextValue {
+  fitnessLevel: FitnessLevel | null; // null once a setting has been edited
+  setFitnessLevel: (level: FitnessLevel) => void;
+  ridingSettings: RidingSettings;
+  updateRidingSettings: (changes: Partial<RidingSettings>) => void;
+}
+
+// Provided by RidingSettingsProvider
+export const RidingSettingsContext = createContext<RidingSettingsContextValue | null>(null);
+
+export function useRidingSettings(): RidingSettingsContextValue {
+  const context = useContext(RidingSettingsContext);
+  if (!context) {
+    throw new Error('useRidingSettings must be used within a RidingSettingsProvider');
+  }
+  return context;
+}
@@ -1,22 +1,16 @@
 import { useState, useEffect } from 'react';
-import { parseGpxFile } from '../utils/gpx';
-import type { RouteData } from '../types/route';
+import { applySurfaces, buildRouteDataFromTrack, loadRouteFile } from '../utils/routeData';
+import { decodeRouteBundle, type RouteBundle } from '../utils/routeBundle';
+import { decodeSurfaceRuns, type SurfaceRuns } from '../utils/surface';
+import { getRouteTracks } from '../utils/segmentGeometry';
+import { validateSegments } from '../utils/segmentValidation';
+import { validateOvernightStops } from '../utils/overnightStops';
+import type { OvernightStop, RouteData } from '../types/route';
 import type { Segment } from '../types/segments';
+import { ROUTE_VARIANTS, type RouteVariantConfig } from '../utils/routeVariants';
 
 // Route colors - pretty palette inspired by the Italian landscape
 export const ROUTE_CONFIG = {
-  gravel: {
-    name: 'Gravel Route',
-    color: '#E67E22', // Warm terracotta orange
-    fillColor: 'rgba(230, 126, 34, 0.3)',
-    url: '/data/gravel.gpx',
-  },
-  tarmac: {
-    name: 'Tarmac Route',
-    color: '#3498DB', // Lake Garda blue
-    fillColor: 'rgba(52, 152, 219, 0.3)',
-    url: '/data/tarmac.gpx',
-  },
   blended: {
     name: 'My Route',
     color: '#9B59B6', // Purple - complements orange and blue
@@ -28,9 +22,126 @@ export const ROUTE_CONFIG = {
   },
 } as const;
 
+// Colors for user-uploaded routes, used in turn
+export const UPLOAD_COLORS = [
+  { color: '#2ECC71', fillColor: 'rgba(46, 204, 113, 0.3)' }, // Olive grove green
+  { color: '#E84393', fillColor: 'rgba(232, 67, 147, 0.3)' }, // Oleander pink
+  { color: '#F1C40F', fillColor: 'rgba(241, 196, 15, 0.3)' }, // Lemon yellow
+  { color: '#1ABC9C', fillColor: 'rgba(26, 188, 156, 0.3)' }, // Shallow water teal
+];
+
+// Clock times along the course, such as sunrise and sunset, are local to it
+export const COURSE_TIME_ZONE = 'Europe/Rome';
+
+const FALLBACK_VARIANT_COLOR = '#95A5A6';
+
+// All variants and segments in one file, built with npm run bundle. When
+// it's missing the route files and segments.json are loaded instead.
+const ROUTE_BUNDLE_URL = '/data/route-bundle.json';
+const SEGMENTS_URL = '/data/segments.json';
+const SURFACES_URL = '/data/surfaces.json';
+// Towns and places to stay near the course, from npm run extract:stops
+const OVERNIGHT_STOPS_URL = '/data/overnight-stops.json';
+
+/**
+ * Look up the config for a variant id
+ */
+export function getVariantConfig(id: string): RouteVariantConfig | undefined {
+  return ROUTE_VARIANTS.find((v) => v.id === id);
+}
+
+/**
+ * Get the display color for a variant, falling back to grey for unknown ids
+ */
+export function getVariantColor(id: string): string {
+  return getVariantConfig(id)?.color ?? FALLBACK_VARIANT_COLOR;
+}
+
+interface LoadedRouteData {
+  routes: RouteData[]; // in ROUTE_VARIANTS order
+  segments: unknown; // validated by the caller
+  segmentsSource: string; // file the segments came from, for errors
+}
+
+/**
+ * Fetch a generated JSON data file, resolving to null when it doesn't exist
+ */
+async function fetchOptionalJson(url: string): Promise<unknown> {
+  const response = await fetch(url);
+  // The dev server answers missing files with index.html
+  if (!response.ok || !response.headers.get('content-type')?.includes('json')) {
+    return null;
+  }
+  return response.json();
+}
+
+/**
+ * Load the precomputed route bundle (see scripts/build-route-bundle.ts).
+ * Resolves to null when there is no bundle, e.g. before it has been built.
+ */
+async function loadRouteBundle(): Promise<LoadedRouteData | null> {
+  const bundle = await fetchOptionalJson(ROUTE_BUNDLE_URL);
+  if (!bundle) return null;
+
+  const { routes: tracks, segments } = decodeRouteBundle(bundle as RouteBundle);
+  const routes = ROUTE_VARIANTS.map((variant) => {
+    const track = tracks.find((t) => t.id === variant.id);
+    if (!track) {
+      throw new Error(`Route bundle has no "${variant.id}" route; run npm run bundle`);
+    }
+    return buildRouteDataFromTrack(
+      track,
+      variant.id,
+      variant.name,
+      variant.color,
+      variant.fillColor
+    );
+  });
+  return { routes, segments, segmentsSource: 'route-bundle.json' };
+}
+
+/**
+ * Load the route files, segments.json and surfaces.json (if enriched)
+ * separately
+ */
+async function loadRouteFiles(): Promise<LoadedRouteData> {
+  const [routes, segments, surfaces] = await Promise.all([
+    Promise.all(
+      ROUTE_VARIANTS.map((variant) =>
+        loadRouteFile(
+          variant.url,
+          variant.id,
+          variant.name,
+          variant.color,
+          variant.fillColor
+        )
+      )
+    ),
+    fetch(SEGMENTS_URL).then((response) => {
+      // The dev server answers missing files with index.html
+      if (!response.ok || !response.headers.get('content-type')?.includes('json')) {
+        throw new Error(`Failed to load ${SEGMENTS_URL}: ${response.status}`);
+      }
+      return response.json() as Promise<unknown>;
+    }),
+    fetchOptionalJson(SURFACES_URL) as Promise<Record<string, SurfaceRuns> | null>,
+  ]);
+
+  return {
+    routes: routes.map((route) => {
+      const runs = surfaces?.[route.id];
+      if (!runs) return route;
+      return applySurfaces(route, decodeSurfaceRuns(runs, route.elevationProfile.length));
+    }),
+    segments,
+    segmentsSource: 'segments.json',
+  };
+}
+
 interface UseRouteDataResult {
   routes: RouteData[];
   segments: Segment[];
+  overnightStops: OvernightStop[];
   isLoading: boolean;
   error: string | null;
 }
@@ -38,6 +149,7 @@ interface UseRouteDataResult {
 export function useRouteData(): UseRouteDataResult {
   const [routes, setRoutes] = useState<RouteData[]>([]);
   const [segments, setSegments] = useState<Segment[]>([]);
+  const [overnightStops, setOvernightStops] = useState<OvernightStop[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
@@ -47,26 +159,30 @@ export function useRouteData(): UseRouteDataResult {
         setIsLoading(true);
         setError(null);
 
-        const [gravelRoute, tarmacRoute, segmentsData] = await Promise.all([
-          parseGpxFile(
-            ROUTE_CONFIG.gravel.url,
-            'gravel',
-            ROUTE_CONFIG.gravel.name,
-            ROUTE_CONFIG.gravel.color,
-            ROUTE_CONFIG.gravel.fillColor
-          ),
-          parseGpxFile(
-            ROUTE_CONFIG.tarmac.url,
-            'tarmac',
-            ROUTE_CONFIG.tarmac.name,
-            ROUTE_CONFIG.tarmac.color,
-            ROUTE_CONFIG.tarmac.fillColor
-          ),
-          fetch('/data/segments.json').then(res => res.json()) as Promise<Segment[]>,
+        const [routeData, stopsData] = await Promise.all([
+          loadRouteBundle().then((bundle) => bundle ?? loadRouteFiles()),
+          fetchOptionalJson(OVERNIGHT_STOPS_URL),
         ]);
+        const { routes: variantRoutes, segments: segmentsData, segmentsSource } = routeData;
+
+        const segmentErrors = validateSegments(segmentsData, getRouteTracks(variantRoutes));
+        if (segmentErrors.length > 0) {
+          throw new Error(
+            `Invalid segments in ${segmentsSource}:\n${segmentErrors.map((e) => `• ${e}`).join('\n')}`
+          );
+        }
+
+        const stopErrors = stopsData ? validateOvernightStops(stopsData) : [];
+        if (stopErrors.length > 0) {
+          throw new Error(
+            `Invalid overnight-stops.json:\n${stopErrors.map((e) => `• ${e}`).join('\n')}`
+          );
+        }
 
-        setRoutes([tarmacRoute, gravelRoute]); // Tarmac first so gravel renders on top
-        setSegments(segmentsData);
+        // Reverse display order so the first variant renders on top
+        setRoutes([...variantRoutes].reverse());
+        setSegments(segmentsData as Segment[]);
+        setOvernightStops((stopsData as OvernightStop[] | null) ?? []);
       } catch (err) {
         console.error('Failed to load routes:', err);
         setError(err instanceof Error ? err.message : 'Failed to load route data');
@@ -78,5 +194,5 @@ export function useRouteData(): UseRouteDataResult {
     loadRoutes();
   }, []);
 
-  return { routes, segments, isLoading, error };
+  return { routes, segments, overnightStops, isLoading, error };
 }
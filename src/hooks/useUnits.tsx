@@ -5,6 +5,7 @@ import {
   useCallback,
   type ReactNode,
 } from 'react';
+import { KM_TO_MILES, METERS_TO_FEET } from '../utils/units';
 
 export type UnitSystem = 'metric' | 'imperial';
 
@@ -21,10 +22,6 @@ interface UnitsContextValue {
 
 const UnitsContext = createContext<UnitsContextValue | null>(null);
 
-// Conversion constants
-const KM_TO_MILES = 0.621371;
-const METERS_TO_FEET = 3.28084;
-
 export function UnitsProvider({ children }: { children: ReactNode }) {
   const [units, setUnits] = useState<UnitSystem>('imperial');
 
@@ -93,14 +90,3 @@ export function useUnits(): UnitsContextValue {
   }
   return context;
 }
-
-/**
- * Raw conversion functions for use in charts where we need numeric values
- */
-export function kmToMiles(km: number): number {
-  return km * KM_TO_MILES;
-}
-
-export function metersToFeet(meters: number): number {
-  return Math.round(meters * METERS_TO_FEET);
-}
@@ -0,0 +1,191 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import type { RouteData } from '../types/route';
+import { UPLOAD_COLORS } from './useRouteData';
+import { useElevationSettings } from './useElevationSettings';
+import { parseRouteFile } from '../utils/parsers';
+import { buildRouteData } from '../utils/routeData';
+import {
+  DEFAULT_ANALYSIS_OPTIONS,
+  summarizeSegments,
+  type SegmentAnalysisResult,
+} from '../utils/segmentAnalysis';
+import {
+  startSegmentAnalysis,
+  type SegmentAnalysisTask,
+} from '../utils/segmentAnalysisTask';
+
+// How an uploaded route relates to one official variant
+export interface RouteOverlap {
+  variantId: string;
+  sharedKm: number; // along the uploaded route
+  divergingKm: number; // along the uploaded route
+  divergingSegments: number;
+}
+
+interface UseUploadedRoutesResult {
+  uploadedRoutes: RouteData[];
+  overlaps: Record<string, RouteOverlap[]>; // uploaded route id -> per variant
+  analysisProgress: Record<string, number>; // uploaded route id -> 0-1, while analyzing
+  error: string | null;
+  analysisError: string | null; // routes whose overlap analysis failed
+  addFiles: (files: File[]) => Promise<RouteData[]>; // resolves to the added routes
+  removeRoute: (id: string) => void;
+}
+
+/**
+ * Summarize the analysis of an uploaded route against one official variant
+ */
+function toRouteOverlap(
+  route: RouteData,
+  variantId: string,
+  { segments }: SegmentAnalysisResult
+): RouteOverlap {
+  const summary = summarizeSegments(segments, variantId);
+  const divergingKm = summary.divergingKm[route.id];
+  return {
+    variantId,
+    sharedKm: Math.max(0, route.stats.distance - divergingKm),
+    divergingKm,
+    divergingSegments: summary.divergingSegments,
+  };
+}
+
+/**
+ * Manage routes uploaded by the user (GPX, TCX, FIT or GeoJSON) and their
+ * overlap with the official variants. Files are parsed in the browser and
+ * analyzed in a Web Worker; uploads only live for the session.
+ */
+export function useUploadedRoutes(officialRoutes: RouteData[]): UseUploadedRoutesResult {
+  const { elevationSettings } = useElevationSettings();
+  const [uploadedRoutes, setUploadedRoutes] = useState<RouteData[]>([]);
+  const [overlaps, setOverlaps] = useState<Record<string, RouteOverlap[]>>({});
+  const [progress, setProgress] = useState<Record<string, number>>({});
+  const [analysisErrors, setAnalysisErrors] = useState<Record<string, string>>({});
+  const [error, setError] = useState<string | null>(null);
+  const nextUploadNumber = useRef(1);
+
+  const addFiles = useCallback(async (files: File[]) => {
+    const added: RouteData[] = [];
+    const problems: string[] = [];
+
+    for (const file of files) {
+      try {
+        const parsed = parseRouteFile(await file.arrayBuffer(), file.name);
+        const uploadNumber = nextUploadNumber.current++;
+        const { color, fillColor } =
+          UPLOAD_COLORS[(uploadNumber - 1) % UPLOAD_COLORS.length];
+        const name = parsed.name ?? file.name.replace(/\.[^.]+$/, '');
+        added.push(
+          buildRouteData(parsed, `upload-${uploadNumber}`, name, color, fillColor)
+        );
+      } catch (err) {
+        problems.push(err instanceof Error ? err.message : `Failed to read ${file.name}`);
+      }
+    }
+
+    setError(problems.length > 0 ? problems.join('\n') : null);
+    if (added.length > 0) {
+      setUploadedRoutes((prev) => [...prev, ...added]);
+    }
+    return added;
+  }, []);
+
+  const removeRoute = useCallback((id: string) => {
+    setUploadedRoutes((prev) => prev.filter((r) => r.id !== id));
+    setOverlaps((prev) => {
+      const next = { ...prev };
+      delete next[id];
+      return next;
+    });
+    setProgress((prev) => {
+      const next = { ...prev };
+      delete next[id];
+      return next;
+    });
+    setAnalysisErrors((prev) => {
+      const next = { ...prev };
+      delete next[id];
+      return next;
+    });
+  }, []);
+
+  // Routes still waiting for their overlap analysis
+  const isPending = (r: RouteData) => !overlaps[r.id] && !analysisErrors[r.id];
+  const pendingRoute = uploadedRoutes.find(isPending);
+
+  // Analyze one route at a time, against each official variant in turn.
+  // Removing the route (or unmounting) cancels the running worker.
+  useEffect(() => {
+    if (!pendingRoute || officialRoutes.length === 0) return;
+
+    let task: SegmentAnalysisTask | null = null;
+    let isCancelled = false;
+
+    const run = async () => {
+      const result: RouteOverlap[] = [];
+      try {
+        for (const [i, official] of officialRoutes.entries()) {
+          task = startSegmentAnalysis(
+            [
+              {
+                id: official.id,
+                coordinates: official.geojson.geometry.coordinates,
+                gaps: official.gaps,
+              },
+              {
+                id: pendingRoute.id,
+                coordinates: pendingRoute.geojson.geometry.coordinates,
+                gaps: pendingRoute.gaps,
+              },
+            ],
+            { ...DEFAULT_ANALYSIS_OPTIONS, elevationSettings },
+            (fraction) =>
+              setProgress((prev) => ({
+                ...prev,
+                [pendingRoute.id]: (i + fraction) / officialRoutes.length,
+              }))
+          );
+          const analysis = await task.result;
+          if (isCancelled) return;
+          result.push(toRouteOverlap(pendingRoute, official.id, analysis));
+        }
+      } catch (err) {
+        if (isCancelled) return;
+        // A partial comparison would be misleading, so keep none
+        const reason = err instanceof Error ? err.message : 'unknown error';
+        setAnalysisErrors((prev) => ({
+          ...prev,
+          [pendingRoute.id]: `Couldn't compare ${pendingRoute.name} with the official routes: ${reason}`,
+        }));
+        return;
+      }
+      if (isCancelled) return;
+      setOverlaps((prev) => ({ ...prev, [pendingRoute.id]: result }));
+    };
+    run();
+
+    return () => {
+      isCancelled = true;
+      task?.cancel();
+    };
+  }, [pendingRoute, officialRoutes, elevationSettings]);
+
+  // Progress of the routes still being analyzed
+  const analysisProgress: Record<string, number> = {};
+  uploadedRoutes.filter(isPending).forEach((r) => {
+    analysisProgress[r.id] = progress[r.id] ?? 0;
+  });
+
+  const analysisMessages = Object.values(analysisErrors);
+  const analysisError = analysisMessages.length > 0 ? analysisMessages.join('\n') : null;
+
+  return {
+    uploadedRoutes,
+    overlaps,
+    analysisProgress,
+    error,
+    analysisError,
+    addFiles,
+    removeRoute,
+  };
+}
@@ -6,16 +6,51 @@ export interface ElevationPoint {
   lat: number;
   lng: number;
   grade?: number; // percent gradient
+  surface?: SurfaceType; // from this point to the next
 }
 
+// Surface classes from the offline enrichment (scripts/enrich-surfaces.ts)
+export type SurfaceType = "paved" | "gravel" | "unpaved" | "unknown";
+export type SurfaceBreakdown = Record<SurfaceType, number>; // km per surface
+
 export interface RouteData {
-  id: "gravel" | "tarmac";
+  id: string; // variant id, see ROUTE_VARIANTS
   name: string;
   color: string;
   fillColor: string;
-  geojson: Feature<LineString>;
+  geojson: Feature<LineString>; // all track segments joined in order
   elevationProfile: ElevationPoint[];
   stats: RouteStats;
+  gaps: RouteGap[]; // breaks between track segments
+  waypoints: Waypoint[];
+  surfaces?: SurfaceType[]; // per track point, when surface data exists
+  climbs: Climb[];
+}
+
+// A break between two track segments (or tracks) of a GPX file. The joined
+// line and profile bridge it with a straight line.
+export interface RouteGap {
+  index: number; // first elevation profile index after the break
+  distance: number; // km, straight-line length of the bridge
+}
+
+export interface Waypoint {
+  name: string;
+  lat: number;
+  lng: number;
+  elevation?: number; // meters
+  symbol?: string;
+  description?: string;
+}
+
+// A place to spend the night, from public/data/overnight-stops.json
+export type OvernightStopKind = "town" | "hotel" | "campsite" | "hut";
+
+export interface OvernightStop {
+  name: string;
+  kind: OvernightStopKind;
+  lat: number;
+  lng: number;
 }
 
 export interface RouteStats {
@@ -24,10 +59,31 @@ export interface RouteStats {
   elevationLoss: number; // meters
   maxElevation: number; // meters
   minElevation: number; // meters
+  movingTime?: number; // hours, with the selected riding settings
+}
+
+// Climb categories from easiest to hardest, as in road race classifications
+export type ClimbCategory = "4" | "3" | "2" | "1" | "HC";
+
+// A climb detected from the elevation profile, see utils/climbs.ts
+export interface Climb {
+  startIndex: number; // profile index of the foot
+  endIndex: number; // profile index of the summit
+  startDistance: number; // km from start
+  endDistance: number; // km from start
+  length: number; // km
+  startElevation: number; // meters
+  summitElevation: number; // meters
+  elevationGain: number; // meters, summit minus foot
+  averageGrade: number; // percent
+  maxGrade: number; // percent, steepest stretch of the climb
+  score: number; // length in meters times average grade in percent
+  category: ClimbCategory;
+  summit: { lat: number; lng: number };
 }
 
 export interface HoverState {
-  routeId: "gravel" | "tarmac" | "blended" | null;
+  routeId: string | null; // variant id or "blended"
   point: ElevationPoint | null;
   source: "map" | "chart" | null;
 }
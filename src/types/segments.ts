@@ -1,19 +1,38 @@
+import type {
+  Climb,
+  OvernightStop,
+  SurfaceBreakdown,
+  SurfaceType,
+} from "./route";
+
+// Where a segment starts or ends on its parent route track
+export interface SegmentJunction {
+  coordinates: [number, number, number]; // exact point, may fall between track points
+  distanceKm: number; // along the parent track
+}
+
+// One variant's version of a segment. The geometry is not copied: it is
+// the start junction, the track points [startIndex, endIndex) of the
+// parent route, then the end junction (see getSegmentCoordinates).
 export interface SegmentStats {
-  coordinates: [number, number, number][]; // [lng, lat, elevation]
+  start: SegmentJunction;
+  end: SegmentJunction;
+  startIndex: number; // first track point after the start junction
+  endIndex: number; // exclusive
   distanceKm: number;
   elevationGain: number;
   elevationLoss: number;
+  movingTime?: number; // hours, with the selected riding settings
 }
 
 export interface Segment {
   id: string;
   type: "shared" | "diverging";
   order: number;
-  gravel: SegmentStats;
-  tarmac: SegmentStats;
+  variants: Record<string, SegmentStats>; // variant id -> stats
 }
 
-export type RouteChoice = "gravel" | "tarmac";
+export type RouteChoice = string; // variant id
 
 export interface BlendedRouteState {
   isBuilding: boolean;
@@ -22,16 +41,44 @@ export interface BlendedRouteState {
   selectedSegmentId: string | null; // for popup
 }
 
+// Where one segment's chosen variant lies in the blended route
+export interface BlendedRouteSection {
+  segmentId: string;
+  variantId: string;
+  startIndex: number; // into the blended coordinates, inclusive
+  endIndex: number; // inclusive
+  trackOffset: number; // blended index + offset = parent track index, for track points
+}
+
 export interface BlendedRoute {
   coordinates: [number, number, number][];
+  distances: number[]; // cumulative km at each coordinate
+  sections: BlendedRouteSection[];
+  surfaces?: SurfaceType[]; // per coordinate, when the routes have surface data
+  climbs: Climb[];
   distanceKm: number;
   elevationGain: number;
   elevationLoss: number;
   selections: Map<string, RouteChoice>;
 }
 
+// A day off the bike at an overnight stop: resting, or taking a shuttle
+export type NonRidingDayKind = "rest" | "shuttle";
+
+export interface NonRidingDay {
+  afterDay: number; // riding day it follows, 1 for after the first
+  kind: NonRidingDayKind;
+}
+
+// One day of the trip. Non-riding days sit at the end of the riding day
+// before them, with no distance or climbing.
 export interface DaySplit {
-  dayNumber: number;
+  dayNumber: number; // day of the trip, counting non-riding days
+  ridingDayNumber: number; // riding days only; non-riding days repeat the one before
+  nonRiding?: NonRidingDayKind;
+  date?: string; // YYYY-MM-DD, when the trip has a start date
+  sunrise?: Date; // at the day's start, when dated
+  sunset?: Date; // at the day's end, when dated
   startPercentage: number;
   endPercentage: number;
   startCoordIndex: number;
@@ -39,6 +86,9 @@ export interface DaySplit {
   distanceKm: number;
   elevationGain: number;
   elevationLoss: number;
+  movingTime?: number; // hours, with the selected riding settings
+  surfaces?: SurfaceBreakdown;
+  endStop?: OvernightStop; // where the day ends, when it's at a known place
 }
 
 export interface Breakpoint {
@@ -46,4 +96,5 @@ export interface Breakpoint {
   coordIndex: number;
   coordinates: [number, number, number];
   cumulativeDistanceKm: number;
+  stop?: OvernightStop; // the place the night is spent, if there's one here
 }
@@ -3,4 +3,11 @@ declare module '@mapbox/togeojson' {
   
   export function gpx(doc: Document): FeatureCollection;
   export function kml(doc: Document): FeatureCollection;
+
+  // CommonJS module: the default import is the whole module in every runtime
+  const toGeoJSON: {
+    gpx: typeof gpx;
+    kml: typeof kml;
+  };
+  export default toGeoJSON;
 }
@@ -0,0 +1,82 @@
+/**
+ * Zoomed distance ranges for the elevation charts. A chart shows its
+ * range downsampled to the same number of points as the full route, so
+ * zooming in brings out detail instead of just stretching the samples.
+ */
+
+import { findIndexAtDistance, type LngLat } from './geo';
+import { downsampleIndices } from './routeData';
+
+// Distances along a route in km
+export interface DistanceRange {
+  start: number;
+  end: number;
+}
+
+// West, south, east and north edges of a map view in degrees
+export type MapBounds = [number, number, number, number];
+
+// Narrowest range a chart zooms to
+export const MIN_ZOOM_KM = 1;
+
+/**
+ * Keep a range within a route of the given length and at least
+ * MIN_ZOOM_KM wide. A range pushed past an end keeps its width, so panning
+ * stops at the ends rather than shrinking.
+ */
+export function clampRange(range: DistanceRange, total: number): DistanceRange {
+  const width = Math.min(total, Math.max(MIN_ZOOM_KM, range.end - range.start));
+  const start = Math.max(0, Math.min(total - width, range.start));
+  return { start, end: start + width };
+}
+
+/**
+ * Whether a range covers the whole route, give or take rounding
+ */
+export function isFullRange(range: DistanceRange, total: number): boolean {
+  return range.start <= 0.001 && range.end >= total - 0.001;
+}
+
+/**
+ * Point indices to chart for a range of a line: its points from the last
+ * one at or before the start to the first one at or past the end,
+ * downsampled to at most about maxPoints. The whole line without a range.
+ */
+export function getRangeIndices(
+  distances: number[],
+  range: DistanceRange | null,
+  maxPoints: number
+): number[] {
+  if (distances.length === 0) return [];
+
+  let first = 0;
+  let last = distances.length - 1;
+  if (range) {
+    first = findIndexAtDistance(distances, range.start);
+    last = findIndexAtDistance(distances, range.end);
+    if (distances[last] < range.end && last < distances.length - 1) last++;
+  }
+
+  return downsampleIndices(last - first + 1, maxPoints).map((i) => first + i);
+}
+
+/**
+ * Range of a line shown in a map view: from the first to the last of its
+ * points inside the bounds. Null when none are.
+ */
+export function getVisibleRange(
+  line: LngLat[],
+  distances: number[],
+  bounds: MapBounds
+): DistanceRange | null {
+  const [west, south, east, north] = bounds;
+  const isInside = ([lng, lat]: LngLat) =>
+    lng >= west && lng <= east && lat >= south && lat <= north;
+
+  const first = line.findIndex(isInside);
+  if (first === -1) return null;
+  let last = line.length - 1;
+  while (last > first && !isInside(line[last])) last--;
+
+  return { start: distances[first], end: distances[last] };
+}
@@ -0,0 +1,65 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import type { ElevationPoint } from '../types/route';
+import { detectClimbs, getClimbCategory } from './climbs';
+
+const STEP_KM = 0.05;
+
+/**
+ * A profile with 2 km of flat, a steady climb of the given length and
+ * grade, and 2 km of flat at the top, with a point every 50 m
+ */
+function makeProfile(climbKm: number, gradePercent: number): ElevationPoint[] {
+  const totalKm = 2 + climbKm + 2;
+  return Array.from({ length: Math.round(totalKm / STEP_KM) + 1 }, (_, i) => {
+    const distance = i * STEP_KM;
+    const climbed = Math.min(Math.max(distance - 2, 0), climbKm);
+    return {
+      distance,
+      elevation: 100 + climbed * 10 * gradePercent,
+      lat: 45.88 + distance / 111,
+      lng: 10.84,
+      grade: 0,
+    };
+  });
+}
+
+describe('getClimbCategory', () => {
+  it('uses the length x grade score thresholds', () => {
+    assert.equal(getClimbCategory(7999), null);
+    assert.equal(getClimbCategory(8000), '4');
+    assert.equal(getClimbCategory(16000), '3');
+    assert.equal(getClimbCategory(32000), '2');
+    assert.equal(getClimbCategory(64000), '1');
+    assert.equal(getClimbCategory(79999), '1');
+    assert.equal(getClimbCategory(80000), 'HC');
+  });
+});
+
+describe('detectClimbs', () => {
+  it('finds a steady climb and trims the flats around it', () => {
+    const [climb, ...rest] = detectClimbs(makeProfile(5, 7));
+
+    assert.equal(rest.length, 0);
+    assert.equal(climb.category, '2');
+    assert.ok(Math.abs(climb.startDistance - 2) < 0.3, `starts at ${climb.startDistance}`);
+    assert.ok(Math.abs(climb.endDistance - 7) < 0.3, `ends at ${climb.endDistance}`);
+    assert.ok(Math.abs(climb.averageGrade - 7) < 0.5, `averages ${climb.averageGrade}%`);
+    assert.ok(Math.abs(climb.elevationGain - 350) < 20, `gains ${climb.elevationGain} m`);
+  });
+
+  it('categorizes by length and grade', () => {
+    const categoryOf = (climbKm: number, gradePercent: number) =>
+      detectClimbs(makeProfile(climbKm, gradePercent))[0]?.category ?? null;
+
+    assert.equal(categoryOf(1, 6), null);
+    assert.equal(categoryOf(2, 5), '4');
+    assert.equal(categoryOf(3, 6), '3');
+    assert.equal(categoryOf(8, 9), '1');
+    assert.equal(categoryOf(10, 9), 'HC');
+  });
+
+  it('ignores long rises that are too gentle', () => {
+    assert.deepEqual(detectClimbs(makeProfile(20, 2)), []);
+  });
+});
@@ -0,0 +1,177 @@
+/**
+ * Climb detection on elevation profiles.
+ *
+ * Elevations are cleaned like the smoothed climbing method, then scanned
+ * for rises from a low point (the foot) to a high point (the summit) that
+ * aren't interrupted by a dip deeper than a tolerance growing with the
+ * climb. Flat lead-ins and summit plateaus are trimmed off, and what's left
+ * counts as a climb if it's steep and long enough.
+ *
+ * Categories follow the common length x grade score: a 1 km climb at 8%
+ * scores 8000, the minimum for category 4.
+ */
+
+import type { Climb, ClimbCategory, ElevationPoint } from '../types/route';
+import { CLIMBING_METHODS, processElevations } from './elevation';
+
+// Dips up to this deep (or this fraction of the gain so far) don't end a climb
+const MAX_DIP_METERS = 20;
+const MAX_DIP_FRACTION = 0.05;
+
+// Lead-ins and plateaus gaining less than this grade over the window are trimmed
+const TRIM_WINDOW_METERS = 200;
+const TRIM_MIN_GRADE = 2; // percent
+
+// Steepest stretch length for the max grade
+const MAX_GRADE_WINDOW_METERS = 200;
+
+const MIN_AVERAGE_GRADE = 3; // percent
+
+// Minimum score per category, hardest first
+export const CLIMB_CATEGORIES: { category: ClimbCategory; minScore: number; color: string }[] = [
+  { category: 'HC', minScore: 80000, color: '#8E44AD' },
+  { category: '1', minScore: 64000, color: '#C0392B' },
+  { category: '2', minScore: 32000, color: '#E74C3C' },
+  { category: '3', minScore: 16000, color: '#E67E22' },
+  { category: '4', minScore: 8000, color: '#F1C40F' },
+];
+
+/**
+ * Category of a climb score, or null below category 4
+ */
+export function getClimbCategory(score: number): ClimbCategory | null {
+  return CLIMB_CATEGORIES.find((c) => score >= c.minScore)?.category ?? null;
+}
+
+/**
+ * Display color of a climb category
+ */
+export function getClimbColor(category: ClimbCategory): string {
+  return CLIMB_CATEGORIES.find((c) => c.category === category)!.color;
+}
+
+/**
+ * Steepest grade (percent) over any stretch of the window length between
+ * two profile indices
+ */
+function steepestGrade(
+  elevations: number[],
+  distances: number[],
+  start: number,
+  end: number
+): number {
+  const windowKm = MAX_GRADE_WINDOW_METERS / 1000;
+  let maxGrade = 0;
+  let from = start;
+  for (let to = start + 1; to <= end; to++) {
+    while (from + 1 < to && distances[to] - distances[from + 1] >= windowKm) from++;
+    const meters = (distances[to] - distances[from]) * 1000;
+    // Shorter stretches only count once they span most of the window
+    if (meters >= MAX_GRADE_WINDOW_METERS / 2) {
+      maxGrade = Math.max(maxGrade, ((elevations[to] - elevations[from]) / meters) * 100);
+    }
+  }
+  return maxGrade;
+}
+
+/**
+ * Walk from start towards end (either way) past flat ground, to the first
+ * index the climb rises at least TRIM_MIN_GRADE over the next window from
+ */
+function trimFlat(elevations: number[], distances: number[], start: number, end: number): number {
+  const step = end > start ? 1 : -1;
+  const windowKm = TRIM_WINDOW_METERS / 1000;
+  const minGain = (TRIM_WINDOW_METERS * TRIM_MIN_GRADE) / 100;
+
+  let i = start;
+  while (i !== end) {
+    // Point about a window further along
+    let j = i;
+    while (j !== end && Math.abs(distances[j] - distances[i]) < windowKm) j += step;
+    const gain = (elevations[j] - elevations[i]) * step;
+    if (gain >= minGain) break;
+    i += step;
+  }
+  return i;
+}
+
+/**
+ * Build a climb between two profile indices if it qualifies
+ */
+function buildClimb(
+  profile: ElevationPoint[],
+  elevations: number[],
+  distances: number[],
+  foot: number,
+  summit: number
+): Climb | null {
+  const start = trimFlat(elevations, distances, foot, summit);
+  const end = trimFlat(elevations, distances, summit, start);
+  if (end <= start) return null;
+
+  const length = distances[end] - distances[start];
+  const elevationGain = elevations[end] - elevations[start];
+  const averageGrade = length > 0 ? (elevationGain / (length * 1000)) * 100 : 0;
+  const score = length * 1000 * averageGrade;
+  const category = getClimbCategory(score);
+  if (!category || averageGrade < MIN_AVERAGE_GRADE) return null;
+
+  return {
+    startIndex: start,
+    endIndex: end,
+    startDistance: distances[start],
+    endDistance: distances[end],
+    length,
+    startElevation: elevations[start],
+    summitElevation: elevations[end],
+    elevationGain,
+    averageGrade,
+    maxGrade: Math.max(averageGrade, steepestGrade(elevations, distances, start, end)),
+    score,
+    category,
+    summit: { lat: profile[end].lat, lng: profile[end].lng },
+  };
+}
+
+/**
+ * Detect the categorized climbs of an elevation profile, in route order
+ */
+export function detectClimbs(profile: ElevationPoint[]): Climb[] {
+  if (profile.length < 2) return [];
+
+  const distances = profile.map((p) => p.distance);
+  const elevations = processElevations(
+    profile.map((p) => p.elevation),
+    distances,
+    CLIMBING_METHODS.smoothed.settings
+  );
+
+  const climbs: Climb[] = [];
+  const addClimb = (foot: number, summit: number) => {
+    const climb = summit > foot && buildClimb(profile, elevations, distances, foot, summit);
+    if (climb) climbs.push(climb);
+  };
+
+  let foot = 0;
+  let summit = 0;
+  for (let i = 1; i < elevations.length; i++) {
+    const gain = elevations[summit] - elevations[foot];
+    if (elevations[i] > elevations[summit]) {
+      summit = i;
+    } else if (
+      elevations[summit] - elevations[i] >
+      Math.max(MAX_DIP_METERS, gain * MAX_DIP_FRACTION)
+    ) {
+      addClimb(foot, summit);
+      foot = i;
+      summit = i;
+    }
+    if (elevations[i] < elevations[foot]) {
+      foot = i;
+      summit = i;
+    }
+  }
+  addClimb(foot, summit);
+
+  return climbs;
+}
@@ -0,0 +1,101 @@
+/**
+ * Course positions: a shared distance axis for routes that take different
+ * ways between the same junctions. Each segment spans the reference
+ * variant's length on the course axis, and every route is stretched
+ * linearly between the junctions it passes, so the routes line up again
+ * after each divergence.
+ */
+
+import type { BlendedRoute, Segment } from '../types/segments';
+
+// A route distance (km) and the course position (km) it maps to
+export interface CourseAnchor {
+  distance: number;
+  course: number;
+}
+
+/**
+ * Course position of each segment boundary: the running sum of the
+ * segment lengths on the reference variant (or the segment's first
+ * variant, where the reference doesn't have it)
+ */
+function getCourseBoundaries(segments: Segment[], referenceId: string): number[] {
+  const boundaries = [0];
+  segments.forEach((segment) => {
+    const stats = segment.variants[referenceId] ?? Object.values(segment.variants)[0];
+    const length = stats ? stats.end.distanceKm - stats.start.distanceKm : 0;
+    boundaries.push(boundaries[boundaries.length - 1] + length);
+  });
+  return boundaries;
+}
+
+/**
+ * Anchors of a variant's route: its junctions and their course positions.
+ * Empty for routes no segment references, such as uploads.
+ */
+export function getRouteCourseAnchors(
+  segments: Segment[],
+  routeId: string,
+  referenceId: string
+): CourseAnchor[] {
+  const boundaries = getCourseBoundaries(segments, referenceId);
+  const anchors: CourseAnchor[] = [];
+  segments.forEach((segment, i) => {
+    const stats = segment.variants[routeId];
+    if (!stats) return;
+    anchors.push(
+      { distance: stats.start.distanceKm, course: boundaries[i] },
+      { distance: stats.end.distanceKm, course: boundaries[i + 1] }
+    );
+  });
+  return anchors;
+}
+
+/**
+ * Anchors of the blended route, from the segment sections it's made of
+ */
+export function getBlendedCourseAnchors(
+  blendedRoute: BlendedRoute,
+  segments: Segment[],
+  referenceId: string
+): CourseAnchor[] {
+  const boundaries = getCourseBoundaries(segments, referenceId);
+  const segmentIndex = new Map(segments.map((segment, i) => [segment.id, i]));
+  const anchors: CourseAnchor[] = [];
+  blendedRoute.sections.forEach((section) => {
+    const i = segmentIndex.get(section.segmentId);
+    if (i === undefined) return;
+    anchors.push(
+      { distance: blendedRoute.distances[section.startIndex], course: boundaries[i] },
+      { distance: blendedRoute.distances[section.endIndex], course: boundaries[i + 1] }
+    );
+  });
+  return anchors;
+}
+
+/**
+ * Map between route distance and course position through the anchors,
+ * linearly between them and one to one beyond the first and last. Without
+ * anchors the value maps to itself.
+ */
+export function mapCoursePosition(
+  anchors: CourseAnchor[],
+  value: number,
+  from: keyof CourseAnchor
+): number {
+  const to: keyof CourseAnchor = from === 'distance' ? 'course' : 'distance';
+  if (anchors.length === 0) return value;
+
+  const first = anchors[0];
+  const last = anchors[anchors.length - 1];
+  if (value <= first[from]) return first[to] + (value - first[from]);
+  if (value >= last[from]) return last[to] + (value - last[from]);
+
+  let i = 0;
+  while (i + 2 < anchors.length && anchors[i + 1][from] < value) i++;
+  const a = anchors[i];
+  const b = anchors[i + 1];
+  const span = b[from] - a[from];
+  const t = span > 0 ? (value - a[from]) / span : 0;
+  return a[to] + t * (b[to] - a[to]);
+}
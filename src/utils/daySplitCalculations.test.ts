@@ -0,0 +1,111 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import type { BlendedRoute } from '../types/segments';
+import { balanceBreakpoints, generateDaySplits } from './daySplitCalculations';
+import { CLIMBING_METHODS } from './elevation';
+import { calculateCumulativeDistances } from './geo';
+import { findStopsAlongRoute, snapBreakpoints } from './overnightStops';
+
+const settings = CLIMBING_METHODS.raw.settings;
+
+/**
+ * A flat blended route through the given points, heading north from
+ * Riva del Garda
+ */
+function makeRoute(pointCount: number, stepDegrees = 0.01): BlendedRoute {
+  const coordinates = Array.from(
+    { length: pointCount },
+    (_, i): [number, number, number] => [10.84, 45.88 + i * stepDegrees, 70]
+  );
+  const distances = calculateCumulativeDistances(coordinates);
+  return {
+    coordinates,
+    distances,
+    sections: [],
+    climbs: [],
+    distanceKm: distances[distances.length - 1],
+    elevationGain: 0,
+    elevationLoss: 0,
+    selections: new Map(),
+  };
+}
+
+describe('balanceBreakpoints', () => {
+  it('splits a route into evenly sized days', () => {
+    const breakpoints = balanceBreakpoints(makeRoute(101), 4, 'distance', settings, []);
+
+    assert.ok(breakpoints);
+    assert.equal(breakpoints.length, 3);
+    breakpoints.forEach((breakpoint, i) => {
+      assert.ok(Math.abs(breakpoint - (i + 1) * 25) < 2, `breakpoint ${breakpoint}`);
+    });
+  });
+
+  it('returns null when the route has too few points for that many days', () => {
+    assert.equal(balanceBreakpoints(makeRoute(4), 6, 'distance', settings, []), null);
+  });
+
+  it('returns null when the caps can\'t be met', () => {
+    const route = makeRoute(101);
+    const caps = { distanceKm: route.distanceKm / 5 };
+
+    assert.equal(balanceBreakpoints(route, 3, 'distance', settings, [], caps), null);
+  });
+
+  it('ends the days at stops, so snapping keeps a balanced split', () => {
+    const route = makeRoute(101);
+    const routeStops = findStopsAlongRoute(
+      route.coordinates,
+      route.distances,
+      [20.3, 27.6, 41.2, 55.5, 62.8, 76.4].map((offset, i) => ({
+        name: `Town ${i + 1}`,
+        kind: 'town' as const,
+        lat: 45.88 + offset / 100,
+        lng: 10.845,
+      }))
+    );
+    const stopDistances = routeStops.map((routeStop) => routeStop.distanceKm);
+    const snap = (breakpoints: number[]) =>
+      snapBreakpoints(breakpoints, routeStops, route.distanceKm);
+
+    const unsnapped = balanceBreakpoints(route, 4, 'distance', settings, []);
+    assert.ok(unsnapped);
+    assert.notDeepEqual(snap(unsnapped), unsnapped);
+
+    const balanced = balanceBreakpoints(route, 4, 'distance', settings, [], {}, stopDistances);
+    assert.ok(balanced);
+    assert.equal(balanced.length, 3);
+    assert.deepEqual(snap(balanced), balanced);
+    balanced.forEach((breakpoint, i) => {
+      assert.ok(Math.abs(breakpoint - (i + 1) * 25) < 6, `breakpoint ${breakpoint}`);
+    });
+  });
+
+  it('returns null when there are too few stops for that many days', () => {
+    const route = makeRoute(101);
+
+    assert.equal(balanceBreakpoints(route, 4, 'distance', settings, [], {}, [50]), null);
+  });
+
+  it('needs riding times to balance or cap by time', () => {
+    const route = makeRoute(101);
+
+    assert.throws(() => balanceBreakpoints(route, 3, 'time', settings, []));
+    assert.throws(() =>
+      balanceBreakpoints(route, 3, 'distance', settings, [], { movingTime: 2 })
+    );
+  });
+});
+
+describe('generateDaySplits', () => {
+  it('splits at the breakpoints in order without reordering them', () => {
+    const breakpoints = [75, 25];
+    const days = generateDaySplits(makeRoute(101), breakpoints, settings);
+
+    assert.deepEqual(breakpoints, [75, 25]);
+    assert.deepEqual(
+      days.map((day) => Math.round(day.distanceKm / days[0].distanceKm)),
+      [1, 2, 1]
+    );
+  });
+});
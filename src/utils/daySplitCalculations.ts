@@ -1,34 +1,18 @@
-import type { BlendedRoute, DaySplit, Breakpoint } from '../types/segments';
-
-/**
- * Calculate cumulative distances for each coordinate point using Haversine formula
- */
-export function calculateCumulativeDistances(
-  coordinates: [number, number, number][]
-): number[] {
-  const distances: number[] = [0];
-
-  for (let i = 1; i < coordinates.length; i++) {
-    const [lng1, lat1] = coordinates[i - 1];
-    const [lng2, lat2] = coordinates[i];
-
-    const R = 6371; // Earth's radius in km
-    const dLat = ((lat2 - lat1) * Math.PI) / 180;
-    const dLng = ((lng2 - lng1) * Math.PI) / 180;
-    const a =
-      Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-      Math.cos((lat1 * Math.PI) / 180) *
-        Math.cos((lat2 * Math.PI) / 180) *
-        Math.sin(dLng / 2) *
-        Math.sin(dLng / 2);
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-    const segmentDistance = R * c;
-
-    distances.push(distances[i - 1] + segmentDistance);
-  }
-
-  return distances;
-}
+import type {
+  BlendedRoute,
+  DaySplit,
+  Breakpoint,
+  NonRidingDay,
+  NonRidingDayKind,
+} from '../types/segments';
+import {
+  calculateElevationChange,
+  processElevations,
+  type ElevationSettings,
+} from './elevation';
+import { findIndexAtDistance } from './geo';
+import { calculateSurfaceBreakdown } from './surface';
+import { getSunTimes } from './sunTimes';
 
 /**
  * Convert a percentage (0-100) to coordinate index using cumulative distances
@@ -69,58 +53,49 @@ export function percentageToCoordIndex(
 }
 
 /**
- * Calculate stats for a segment of coordinates
+ * Calculate stats for a segment of coordinates, measured along the route's
+ * cumulative distances
  */
 export function calculateSegmentStats(
   coordinates: [number, number, number][],
+  cumulativeDistances: number[],
   startIndex: number,
-  endIndex: number
+  endIndex: number,
+  settings: ElevationSettings
 ): { distanceKm: number; elevationGain: number; elevationLoss: number } {
-  let distanceKm = 0;
-  let elevationGain = 0;
-  let elevationLoss = 0;
-
-  for (let i = startIndex + 1; i <= endIndex; i++) {
-    const [lng1, lat1, elev1] = coordinates[i - 1];
-    const [lng2, lat2, elev2] = coordinates[i];
-
-    // Calculate distance using Haversine
-    const R = 6371;
-    const dLat = ((lat2 - lat1) * Math.PI) / 180;
-    const dLng = ((lng2 - lng1) * Math.PI) / 180;
-    const a =
-      Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-      Math.cos((lat1 * Math.PI) / 180) *
-        Math.cos((lat2 * Math.PI) / 180) *
-        Math.sin(dLng / 2) *
-        Math.sin(dLng / 2);
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-    distanceKm += R * c;
-
-    // Calculate elevation change
-    const elevDiff = elev2 - elev1;
-    if (elevDiff > 0) {
-      elevationGain += elevDiff;
-    } else {
-      elevationLoss += Math.abs(elevDiff);
-    }
-  }
+  const section = coordinates.slice(startIndex, endIndex + 1);
+  const distances = cumulativeDistances
+    .slice(startIndex, endIndex + 1)
+    .map((distance) => distance - cumulativeDistances[startIndex]);
+  const distanceKm = distances.length > 0 ? distances[distances.length - 1] : 0;
+
+  const { elevationGain, elevationLoss } = calculateElevationChange(
+    section.map(([, , elevation]) => elevation),
+    distances,
+    settings
+  );
 
   return { distanceKm, elevationGain, elevationLoss };
 }
 
 /**
- * Generate day splits from breakpoint percentages
+ * Generate day splits from breakpoint percentages. Moving times come from
+ * the route's cumulative riding times, when given.
  */
 export function generateDaySplits(
   blendedRoute: BlendedRoute,
-  breakpoints: number[]
+  breakpoints: number[],
+  settings: ElevationSettings,
+  ridingTimes?: number[]
 ): DaySplit[] {
-  const { coordinates, distanceKm: totalDistance } = blendedRoute;
-  const cumulativeDistances = calculateCumulativeDistances(coordinates);
+  const {
+    coordinates,
+    distances: cumulativeDistances,
+    distanceKm: totalDistance,
+  } = blendedRoute;
 
   // Create percentage boundaries: [0, ...breakpoints, 100]
-  const boundaries = [0, ...breakpoints.sort((a, b) => a - b), 100];
+  const boundaries = [0, ...[...breakpoints].sort((a, b) => a - b), 100];
   const daySplits: DaySplit[] = [];
 
   for (let i = 0; i < boundaries.length - 1; i++) {
@@ -138,15 +113,30 @@ export function generateDaySplits(
       totalDistance
     );
 
-    const stats = calculateSegmentStats(coordinates, startCoordIndex, endCoordIndex);
+    const stats = calculateSegmentStats(
+      coordinates,
+      cumulativeDistances,
+      startCoordIndex,
+      endCoordIndex,
+      settings
+    );
+    const surfaces =
+      blendedRoute.surfaces &&
+      calculateSurfaceBreakdown(
+        blendedRoute.surfaces.slice(startCoordIndex, endCoordIndex + 1),
+        cumulativeDistances.slice(startCoordIndex, endCoordIndex + 1)
+      );
 
     daySplits.push({
       dayNumber: i + 1,
+      ridingDayNumber: i + 1,
       startPercentage,
       endPercentage,
       startCoordIndex,
       endCoordIndex,
       ...stats,
+      movingTime: ridingTimes && ridingTimes[endCoordIndex] - ridingTimes[startCoordIndex],
+      surfaces,
     });
   }
 
@@ -160,8 +150,11 @@ export function getBreakpointCoordinates(
   blendedRoute: BlendedRoute,
   breakpoints: number[]
 ): Breakpoint[] {
-  const { coordinates, distanceKm: totalDistance } = blendedRoute;
-  const cumulativeDistances = calculateCumulativeDistances(coordinates);
+  const {
+    coordinates,
+    distances: cumulativeDistances,
+    distanceKm: totalDistance,
+  } = blendedRoute;
 
   return breakpoints.map((percentage) => {
     const coordIndex = percentageToCoordIndex(
@@ -178,3 +171,305 @@ export function getBreakpointCoordinates(
     };
   });
 }
+
+// Non-riding day labels, and the letters marking them after their
+// breakpoint in the URL's days parameter
+export const NON_RIDING_DAYS: Record<NonRidingDayKind, { label: string; code: string }> = {
+  rest: { label: 'Rest day', code: 'r' },
+  shuttle: { label: 'Shuttle', code: 's' },
+};
+
+/**
+ * Date (YYYY-MM-DD) of a day of a trip starting on startDate
+ */
+export function getTripDate(startDate: string, dayNumber: number): string {
+  const date = new Date(`${startDate}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + dayNumber - 1);
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Format a trip date (YYYY-MM-DD) as a short weekday and date in the
+ * user's locale, e.g. "Mon, Jun 1"
+ */
+export function formatTripDate(date: string): string {
+  return new Date(`${date}T00:00:00Z`).toLocaleDateString(undefined, {
+    weekday: 'short',
+    day: 'numeric',
+    month: 'short',
+    timeZone: 'UTC',
+  });
+}
+
+/**
+ * Put the non-riding days between the riding days they follow, numbering
+ * the days of the trip and dating them from the start date, if there is
+ * one. Non-riding days after the last riding day are left out.
+ */
+export function addNonRidingDays(
+  ridingDays: DaySplit[],
+  nonRidingDays: NonRidingDay[],
+  startDate: string | null
+): DaySplit[] {
+  const days: DaySplit[] = [];
+  const addDay = (day: DaySplit) => {
+    const dayNumber = days.length + 1;
+    days.push({
+      ...day,
+      dayNumber,
+      date: startDate ? getTripDate(startDate, dayNumber) : undefined,
+    });
+  };
+
+  ridingDays.forEach((day, i) => {
+    addDay(day);
+    if (i === ridingDays.length - 1) return;
+
+    nonRidingDays
+      .filter(({ afterDay }) => afterDay === day.ridingDayNumber)
+      .forEach(({ kind }) =>
+        addDay({
+          dayNumber: 0,
+          ridingDayNumber: day.ridingDayNumber,
+          nonRiding: kind,
+          startPercentage: day.endPercentage,
+          endPercentage: day.endPercentage,
+          startCoordIndex: day.endCoordIndex,
+          endCoordIndex: day.endCoordIndex,
+          distanceKm: 0,
+          elevationGain: 0,
+          elevationLoss: 0,
+          endStop: day.endStop,
+        })
+      );
+  });
+
+  return days;
+}
+
+/**
+ * Add sunrise at each dated day's start and sunset at its end. Days where
+ * the sun doesn't rise or set are left without.
+ */
+export function addSunTimes(
+  days: DaySplit[],
+  coordinates: [number, number, number][]
+): DaySplit[] {
+  return days.map((day) => {
+    if (!day.date) return day;
+    const [startLng, startLat] = coordinates[day.startCoordIndex];
+    const [endLng, endLat] = coordinates[day.endCoordIndex];
+    return {
+      ...day,
+      sunrise: getSunTimes(day.date, startLat, startLng)?.sunrise,
+      sunset: getSunTimes(day.date, endLat, endLng)?.sunset,
+    };
+  });
+}
+
+// What balanced days have equal amounts of
+export type BalanceMetric = 'distance' | 'elevation' | 'time' | 'effort';
+
+export const BALANCE_METRICS: Record<BalanceMetric, { label: string; description: string }> = {
+  distance: { label: 'Distance', description: 'Equal distance per day' },
+  elevation: { label: 'Climbing', description: 'Equal elevation gain per day' },
+  time: { label: 'Time', description: 'Equal estimated moving time per day' },
+  effort: {
+    label: 'Effort',
+    description: 'Equal distance plus 1 km for every 25 m climbed per day',
+  },
+};
+
+// Meters of climbing that count as one km in the effort score
+const EFFORT_CLIMB_METERS_PER_KM = 25;
+
+// Upper limits for any one day; unset limits don't apply
+export interface DayCaps {
+  distanceKm?: number;
+  elevationGain?: number; // meters
+  movingTime?: number; // hours
+}
+
+/**
+ * Elevation gain from the start to each point, counted the same way as
+ * calculateElevationChange so a stretch's gain is close to the difference
+ * of its ends'
+ */
+function calculateCumulativeGain(
+  elevations: number[],
+  distances: number[],
+  settings: ElevationSettings
+): number[] {
+  const processed = processElevations(elevations, distances, settings);
+  const gains: number[] = [];
+  let gain = 0;
+  let reference = processed[0] ?? 0;
+
+  processed.forEach((elevation) => {
+    const diff = elevation - reference;
+    if (diff > 0 && diff >= settings.thresholdMeters) {
+      gain += diff;
+      reference = elevation;
+    } else if (diff < 0 && -diff >= settings.thresholdMeters) {
+      reference = elevation;
+    }
+    gains.push(gain);
+  });
+
+  return gains;
+}
+
+/**
+ * Last point a day starting at the given point can reach while the
+ * increase of every cumulative measure stays within its limit, and, when
+ * days may only end at some points (sorted), the last of those
+ */
+function findDayEnd(
+  start: number,
+  limits: { cumulative: number[]; limit: number }[],
+  endPoints: number[] | null
+): number {
+  const reach = Math.min(
+    ...limits.map(({ cumulative, limit }) =>
+      findIndexAtDistance(cumulative, cumulative[start] + limit)
+    )
+  );
+  if (!endPoints) return reach;
+  return endPoints.reduce((end, point) => (point > start && point <= reach ? point : end), start);
+}
+
+/**
+ * Day end points when each day goes as far as the limits allow, or null
+ * if the route doesn't fit in the given number of days
+ */
+function fillDays(
+  days: number,
+  limits: { cumulative: number[]; limit: number }[],
+  endPoints: number[] | null
+): number[] | null {
+  const last = limits[0].cumulative.length - 1;
+  const ends: number[] = [];
+  let start = 0;
+
+  while (start < last) {
+    if (ends.length === days) return null;
+    const end = findDayEnd(start, limits, endPoints);
+    if (end <= start) return null;
+    ends.push(end);
+    start = end;
+  }
+
+  return ends;
+}
+
+/**
+ * Place breakpoints so the days are as even as possible in the chosen
+ * metric: the smallest daily amount that still fits the route into the
+ * given days, each day riding as far as that amount and the caps allow.
+ * With stop distances (km along the route) given, days only end at those
+ * stops, so snapping leaves the breakpoints where they are.
+ * Returns breakpoint percentages, or null when the caps can't be met in
+ * that many days or the route has too few points (or stops) to split that
+ * often. Balancing or capping by time needs a riding time for every point.
+ */
+export function balanceBreakpoints(
+  blendedRoute: BlendedRoute,
+  days: number,
+  metric: BalanceMetric,
+  settings: ElevationSettings,
+  ridingTimes: number[],
+  caps: DayCaps = {},
+  stopDistances: number[] | null = null
+): number[] | null {
+  const { coordinates, distances, distanceKm: totalDistance } = blendedRoute;
+  if (days <= 1 || coordinates.length < 2 || totalDistance <= 0) return [];
+  if (
+    (metric === 'time' || caps.movingTime !== undefined) &&
+    ridingTimes.length !== distances.length
+  ) {
+    throw new Error('Riding times are needed to balance or cap days by time');
+  }
+
+  const gains = calculateCumulativeGain(
+    coordinates.map(([, , elevation]) => elevation),
+    distances,
+    settings
+  );
+  const measures: Record<BalanceMetric, number[]> = {
+    distance: distances,
+    elevation: gains,
+    time: ridingTimes,
+    effort: distances.map((d, i) => d + gains[i] / EFFORT_CLIMB_METERS_PER_KM),
+  };
+
+  const capLimits = [
+    { cumulative: distances, limit: caps.distanceKm },
+    { cumulative: gains, limit: caps.elevationGain },
+    { cumulative: measures.time, limit: caps.movingTime },
+  ].filter((cap): cap is { cumulative: number[]; limit: number } => cap.limit !== undefined);
+
+  // Days ending at a stop end at the last point before it
+  const last = distances.length - 1;
+  const stopsAtPoints = new Map<number, number>();
+  for (const distanceKm of stopDistances ?? []) {
+    const point = findIndexAtDistance(distances, distanceKm);
+    if (point > 0 && point < last && !stopsAtPoints.has(point)) {
+      stopsAtPoints.set(point, distanceKm);
+    }
+  }
+  const endPoints = stopDistances
+    ? [...[...stopsAtPoints.keys()].sort((a, b) => a - b), last]
+    : null;
+
+  const cumulative = measures[metric];
+  const total = cumulative[cumulative.length - 1];
+  const fill = (limit: number) =>
+    fillDays(days, [{ cumulative, limit }, ...capLimits], endPoints);
+
+  let ends = fill(total);
+  if (!ends) return null;
+
+  // Narrow down the smallest daily amount that still fits
+  let low = total / days;
+  let high = total;
+  for (let i = 0; i < 40 && high - low > total * 1e-6; i++) {
+    const mid = (low + high) / 2;
+    const fitted = fill(mid);
+    if (fitted) {
+      ends = fitted;
+      high = mid;
+    } else {
+      low = mid;
+    }
+  }
+
+  // Fewer days than asked for: split the biggest ones at their middle
+  const boundaries = [0, ...ends];
+  while (boundaries.length - 1 < days) {
+    let widest = 0;
+    for (let d = 1; d < boundaries.length - 1; d++) {
+      const size = (k: number) => cumulative[boundaries[k + 1]] - cumulative[boundaries[k]];
+      if (size(d) > size(widest)) widest = d;
+    }
+    const [start, end] = [boundaries[widest], boundaries[widest + 1]];
+    const halfway = (cumulative[start] + cumulative[end]) / 2;
+    const inside = endPoints?.filter((point) => point > start && point < end);
+    const middle = inside
+      ? inside.reduce(
+          (best, point) =>
+            Math.abs(cumulative[point] - halfway) < Math.abs(cumulative[best] - halfway)
+              ? point
+              : best,
+          inside[0] ?? start
+        )
+      : findIndexAtDistance(cumulative, halfway);
+    if (middle <= start || middle >= end) break;
+    boundaries.splice(widest + 1, 0, middle);
+  }
+  // Too few points left to give every day some of the route
+  if (boundaries.length - 1 < days) return null;
+
+  return boundaries
+    .slice(1, -1)
+    .map((index) => ((stopsAtPoints.get(index) ?? distances[index]) / totalDistance) * 100);
+}
@@ -0,0 +1,194 @@
+/**
+ * Elevation processing shared by route stats, segment stats and day splits
+ * (and the segment analysis script), so every climbing number in the app is
+ * computed the same way.
+ *
+ * GPS and DEM elevation is noisy: summing every positive difference counts
+ * each wobble as climbing. The methods below filter that noise with
+ * optional spike removal, distance-based smoothing and a hysteresis
+ * threshold on gain/loss.
+ */
+
+export type ClimbingMethod = 'raw' | 'threshold' | 'smoothed';
+
+export interface ElevationSettings {
+  method: ClimbingMethod;
+  removeOutliers: boolean; // Replace isolated spikes before anything else
+  smoothingWindowMeters: number; // 0 = no smoothing
+  thresholdMeters: number; // Hysteresis for gain/loss, 0 = sum every change
+}
+
+// Presets offered in the UI
+export const CLIMBING_METHODS: Record<
+  ClimbingMethod,
+  { label: string; description: string; settings: ElevationSettings }
+> = {
+  raw: {
+    label: 'Raw',
+    description: 'Sum of every elevation increase',
+    settings: {
+      method: 'raw',
+      removeOutliers: false,
+      smoothingWindowMeters: 0,
+      thresholdMeters: 0,
+    },
+  },
+  threshold: {
+    label: 'Threshold',
+    description: 'Only count changes of 5 m or more',
+    settings: {
+      method: 'threshold',
+      removeOutliers: false,
+      smoothingWindowMeters: 0,
+      thresholdMeters: 5,
+    },
+  },
+  smoothed: {
+    label: 'Smoothed',
+    description: 'Remove spikes, smooth over 100 m, count changes of 2 m or more',
+    settings: {
+      method: 'smoothed',
+      removeOutliers: true,
+      smoothingWindowMeters: 100,
+      thresholdMeters: 2,
+    },
+  },
+};
+
+export const DEFAULT_CLIMBING_METHOD: ClimbingMethod = 'smoothed';
+
+// A point is a spike if it sits further than this from the line between its
+// neighbours, and further than OUTLIER_MAX_GRADE allows over that distance
+const OUTLIER_MIN_DEVIATION_METERS = 10;
+const OUTLIER_MAX_GRADE = 0.3; // 30%
+
+/**
+ * Fill missing elevations (points recorded without <ele>) from the nearest
+ * earlier known elevation, or the first known one at the start. A line
+ * without any elevation is flat at 0.
+ */
+export function fillMissingElevations(elevations: (number | undefined)[]): number[] {
+  let last = elevations.find((e) => e !== undefined && Number.isFinite(e)) ?? 0;
+  return elevations.map((e) => {
+    if (e !== undefined && Number.isFinite(e)) last = e;
+    return last;
+  });
+}
+
+/**
+ * Replace isolated elevation spikes with the value interpolated from
+ * their neighbours. Distances are cumulative km.
+ */
+export function removeElevationOutliers(
+  elevations: number[],
+  distances: number[]
+): number[] {
+  const result = [...elevations];
+
+  for (let i = 1; i < elevations.length - 1; i++) {
+    const span = (distances[i + 1] - distances[i - 1]) * 1000;
+    const t = span > 0 ? ((distances[i] - distances[i - 1]) * 1000) / span : 0.5;
+    const expected = result[i - 1] + t * (elevations[i + 1] - result[i - 1]);
+    const allowed = Math.max(OUTLIER_MIN_DEVIATION_METERS, (span / 2) * OUTLIER_MAX_GRADE);
+
+    if (Math.abs(elevations[i] - expected) > allowed) {
+      result[i] = expected;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Smooth elevations with a moving average over a distance window
+ * (rather than a point count, so sparse and dense tracks smooth alike).
+ * Distances are cumulative km.
+ */
+export function smoothElevations(
+  elevations: number[],
+  distances: number[],
+  windowMeters: number
+): number[] {
+  if (windowMeters <= 0 || elevations.length < 3) return [...elevations];
+
+  const halfWindowKm = windowMeters / 2000;
+  const smoothed: number[] = [];
+  let start = 0;
+  let end = 0;
+  let sum = 0;
+
+  for (let i = 0; i < elevations.length; i++) {
+    // Grow the window ahead, then shrink it behind
+    while (end < elevations.length && distances[end] - distances[i] <= halfWindowKm) {
+      sum += elevations[end];
+      end++;
+    }
+    while (distances[i] - distances[start] > halfWindowKm) {
+      sum -= elevations[start];
+      start++;
+    }
+    smoothed.push(sum / (end - start));
+  }
+
+  return smoothed;
+}
+
+/**
+ * Sum elevation gain and loss, only counting a change once it reaches the
+ * threshold from the last counted elevation (hysteresis). A threshold of 0
+ * sums every difference.
+ */
+export function sumElevationChange(
+  elevations: number[],
+  thresholdMeters: number
+): { elevationGain: number; elevationLoss: number } {
+  let elevationGain = 0;
+  let elevationLoss = 0;
+  if (elevations.length === 0) return { elevationGain, elevationLoss };
+
+  let reference = elevations[0];
+
+  for (let i = 1; i < elevations.length; i++) {
+    const diff = elevations[i] - reference;
+    if (diff > 0 && diff >= thresholdMeters) {
+      elevationGain += diff;
+      reference = elevations[i];
+    } else if (diff < 0 && -diff >= thresholdMeters) {
+      elevationLoss += -diff;
+      reference = elevations[i];
+    }
+  }
+
+  return { elevationGain, elevationLoss };
+}
+
+/**
+ * Clean elevations according to the settings (outliers, then smoothing)
+ */
+export function processElevations(
+  elevations: number[],
+  distances: number[],
+  settings: ElevationSettings
+): number[] {
+  let processed = elevations;
+  if (settings.removeOutliers) {
+    processed = removeElevationOutliers(processed, distances);
+  }
+  if (settings.smoothingWindowMeters > 0) {
+    processed = smoothElevations(processed, distances, settings.smoothingWindowMeters);
+  }
+  return processed;
+}
+
+/**
+ * Calculate elevation gain and loss with the given settings.
+ * Distances are cumulative km, one per elevation.
+ */
+export function calculateElevationChange(
+  elevations: number[],
+  distances: number[],
+  settings: ElevationSettings
+): { elevationGain: number; elevationLoss: number } {
+  const processed = processElevations(elevations, distances, settings);
+  return sumElevationChange(processed, settings.thresholdMeters);
+}
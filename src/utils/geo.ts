@@ -0,0 +1,152 @@
+/**
+ * Geodesy helpers shared by the app and the segment analysis script, so
+ * every distance is computed the same way. Distances are in km unless the
+ * name says otherwise; coordinates are [lng, lat, ...] like GeoJSON.
+ */
+
+export const EARTH_RADIUS_KM = 6371;
+
+const DEG_TO_RAD = Math.PI / 180;
+const RAD_TO_DEG = 180 / Math.PI;
+
+// [lng, lat] with any trailing values (elevation) ignored
+export type LngLat = readonly number[];
+
+/**
+ * Calculate the distance between two coordinates using the Haversine formula
+ */
+export function haversineDistance(
+  lat1: number,
+  lon1: number,
+  lat2: number,
+  lon2: number
+): number {
+  const dLat = (lat2 - lat1) * DEG_TO_RAD;
+  const dLon = (lon2 - lon1) * DEG_TO_RAD;
+  const a =
+    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+    Math.cos(lat1 * DEG_TO_RAD) *
+      Math.cos(lat2 * DEG_TO_RAD) *
+      Math.sin(dLon / 2) *
+      Math.sin(dLon / 2);
+  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+  return EARTH_RADIUS_KM * c;
+}
+
+/**
+ * Haversine distance between two [lng, lat] positions
+ */
+export function positionDistance(a: LngLat, b: LngLat): number {
+  return haversineDistance(a[1], a[0], b[1], b[0]);
+}
+
+/**
+ * Initial bearing from one position to another, in degrees from north (0-360)
+ */
+export function bearing(from: LngLat, to: LngLat): number {
+  const lat1 = from[1] * DEG_TO_RAD;
+  const lat2 = to[1] * DEG_TO_RAD;
+  const dLon = (to[0] - from[0]) * DEG_TO_RAD;
+  const y = Math.sin(dLon) * Math.cos(lat2);
+  const x =
+    Math.cos(lat1) * Math.sin(lat2) -
+    Math.sin(lat1) * Math.cos(lat2) * Math.cos(dLon);
+  return (Math.atan2(y, x) * RAD_TO_DEG + 360) % 360;
+}
+
+/**
+ * Calculate cumulative distances for each position of a polyline. The step
+ * to each of the gap indices bridges a gap in the line and adds nothing.
+ */
+export function calculateCumulativeDistances(
+  line: LngLat[],
+  gapIndices?: ReadonlySet<number>
+): number[] {
+  const distances: number[] = line.length > 0 ? [0] : [];
+  for (let i = 1; i < line.length; i++) {
+    const step = gapIndices?.has(i) ? 0 : positionDistance(line[i - 1], line[i]);
+    distances.push(distances[i - 1] + step);
+  }
+  return distances;
+}
+
+/**
+ * Index of the last cumulative distance at or before the target
+ * (binary search; clamps to the ends)
+ */
+export function findIndexAtDistance(
+  cumulativeDistances: number[],
+  targetDistance: number
+): number {
+  let left = 0;
+  let right = cumulativeDistances.length - 1;
+  while (left < right) {
+    const mid = Math.ceil((left + right) / 2);
+    if (cumulativeDistances[mid] <= targetDistance) {
+      left = mid;
+    } else {
+      right = mid - 1;
+    }
+  }
+  return left;
+}
+
+/**
+ * Interpolate the position at a distance along a polyline. All values of
+ * the positions (lng, lat, elevation, ...) are interpolated linearly.
+ */
+export function interpolateAlongLine(
+  line: LngLat[],
+  cumulativeDistances: number[],
+  targetDistance: number
+): number[] {
+  if (line.length === 0) return [];
+  const i = findIndexAtDistance(cumulativeDistances, targetDistance);
+  if (i >= line.length - 1 || targetDistance <= cumulativeDistances[0]) {
+    return [...line[i]];
+  }
+
+  const span = cumulativeDistances[i + 1] - cumulativeDistances[i];
+  const t = span > 0 ? (targetDistance - cumulativeDistances[i]) / span : 0;
+  return line[i].map((value, k) => value + t * (line[i + 1][k] - value));
+}
+
+/**
+ * Distance from a point to the segment a-b, and the fraction (0-1) along
+ * the segment of the closest position. Uses a flat projection around the
+ * point, which is accurate at the short ranges this is used for.
+ */
+export function pointToSegmentDistance(
+  point: LngLat,
+  a: LngLat,
+  b: LngLat
+): { distance: number; fraction: number } {
+  const cosLat = Math.cos(point[1] * DEG_TO_RAD);
+  const ax = (a[0] - point[0]) * cosLat;
+  const ay = a[1] - point[1];
+  const dx = (b[0] - a[0]) * cosLat;
+  const dy = b[1] - a[1];
+  const lengthSq = dx * dx + dy * dy;
+
+  const fraction =
+    lengthSq > 0 ? Math.max(0, Math.min(1, -(ax * dx + ay * dy) / lengthSq)) : 0;
+  const px = ax + fraction * dx;
+  const py = ay + fraction * dy;
+
+  return {
+    distance: Math.sqrt(px * px + py * py) * DEG_TO_RAD * EARTH_RADIUS_KM,
+    fraction,
+  };
+}
+
+/**
+ * Shortest distance from a point to a polyline
+ */
+export function pointToLineDistance(point: LngLat, line: LngLat[]): number {
+  if (line.length === 1) return positionDistance(point, line[0]);
+  let min = Infinity;
+  for (let i = 1; i < line.length; i++) {
+    min = Math.min(min, pointToSegmentDistance(point, line[i - 1], line[i]).distance);
+  }
+  return min;
+}
@@ -0,0 +1,130 @@
+/**
+ * Gradient bands for coloring route lines and elevation charts by steepness.
+ *
+ * Grades here are measured over a short distance window on cleaned
+ * elevations rather than point to point, so dense and sparse tracks color
+ * alike and single noisy points don't flash a band.
+ */
+
+import { CLIMBING_METHODS, processElevations } from './elevation';
+
+export interface GradeBand {
+  min: number; // percent, inclusive
+  label: string;
+  color: string;
+}
+
+// Ascending by min; the first band catches everything below the second
+export const GRADE_BANDS: GradeBand[] = [
+  { min: -Infinity, label: '< -3%', color: '#3498DB' }, // Descent
+  { min: -3, label: '-3-3%', color: '#2ECC71' }, // Flat
+  { min: 3, label: '3-6%', color: '#F1C40F' },
+  { min: 6, label: '6-9%', color: '#E67E22' },
+  { min: 9, label: '9-12%', color: '#E74C3C' },
+  { min: 12, label: '> 12%', color: '#922B21' },
+];
+
+// Distance the grade at a point is measured over, centered on it
+const GRADE_WINDOW_METERS = 100;
+
+/**
+ * Band a grade (percent) falls in
+ */
+export function getGradeBand(grade: number): GradeBand {
+  for (let i = GRADE_BANDS.length - 1; i > 0; i--) {
+    if (grade >= GRADE_BANDS[i].min) return GRADE_BANDS[i];
+  }
+  return GRADE_BANDS[0];
+}
+
+/**
+ * Grade (percent) at each point of a line. Distances are cumulative km.
+ */
+export function calculateLineGrades(elevations: number[], distances: number[]): number[] {
+  const processed = processElevations(elevations, distances, CLIMBING_METHODS.smoothed.settings);
+  const halfWindowKm = GRADE_WINDOW_METERS / 2000;
+
+  let behind = 0;
+  let ahead = 0;
+  return processed.map((_, i) => {
+    while (distances[i] - distances[behind] > halfWindowKm) behind++;
+    while (ahead < processed.length - 1 && distances[ahead] - distances[i] < halfWindowKm) ahead++;
+    const run = (distances[ahead] - distances[behind]) * 1000;
+    return run > 0 ? ((processed[ahead] - processed[behind]) / run) * 100 : 0;
+  });
+}
+
+/**
+ * Where each band starts along a line, as [fraction of its length, color]
+ * pairs: the first at 0, then one at every band change. The stretch after
+ * a point takes the band of that point's grade.
+ */
+export function getGradeColorStops(grades: number[], distances: number[]): [number, string][] {
+  const total = distances[distances.length - 1] ?? 0;
+  const stops: [number, string][] = [];
+
+  grades.forEach((grade, i) => {
+    const progress = total > 0 ? distances[i] / total : 0;
+    const { color } = getGradeBand(grade);
+    const last = stops[stops.length - 1];
+    if (last && last[1] === color) return;
+    if (last && progress <= last[0]) {
+      // Points at the same distance: the later one decides
+      last[1] = color;
+    } else {
+      stops.push([progress, color]);
+    }
+  });
+
+  return stops;
+}
+
+/**
+ * Average grade (percent) from each sample index of a line to the next, on
+ * cleaned elevations: the stretches between the points of a downsampled
+ * chart. The last sample repeats the grade before it.
+ */
+export function calculateStretchGrades(
+  elevations: number[],
+  distances: number[],
+  indices: number[]
+): number[] {
+  const processed = processElevations(elevations, distances, CLIMBING_METHODS.smoothed.settings);
+
+  const grades = indices.map((index, k) => {
+    const next = indices[k + 1] ?? index;
+    const run = (distances[next] - distances[index]) * 1000;
+    return run > 0 ? ((processed[next] - processed[index]) / run) * 100 : 0;
+  });
+  if (grades.length > 1) grades[grades.length - 1] = grades[grades.length - 2];
+  return grades;
+}
+
+/**
+ * Horizontal gradient stops coloring the stretches between evenly spaced
+ * chart points by grade band, with hard changes between bands
+ */
+export function getChartGradeStops(grades: number[]): { offset: number; color: string }[] {
+  if (grades.length === 0) return [];
+
+  const last = Math.max(grades.length - 1, 1);
+  const stops = [{ offset: 0, color: getGradeBand(grades[0]).color }];
+  grades.forEach((grade, i) => {
+    const { color } = getGradeBand(grade);
+    const previous = stops[stops.length - 1].color;
+    if (color === previous) return;
+    stops.push({ offset: i / last, color: previous }, { offset: i / last, color });
+  });
+  stops.push({ offset: 1, color: stops[stops.length - 1].color });
+
+  return stops;
+}
+
+/**
+ * Symmetric domain for a grade axis, in steps of 5% and at least ±10%
+ */
+export function getGradeAxisDomain(grades: number[]): [number, number] {
+  const steepest = grades.reduce((max, grade) => Math.max(max, Math.abs(grade)), 0);
+  const bound = Math.max(10, Math.ceil(steepest / 5) * 5);
+  return [-bound, bound];
+}
@@ -0,0 +1,41 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import type { OvernightStop } from '../types/route';
+import { snapBreakpoints, type RouteStop } from './overnightStops';
+
+/**
+ * A town at a distance (km) along the route, right by it
+ */
+function makeRouteStop(name: string, distanceKm: number): RouteStop {
+  const stop: OvernightStop = { name, kind: 'town', lat: 45.5, lng: 10.7 };
+  return { stop, distanceKm, offsetKm: 0 };
+}
+
+describe('snapBreakpoints', () => {
+  it('moves breakpoints to the nearest stop', () => {
+    const routeStops = [makeRouteStop('Arco', 24), makeRouteStop('Malcesine', 63)];
+
+    assert.deepEqual(snapBreakpoints([20, 60], routeStops, 100), [24, 63]);
+  });
+
+  it('leaves breakpoints with no stop nearby where they are', () => {
+    const routeStops = [makeRouteStop('Arco', 24)];
+
+    assert.deepEqual(snapBreakpoints([20, 60], routeStops, 100), [24, 60]);
+  });
+
+  it("doesn't snap a breakpoint past the next one", () => {
+    // Only the first breakpoint has a stop in reach, and it's beyond the second
+    const routeStops = [makeRouteStop('Torbole', 45)];
+    const snapped = snapBreakpoints([40, 42], routeStops, 100);
+
+    assert.deepEqual(snapped, [40, 45]);
+    assert.ok(snapped[0] < snapped[1]);
+  });
+
+  it('puts breakpoints on different stops', () => {
+    const routeStops = [makeRouteStop('Riva', 50)];
+
+    assert.deepEqual(snapBreakpoints([48, 52], routeStops, 100), [50, 52]);
+  });
+});
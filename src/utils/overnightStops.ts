@@ -0,0 +1,167 @@
+/**
+ * Overnight stops: towns and places to stay near the course, and snapping
+ * the day planner's breakpoints to them.
+ *
+ * Stops are matched to a route once, giving each pass of the route by a
+ * stop its distance along the route. Breakpoints then snap to the closest
+ * of those positions, so a day ends where there's somewhere to sleep.
+ */
+
+import type { OvernightStop, OvernightStopKind } from '../types/route';
+import { buildSpatialIndex, findAllOnRoute } from './spatialIndex';
+
+export const OVERNIGHT_STOP_KINDS: Record<OvernightStopKind, { label: string; icon: string }> = {
+  town: { label: 'Town', icon: '🏘️' },
+  hotel: { label: 'Hotel', icon: '🏨' },
+  campsite: { label: 'Campsite', icon: '⛺' },
+  hut: { label: 'Mountain hut', icon: '🛖' },
+};
+
+// A stop on the route: where the route passes closest to it
+export interface RouteStop {
+  stop: OvernightStop;
+  distanceKm: number; // along the route
+  offsetKm: number; // from the route to the stop
+}
+
+// Stops further than this from the route aren't on it
+export const MAX_STOP_OFFSET_KM = 3;
+// Breakpoints move at most this far along the route to reach a stop
+const SNAP_DISTANCE_KM = 10;
+// A breakpoint this close to a stop ends the day there without snapping
+const STOP_MATCH_KM = 1;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Check the shape of an overnight stops file, returning readable problems
+ */
+export function validateOvernightStops(data: unknown): string[] {
+  if (!Array.isArray(data)) return ['Expected an array of stops'];
+
+  const errors: string[] = [];
+  data.forEach((value, i) => {
+    const label = isRecord(value) && typeof value.name === 'string' ? value.name : `#${i + 1}`;
+    if (!isRecord(value)) {
+      errors.push(`Stop ${label}: expected an object`);
+      return;
+    }
+    if (typeof value.name !== 'string' || value.name.trim() === '') {
+      errors.push(`Stop ${label}: missing name`);
+    }
+    if (typeof value.kind !== 'string' || !(value.kind in OVERNIGHT_STOP_KINDS)) {
+      errors.push(`Stop ${label}: unknown kind "${String(value.kind)}"`);
+    }
+    if (typeof value.lat !== 'number' || Math.abs(value.lat) > 90) {
+      errors.push(`Stop ${label}: invalid lat`);
+    }
+    if (typeof value.lng !== 'number' || Math.abs(value.lng) > 180) {
+      errors.push(`Stop ${label}: invalid lng`);
+    }
+  });
+  return errors;
+}
+
+/**
+ * Classify an OSM node's tags as an overnight stop, or null for anything
+ * else
+ */
+export function classifyOsmStop(tags: Record<string, string>): OvernightStopKind | null {
+  switch (tags.tourism) {
+    case 'hotel':
+    case 'guest_house':
+    case 'hostel':
+    case 'motel':
+      return 'hotel';
+    case 'camp_site':
+      return 'campsite';
+    case 'alpine_hut':
+      return 'hut';
+  }
+  if (tags.place === 'town' || tags.place === 'village') return 'town';
+  return null;
+}
+
+/**
+ * Find the stops along a route, one entry per pass of the route within
+ * MAX_STOP_OFFSET_KM of a stop, ordered along the route
+ */
+export function findStopsAlongRoute(
+  coordinates: [number, number, number][],
+  distances: number[], // cumulative km
+  stops: OvernightStop[]
+): RouteStop[] {
+  if (coordinates.length < 2 || stops.length === 0) return [];
+
+  const index = buildSpatialIndex(
+    coordinates.map(([lng, lat], i) => ({ lng, lat, distanceFromStart: distances[i] * 1000 })),
+    1000
+  );
+
+  return stops
+    .flatMap((stop) =>
+      findAllOnRoute(stop, index, MAX_STOP_OFFSET_KM * 1000).map((match) => ({
+        stop,
+        distanceKm: match.distanceFromStart / 1000,
+        offsetKm: match.distance / 1000,
+      }))
+    )
+    .sort((a, b) => a.distanceKm - b.distanceKm);
+}
+
+/**
+ * Move each breakpoint (percentage) to the nearest stop within
+ * SNAP_DISTANCE_KM along the route, but not past the next breakpoint, so
+ * snapped breakpoints stay in order and on different stops; ones without a
+ * free stop nearby stay where they are.
+ */
+export function snapBreakpoints(
+  breakpoints: number[],
+  routeStops: RouteStop[],
+  totalKm: number
+): number[] {
+  if (routeStops.length === 0 || totalKm <= 0) return breakpoints;
+
+  let previousKm = 0;
+  return [...breakpoints]
+    .sort((a, b) => a - b)
+    .map((percentage, i, sorted) => {
+      const targetKm = (percentage / 100) * totalKm;
+      const nextKm = i + 1 < sorted.length ? (sorted[i + 1] / 100) * totalKm : totalKm;
+      let best: RouteStop | null = null;
+      for (const routeStop of routeStops) {
+        const offset = Math.abs(routeStop.distanceKm - targetKm);
+        if (
+          offset <= SNAP_DISTANCE_KM &&
+          routeStop.distanceKm > previousKm &&
+          routeStop.distanceKm < nextKm &&
+          (!best || offset < Math.abs(best.distanceKm - targetKm))
+        ) {
+          best = routeStop;
+        }
+      }
+
+      const snappedKm = best?.distanceKm ?? targetKm;
+      previousKm = Math.max(previousKm, snappedKm);
+      return (snappedKm / totalKm) * 100;
+    });
+}
+
+/**
+ * The stop a breakpoint at this distance (km) ends the day at, if any
+ */
+export function findStopAt(
+  routeStops: RouteStop[],
+  distanceKm: number
+): OvernightStop | undefined {
+  let best: RouteStop | undefined;
+  for (const routeStop of routeStops) {
+    const offset = Math.abs(routeStop.distanceKm - distanceKm);
+    if (offset <= STOP_MATCH_KM && (!best || offset < Math.abs(best.distanceKm - distanceKm))) {
+      best = routeStop;
+    }
+  }
+  return best?.stop;
+}
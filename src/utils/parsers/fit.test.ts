@@ -0,0 +1,99 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { parseRouteFile } from './index';
+
+const DEGREES_TO_SEMICIRCLES = 2 ** 31 / 180;
+
+/**
+ * A little-endian FIT course file with the given records and one course
+ * point. The CRCs are left at zero; the parser doesn't check them.
+ */
+function makeFit(
+  records: { lat: number; lng: number; elevation?: number }[],
+  coursePoint: { lat: number; lng: number; type: number; name: string }
+): ArrayBuffer {
+  const bytes: number[] = [];
+  const uint16 = (value: number) => bytes.push(value & 0xff, (value >> 8) & 0xff);
+  const int32 = (value: number) => {
+    const view = new DataView(new ArrayBuffer(4));
+    view.setInt32(0, value, true);
+    bytes.push(...new Uint8Array(view.buffer));
+  };
+  const semicircles = (degrees: number) => Math.round(degrees * DEGREES_TO_SEMICIRCLES);
+
+  // Local message 0: record with position_lat, position_long, altitude
+  bytes.push(0x40, 0, 0);
+  uint16(20);
+  bytes.push(3, 0, 4, 0x85, 1, 4, 0x85, 2, 2, 0x84);
+  for (const { lat, lng, elevation } of records) {
+    bytes.push(0x00);
+    int32(semicircles(lat));
+    int32(semicircles(lng));
+    uint16(elevation === undefined ? 0xffff : (elevation + 500) * 5);
+  }
+
+  // Local message 1: course point with position, type and a 16-byte name
+  bytes.push(0x41, 0, 0);
+  uint16(32);
+  bytes.push(4, 2, 4, 0x85, 3, 4, 0x85, 5, 1, 0x00, 6, 16, 0x07);
+  bytes.push(0x01);
+  int32(semicircles(coursePoint.lat));
+  int32(semicircles(coursePoint.lng));
+  bytes.push(coursePoint.type);
+  const name = new TextEncoder().encode(coursePoint.name);
+  bytes.push(...Array.from({ length: 16 }, (_, i) => name[i] ?? 0));
+
+  const header = new DataView(new ArrayBuffer(14));
+  header.setUint8(0, 14);
+  header.setUint8(1, 0x20);
+  header.setUint16(2, 2132, true);
+  header.setUint32(4, bytes.length, true);
+  new Uint8Array(header.buffer).set([0x2e, 0x46, 0x49, 0x54], 8); // ".FIT"
+
+  const file = new Uint8Array(14 + bytes.length + 2);
+  file.set(new Uint8Array(header.buffer));
+  file.set(bytes, 14);
+  return file.buffer;
+}
+
+const near = (actual: number | undefined, expected: number) =>
+  assert.ok(actual !== undefined && Math.abs(actual - expected) < 1e-6, `${actual} != ${expected}`);
+
+describe('FIT parser', () => {
+  const data = makeFit(
+    [
+      { lat: 45.88, lng: 10.84, elevation: 70 },
+      { lat: 45.89, lng: 10.85 },
+      { lat: 45.9, lng: 10.86, elevation: 90.2 },
+    ],
+    { lat: 45.9, lng: 10.86, type: 1, name: 'Top' }
+  );
+
+  it('reads record positions and altitudes as one line', () => {
+    const parsed = parseRouteFile(data, 'ride.fit');
+
+    assert.equal(parsed.format, 'fit');
+    assert.equal(parsed.lines.length, 1);
+    const [line] = parsed.lines;
+    assert.equal(line.length, 3);
+    near(line[0][0], 10.84);
+    near(line[0][1], 45.88);
+    near(line[0][2], 70);
+    assert.equal(line[1].length, 2);
+    near(line[2][2], 90.2);
+  });
+
+  it('turns course points into waypoints', () => {
+    const { waypoints } = parseRouteFile(data, 'ride.fit');
+
+    assert.equal(waypoints.length, 1);
+    assert.equal(waypoints[0].name, 'Top');
+    assert.equal(waypoints[0].symbol, 'summit');
+    near(waypoints[0].lat, 45.9);
+    near(waypoints[0].lng, 10.86);
+  });
+
+  it('recognizes the format from the header', () => {
+    assert.equal(parseRouteFile(data, 'download').format, 'fit');
+  });
+});
@@ -0,0 +1,229 @@
+import type { Position } from 'geojson';
+import type { Waypoint } from '../../types/route';
+import type { RouteParser } from './types';
+
+/**
+ * Minimal FIT decoder: reads record messages (positions and altitude) and
+ * course points from activity and course files. Everything else is skipped
+ * using the field sizes from the definition messages.
+ */
+
+const MESG_RECORD = 20;
+const MESG_COURSE_POINT = 32;
+
+// Field numbers of the messages we read
+const RECORD_POSITION_LAT = 0;
+const RECORD_POSITION_LONG = 1;
+const RECORD_ALTITUDE = 2;
+const RECORD_ENHANCED_ALTITUDE = 78;
+const COURSE_POINT_POSITION_LAT = 2;
+const COURSE_POINT_POSITION_LONG = 3;
+const COURSE_POINT_TYPE = 5;
+const COURSE_POINT_NAME = 6;
+
+const SEMICIRCLES_TO_DEGREES = 180 / 2 ** 31;
+
+// Names of the course point types, indexed by the FIT enum value
+const COURSE_POINT_TYPES = [
+  'generic', 'summit', 'valley', 'water', 'food', 'danger', 'left', 'right',
+  'straight', 'first_aid', 'fourth_category', 'third_category',
+  'second_category', 'first_category', 'hors_category', 'sprint',
+  'left_fork', 'right_fork', 'middle_fork', 'slight_left', 'sharp_left',
+  'slight_right', 'sharp_right', 'u_turn', 'segment_start', 'segment_end',
+];
+
+interface FieldDefinition {
+  number: number;
+  size: number;
+  baseType: number;
+}
+
+interface MessageDefinition {
+  globalNumber: number;
+  littleEndian: boolean;
+  fields: FieldDefinition[];
+  developerDataSize: number;
+}
+
+type FieldValues = Map<number, number | string>;
+
+/**
+ * Read a single field value, returning undefined for FIT's "invalid" values
+ */
+function readField(
+  view: DataView,
+  offset: number,
+  field: FieldDefinition,
+  littleEndian: boolean
+): number | string | undefined {
+  switch (field.baseType & 0x1f) {
+    case 0x00: // enum
+    case 0x02: // uint8
+    case 0x0a: { // uint8z
+      const value = view.getUint8(offset);
+      return value === 0xff ? undefined : value;
+    }
+    case 0x04: { // uint16
+      if (field.size < 2) return undefined;
+      const value = view.getUint16(offset, littleEndian);
+      return value === 0xffff ? undefined : value;
+    }
+    case 0x05: { // sint32
+      if (field.size < 4) return undefined;
+      const value = view.getInt32(offset, littleEndian);
+      return value === 0x7fffffff ? undefined : value;
+    }
+    case 0x06: { // uint32
+      if (field.size < 4) return undefined;
+      const value = view.getUint32(offset, littleEndian);
+      return value === 0xffffffff ? undefined : value;
+    }
+    case 0x07: { // string, null terminated
+      const bytes = new Uint8Array(view.buffer, view.byteOffset + offset, field.size);
+      const end = bytes.indexOf(0);
+      const text = new TextDecoder().decode(end === -1 ? bytes : bytes.subarray(0, end));
+      return text || undefined;
+    }
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Decode the messages we care about, in file order
+ */
+function decodeFit(data: ArrayBuffer): { globalNumber: number; values: FieldValues }[] {
+  const view = new DataView(data);
+  if (view.byteLength < 12) {
+    throw new Error('FIT file is too short');
+  }
+
+  const headerSize = view.getUint8(0);
+  const dataSize = view.getUint32(4, true);
+  const end = Math.min(headerSize + dataSize, view.byteLength);
+  const definitions = new Map<number, MessageDefinition>();
+  const messages: { globalNumber: number; values: FieldValues }[] = [];
+
+  let offset = headerSize;
+  while (offset < end) {
+    const header = view.getUint8(offset++);
+
+    // Compressed timestamp header: always a data message
+    const isCompressed = (header & 0x80) !== 0;
+    const isDefinition = !isCompressed && (header & 0x40) !== 0;
+    const localNumber = isCompressed ? (header >> 5) & 0x03 : header & 0x0f;
+
+    if (isDefinition) {
+      const hasDeveloperData = (header & 0x20) !== 0;
+      const littleEndian = view.getUint8(offset + 1) === 0;
+      const globalNumber = view.getUint16(offset + 2, littleEndian);
+      const fieldCount = view.getUint8(offset + 4);
+      offset += 5;
+
+      const fields: FieldDefinition[] = [];
+      for (let i = 0; i < fieldCount; i++) {
+        fields.push({
+          number: view.getUint8(offset),
+          size: view.getUint8(offset + 1),
+          baseType: view.getUint8(offset + 2),
+        });
+        offset += 3;
+      }
+
+      let developerDataSize = 0;
+      if (hasDeveloperData) {
+        const developerFieldCount = view.getUint8(offset++);
+        for (let i = 0; i < developerFieldCount; i++) {
+          developerDataSize += view.getUint8(offset + 1);
+          offset += 3;
+        }
+      }
+
+      definitions.set(localNumber, { globalNumber, littleEndian, fields, developerDataSize });
+      continue;
+    }
+
+    const definition = definitions.get(localNumber);
+    if (!definition) {
+      throw new Error(`FIT file is corrupt: undefined local message ${localNumber}`);
+    }
+
+    const wanted =
+      definition.globalNumber === MESG_RECORD ||
+      definition.globalNumber === MESG_COURSE_POINT;
+    const values: FieldValues = new Map();
+
+    for (const field of definition.fields) {
+      if (wanted && offset + field.size <= end) {
+        const value = readField(view, offset, field, definition.littleEndian);
+        if (value !== undefined) values.set(field.number, value);
+      }
+      offset += field.size;
+    }
+    offset += definition.developerDataSize;
+
+    if (wanted) {
+      messages.push({ globalNumber: definition.globalNumber, values });
+    }
+  }
+
+  return messages;
+}
+
+function readPosition(values: FieldValues, latField: number, lngField: number): Position | null {
+  const lat = values.get(latField);
+  const lng = values.get(lngField);
+  if (typeof lat !== 'number' || typeof lng !== 'number') return null;
+  return [lng * SEMICIRCLES_TO_DEGREES, lat * SEMICIRCLES_TO_DEGREES];
+}
+
+function readAltitude(values: FieldValues): number | undefined {
+  const altitude = values.get(RECORD_ENHANCED_ALTITUDE) ?? values.get(RECORD_ALTITUDE);
+  return typeof altitude === 'number' ? altitude / 5 - 500 : undefined;
+}
+
+/**
+ * FIT: record positions form a single line; course points become waypoints
+ */
+export const fitParser: RouteParser = {
+  format: 'fit',
+  label: 'FIT',
+  extensions: ['.fit'],
+  sniff: (bytes) =>
+    bytes.length >= 12 &&
+    String.fromCharCode(bytes[8], bytes[9], bytes[10], bytes[11]) === '.FIT',
+  parse: (data) => {
+    const line: Position[] = [];
+    const waypoints: Waypoint[] = [];
+
+    for (const { globalNumber, values } of decodeFit(data)) {
+      if (globalNumber === MESG_RECORD) {
+        const position = readPosition(values, RECORD_POSITION_LAT, RECORD_POSITION_LONG);
+        if (!position) continue;
+        const elevation = readAltitude(values);
+        line.push(elevation === undefined ? position : [...position, elevation]);
+      } else {
+        const position = readPosition(
+          values,
+          COURSE_POINT_POSITION_LAT,
+          COURSE_POINT_POSITION_LONG
+        );
+        if (!position) continue;
+        const name = values.get(COURSE_POINT_NAME);
+        const type = values.get(COURSE_POINT_TYPE);
+        waypoints.push({
+          name: typeof name === 'string' ? name : `Waypoint ${waypoints.length + 1}`,
+          lng: position[0],
+          lat: position[1],
+          symbol: typeof type === 'number' ? COURSE_POINT_TYPES[type] : undefined,
+        });
+      }
+    }
+
+    return {
+      format: 'fit',
+      lines: line.length >= 2 ? [line] : [],
+      waypoints,
+    };
+  },
+};
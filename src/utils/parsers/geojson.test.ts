@@ -0,0 +1,98 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { parseRouteFile } from './index';
+
+function parseGeoJson(geojson: unknown, fileName = 'route.geojson') {
+  return parseRouteFile(
+    new TextEncoder().encode(JSON.stringify(geojson)).buffer as ArrayBuffer,
+    fileName
+  );
+}
+
+describe('GeoJSON parser', () => {
+  it('reads lines and points from a feature collection in order', () => {
+    const parsed = parseGeoJson({
+      type: 'FeatureCollection',
+      features: [
+        {
+          type: 'Feature',
+          properties: { name: 'Start', 'marker-symbol': 'bicycle' },
+          geometry: { type: 'Point', coordinates: [10.84, 45.88] },
+        },
+        {
+          type: 'Feature',
+          properties: { name: 'Garda loop' },
+          geometry: {
+            type: 'LineString',
+            coordinates: [
+              [10.84, 45.88, 70],
+              [10.85, 45.89, 80],
+            ],
+          },
+        },
+        {
+          type: 'Feature',
+          properties: null,
+          geometry: {
+            type: 'MultiLineString',
+            coordinates: [
+              [
+                [10.86, 45.9],
+                [10.87, 45.91],
+              ],
+              [[10.9, 46]],
+            ],
+          },
+        },
+      ],
+    });
+
+    assert.equal(parsed.format, 'geojson');
+    assert.equal(parsed.name, 'Garda loop');
+    assert.deepEqual(parsed.lines, [
+      [
+        [10.84, 45.88, 70],
+        [10.85, 45.89, 80],
+      ],
+      [
+        [10.86, 45.9],
+        [10.87, 45.91],
+      ],
+    ]);
+    assert.deepEqual(parsed.waypoints, [
+      {
+        name: 'Start',
+        lat: 45.88,
+        lng: 10.84,
+        elevation: undefined,
+        symbol: 'bicycle',
+        description: undefined,
+      },
+    ]);
+  });
+
+  it('accepts a bare geometry', () => {
+    const parsed = parseGeoJson(
+      {
+        type: 'LineString',
+        coordinates: [
+          [10.84, 45.88],
+          [10.85, 45.89],
+        ],
+      },
+      'route.json'
+    );
+    assert.equal(parsed.lines.length, 1);
+  });
+
+  it('reports invalid JSON and files without lines', () => {
+    assert.throws(
+      () => parseRouteFile(new TextEncoder().encode('{"type":').buffer as ArrayBuffer, 'x.geojson'),
+      /not valid JSON/
+    );
+    assert.throws(
+      () => parseGeoJson({ type: 'Point', coordinates: [10.84, 45.88] }),
+      /No track found in GeoJSON file/
+    );
+  });
+});
@@ -0,0 +1,86 @@
+import type { Feature, GeoJSON, Geometry, Position } from 'geojson';
+import type { Waypoint } from '../../types/route';
+import type { RouteParser } from './types';
+
+/**
+ * Collect lines and points of a geometry, descending into collections
+ */
+function collectGeometry(
+  geometry: Geometry | null,
+  properties: Feature['properties'],
+  lines: Position[][],
+  waypoints: Waypoint[]
+): void {
+  if (!geometry) return;
+  switch (geometry.type) {
+    case 'LineString':
+      lines.push(geometry.coordinates);
+      break;
+    case 'MultiLineString':
+      lines.push(...geometry.coordinates);
+      break;
+    case 'Point': {
+      const [lng, lat, elevation] = geometry.coordinates;
+      waypoints.push({
+        name: properties?.name || `Waypoint ${waypoints.length + 1}`,
+        lat,
+        lng,
+        elevation,
+        symbol: properties?.sym || properties?.['marker-symbol'] || undefined,
+        description: properties?.desc || properties?.description || undefined,
+      });
+      break;
+    }
+    case 'GeometryCollection':
+      geometry.geometries.forEach((g) => collectGeometry(g, properties, lines, waypoints));
+      break;
+  }
+}
+
+/**
+ * GeoJSON: LineString and MultiLineString geometries in document order,
+ * from a FeatureCollection, a single Feature or a bare geometry. Points
+ * become waypoints.
+ */
+export const geojsonParser: RouteParser = {
+  format: 'geojson',
+  label: 'GeoJSON',
+  extensions: ['.geojson', '.json'],
+  sniff: (_bytes, text) => /^\s*\{/.test(text) && /"type"\s*:/.test(text),
+  parse: (data) => {
+    let geojson: GeoJSON;
+    try {
+      geojson = JSON.parse(new TextDecoder().decode(data));
+    } catch {
+      throw new Error('GeoJSON file is not valid JSON');
+    }
+
+    const lines: Position[][] = [];
+    const waypoints: Waypoint[] = [];
+    let name: string | undefined;
+
+    const features: Feature[] =
+      geojson.type === 'FeatureCollection'
+        ? geojson.features
+        : geojson.type === 'Feature'
+          ? [geojson]
+          : [{ type: 'Feature', properties: null, geometry: geojson }];
+
+    for (const feature of features) {
+      const isLine =
+        feature.geometry?.type === 'LineString' ||
+        feature.geometry?.type === 'MultiLineString';
+      if (isLine && name === undefined && typeof feature.properties?.name === 'string') {
+        name = feature.properties.name;
+      }
+      collectGeometry(feature.geometry, feature.properties, lines, waypoints);
+    }
+
+    return {
+      format: 'geojson',
+      name,
+      lines: lines.filter((line) => line.length >= 2),
+      waypoints,
+    };
+  },
+};
@@ -0,0 +1,96 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { parseXml } from '../../../scripts/xml-parser';
+import { parseRouteFile } from './index';
+
+function parseGpx(body: string) {
+  const text =
+    '<?xml version="1.0"?><gpx version="1.1" xmlns="http://www.topografix.com/GPX/1/1">' +
+    `${body}</gpx>`;
+  const data = new TextEncoder().encode(text).buffer as ArrayBuffer;
+  return parseRouteFile(data, 'route.gpx', parseXml);
+}
+
+const trkpt = (lat: number, lng: number, ele: number) =>
+  `<trkpt lat="${lat}" lon="${lng}"><ele>${ele}</ele></trkpt>`;
+const rtept = (lat: number, lng: number) => `<rtept lat="${lat}" lon="${lng}"></rtept>`;
+
+describe('GPX parser', () => {
+  it('joins every track and track segment in file order', () => {
+    const parsed = parseGpx(
+      '<trk><name>Day one</name>' +
+        `<trkseg>${trkpt(45.88, 10.84, 70)}${trkpt(45.89, 10.84, 80)}</trkseg>` +
+        `<trkseg>${trkpt(45.9, 10.85, 90)}${trkpt(45.91, 10.85, 100)}</trkseg></trk>` +
+        '<trk><name>Day two</name>' +
+        `<trkseg>${trkpt(45.92, 10.86, 110)}${trkpt(45.93, 10.86, 120)}</trkseg></trk>`
+    );
+
+    assert.equal(parsed.format, 'gpx');
+    assert.equal(parsed.name, 'Day one');
+    assert.deepEqual(parsed.lines, [
+      [
+        [10.84, 45.88, 70],
+        [10.84, 45.89, 80],
+      ],
+      [
+        [10.85, 45.9, 90],
+        [10.85, 45.91, 100],
+      ],
+      [
+        [10.86, 45.92, 110],
+        [10.86, 45.93, 120],
+      ],
+    ]);
+  });
+
+  it('falls back to routes when there are no tracks', () => {
+    const parsed = parseGpx(
+      `<rte><name>Planned</name>${rtept(45.88, 10.84)}${rtept(45.89, 10.85)}</rte>`
+    );
+
+    assert.equal(parsed.name, 'Planned');
+    assert.deepEqual(parsed.lines, [
+      [
+        [10.84, 45.88],
+        [10.85, 45.89],
+      ],
+    ]);
+  });
+
+  it('ignores routes alongside a track', () => {
+    const parsed = parseGpx(
+      `<rte>${rtept(46, 11)}${rtept(46.1, 11.1)}</rte>` +
+        `<trk><trkseg>${trkpt(45.88, 10.84, 70)}${trkpt(45.89, 10.84, 80)}</trkseg></trk>`
+    );
+
+    assert.equal(parsed.lines.length, 1);
+    assert.deepEqual(parsed.lines[0][0], [10.84, 45.88, 70]);
+  });
+
+  it('keeps waypoints', () => {
+    const parsed = parseGpx(
+      '<wpt lat="45.885" lon="10.841"><ele>75</ele><name>Water</name><sym>Drinking Water</sym>' +
+        '<desc>Fountain in the square</desc></wpt><wpt lat="45.9" lon="10.85"></wpt>' +
+        `<trk><trkseg>${trkpt(45.88, 10.84, 70)}${trkpt(45.89, 10.84, 80)}</trkseg></trk>`
+    );
+
+    assert.deepEqual(parsed.waypoints, [
+      {
+        name: 'Water',
+        lat: 45.885,
+        lng: 10.841,
+        elevation: 75,
+        symbol: 'Drinking Water',
+        description: 'Fountain in the square',
+      },
+      {
+        name: 'Waypoint 2',
+        lat: 45.9,
+        lng: 10.85,
+        elevation: undefined,
+        symbol: undefined,
+        description: undefined,
+      },
+    ]);
+  });
+});
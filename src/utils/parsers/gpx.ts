@@ -0,0 +1,62 @@
+import toGeoJSON from '@mapbox/togeojson';
+import type { Feature, LineString, MultiLineString, Point } from 'geojson';
+import type { Waypoint } from '../../types/route';
+import type { RouteParser } from './types';
+
+/**
+ * Extract waypoints (<wpt>) from the features produced by togeojson
+ */
+function extractWaypoints(features: Feature[]): Waypoint[] {
+  return features
+    .filter((f): f is Feature<Point> => f.geometry?.type === 'Point')
+    .map((f, i) => {
+      const [lng, lat, elevation] = f.geometry.coordinates;
+      const properties = f.properties ?? {};
+      return {
+        name: properties.name || `Waypoint ${i + 1}`,
+        lat,
+        lng,
+        elevation,
+        symbol: properties.sym || undefined,
+        description: properties.desc || properties.cmt || undefined,
+      };
+    });
+}
+
+/**
+ * GPX: all tracks and track segments in file order. Files without tracks
+ * fall back to their routes (<rte>). Waypoints are kept alongside.
+ */
+export const gpxParser: RouteParser = {
+  format: 'gpx',
+  label: 'GPX',
+  extensions: ['.gpx'],
+  sniff: (_bytes, text) => /<gpx[\s>]/.test(text),
+  parse: (data, parseXml) => {
+    const gpxDoc = parseXml(new TextDecoder().decode(data));
+
+    // A recorded track usually comes with the planned route it followed;
+    // drop the routes so the same course isn't joined twice
+    if (gpxDoc.getElementsByTagName('trkpt').length > 0) {
+      Array.from(gpxDoc.getElementsByTagName('rte')).forEach((rte) =>
+        rte.parentNode?.removeChild(rte)
+      );
+    }
+
+    const geojson = toGeoJSON.gpx(gpxDoc);
+
+    const lineFeatures = geojson.features.filter(
+      (f): f is Feature<LineString | MultiLineString> =>
+        f.geometry?.type === 'LineString' || f.geometry?.type === 'MultiLineString'
+    );
+
+    return {
+      format: 'gpx',
+      name: lineFeatures[0]?.properties?.name,
+      lines: lineFeatures.flatMap((f) =>
+        f.geometry.type === 'LineString' ? [f.geometry.coordinates] : f.geometry.coordinates
+      ),
+      waypoints: extractWaypoints(geojson.features),
+    };
+  },
+};
@@ -0,0 +1,68 @@
+/**
+ * Route file parsers. Each format turns a file into the same ParsedRoute
+ * (track lines and waypoints), so everything downstream works the same
+ * regardless of where a route came from. To support another format, add a
+ * RouteParser to ROUTE_PARSERS.
+ */
+
+import { fitParser } from './fit';
+import { geojsonParser } from './geojson';
+import { gpxParser } from './gpx';
+import { tcxParser } from './tcx';
+import type { ParsedRoute, RouteParser, XmlParser } from './types';
+
+export type { ParsedRoute, RouteFormat, RouteParser, XmlParser } from './types';
+
+export const ROUTE_PARSERS: RouteParser[] = [gpxParser, tcxParser, fitParser, geojsonParser];
+
+// File input "accept" value covering every supported format
+export const ROUTE_FILE_ACCEPT = ROUTE_PARSERS.flatMap((p) => p.extensions).join(',');
+
+/**
+ * XML parsing with the browser's DOMParser
+ */
+export const browserXmlParser: XmlParser = (text) => {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  const error = doc.getElementsByTagName('parsererror')[0];
+  if (error) {
+    throw new Error(`Invalid XML: ${error.textContent?.trim() ?? 'parse error'}`);
+  }
+  return doc;
+};
+
+/**
+ * Pick the parser for a file: by extension first, then by sniffing the
+ * start of its contents
+ */
+export function findRouteParser(fileName: string, data: ArrayBuffer): RouteParser | null {
+  const lowerName = fileName.toLowerCase();
+  const byExtension = ROUTE_PARSERS.find((p) =>
+    p.extensions.some((ext) => lowerName.endsWith(ext))
+  );
+  if (byExtension) return byExtension;
+
+  const bytes = new Uint8Array(data, 0, Math.min(data.byteLength, 1024));
+  const text = new TextDecoder().decode(bytes);
+  return ROUTE_PARSERS.find((p) => p.sniff(bytes, text)) ?? null;
+}
+
+/**
+ * Parse a route file of any supported format
+ */
+export function parseRouteFile(
+  data: ArrayBuffer,
+  fileName: string,
+  parseXml: XmlParser = browserXmlParser
+): ParsedRoute {
+  const parser = findRouteParser(fileName, data);
+  if (!parser) {
+    const formats = ROUTE_PARSERS.map((p) => p.label).join(', ');
+    throw new Error(`Unsupported route file: ${fileName} (expected ${formats})`);
+  }
+
+  const parsed = parser.parse(data, parseXml);
+  if (parsed.lines.length === 0) {
+    throw new Error(`No track found in ${parser.label} file: ${fileName}`);
+  }
+  return parsed;
+}
@@ -0,0 +1,66 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { parseXml } from '../../../scripts/xml-parser';
+import { parseRouteFile } from './index';
+
+const trackpoint = (lat: number, lng: number, altitude?: number) =>
+  '<Trackpoint><Position>' +
+  `<LatitudeDegrees>${lat}</LatitudeDegrees><LongitudeDegrees>${lng}</LongitudeDegrees>` +
+  `</Position>${altitude === undefined ? '' : `<AltitudeMeters>${altitude}</AltitudeMeters>`}` +
+  '</Trackpoint>';
+
+const course =
+  '<?xml version="1.0"?>' +
+  '<TrainingCenterDatabase xmlns="http://www.garmin.com/xmlschemas/TrainingCenterDatabase/v2">' +
+  '<Courses><Course><Name>Garda loop</Name>' +
+  `<Track>${trackpoint(45.88, 10.84, 70)}` +
+  '<Trackpoint><Time>2024-05-01T08:00:00Z</Time></Trackpoint>' +
+  `${trackpoint(45.89, 10.85)}</Track>` +
+  `<Track>${trackpoint(45.9, 10.86, 90)}${trackpoint(45.91, 10.87, 95)}</Track>` +
+  `<Track>${trackpoint(46, 11, 100)}</Track>` +
+  '<CoursePoint><Name>Summit</Name><Position><LatitudeDegrees>45.9</LatitudeDegrees>' +
+  '<LongitudeDegrees>10.86</LongitudeDegrees></Position><AltitudeMeters>90</AltitudeMeters>' +
+  '<PointType>Summit</PointType><Notes>Top of the climb</Notes></CoursePoint>' +
+  '</Course></Courses></TrainingCenterDatabase>';
+
+describe('TCX parser', () => {
+  it('reads each track as a line, skipping points without a position', () => {
+    const parsed = parseRouteFile(
+      new TextEncoder().encode(course).buffer as ArrayBuffer,
+      'loop.tcx',
+      parseXml
+    );
+
+    assert.equal(parsed.format, 'tcx');
+    assert.equal(parsed.name, 'Garda loop');
+    assert.deepEqual(parsed.lines, [
+      [
+        [10.84, 45.88, 70],
+        [10.85, 45.89],
+      ],
+      [
+        [10.86, 45.9, 90],
+        [10.87, 45.91, 95],
+      ],
+    ]);
+    assert.deepEqual(parsed.waypoints, [
+      {
+        name: 'Summit',
+        lat: 45.9,
+        lng: 10.86,
+        elevation: 90,
+        symbol: 'Summit',
+        description: 'Top of the climb',
+      },
+    ]);
+  });
+
+  it('recognizes the format without an extension', () => {
+    const parsed = parseRouteFile(
+      new TextEncoder().encode(course).buffer as ArrayBuffer,
+      'download',
+      parseXml
+    );
+    assert.equal(parsed.format, 'tcx');
+  });
+});
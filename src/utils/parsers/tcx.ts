@@ -0,0 +1,80 @@
+import type { Position } from 'geojson';
+import type { Waypoint } from '../../types/route';
+import type { RouteParser } from './types';
+
+/**
+ * Text of the first descendant element with the given tag, if any
+ */
+function childText(element: Element, tag: string): string | undefined {
+  const child = element.getElementsByTagName(tag)[0];
+  const text = child?.textContent?.trim();
+  return text ? text : undefined;
+}
+
+function childNumber(element: Element, tag: string): number | undefined {
+  const text = childText(element, tag);
+  const value = text === undefined ? NaN : parseFloat(text);
+  return Number.isFinite(value) ? value : undefined;
+}
+
+/**
+ * Read the <Position> of a trackpoint or course point as [lng, lat, ele?]
+ */
+function readPosition(element: Element): Position | null {
+  const position = element.getElementsByTagName('Position')[0];
+  if (!position) return null;
+
+  const lat = childNumber(position, 'LatitudeDegrees');
+  const lng = childNumber(position, 'LongitudeDegrees');
+  if (lat === undefined || lng === undefined) return null;
+
+  const elevation = childNumber(element, 'AltitudeMeters');
+  return elevation === undefined ? [lng, lat] : [lng, lat, elevation];
+}
+
+/**
+ * TCX: each <Track> (per activity lap or per course) is a segment.
+ * Trackpoints without a position (paused recording) are skipped, and
+ * course points become waypoints.
+ */
+export const tcxParser: RouteParser = {
+  format: 'tcx',
+  label: 'TCX',
+  extensions: ['.tcx'],
+  sniff: (_bytes, text) => /<TrainingCenterDatabase[\s>]/.test(text),
+  parse: (data, parseXml) => {
+    const doc = parseXml(new TextDecoder().decode(data));
+
+    const lines = Array.from(doc.getElementsByTagName('Track'))
+      .map((track) =>
+        Array.from(track.getElementsByTagName('Trackpoint'))
+          .map(readPosition)
+          .filter((p): p is Position => p !== null)
+      )
+      .filter((line) => line.length >= 2);
+
+    const waypoints: Waypoint[] = [];
+    Array.from(doc.getElementsByTagName('CoursePoint')).forEach((point, i) => {
+      const position = readPosition(point);
+      if (!position) return;
+      const [lng, lat, elevation] = position;
+      waypoints.push({
+        name: childText(point, 'Name') ?? `Waypoint ${i + 1}`,
+        lat,
+        lng,
+        elevation,
+        symbol: childText(point, 'PointType'),
+        description: childText(point, 'Notes'),
+      });
+    });
+
+    const course = doc.getElementsByTagName('Course')[0];
+
+    return {
+      format: 'tcx',
+      name: course ? childText(course, 'Name') : undefined,
+      lines,
+      waypoints,
+    };
+  },
+};
@@ -0,0 +1,28 @@
+import type { Position } from 'geojson';
+import type { Waypoint } from '../../types/route';
+
+export type RouteFormat = 'gpx' | 'tcx' | 'fit' | 'geojson';
+
+/**
+ * Format-independent result of parsing a route file. Lines are the track
+ * segments in file order; positions are [lng, lat, elevation?].
+ */
+export interface ParsedRoute {
+  format: RouteFormat;
+  name?: string;
+  lines: Position[][];
+  waypoints: Waypoint[];
+}
+
+// Parses XML text into a DOM document; DOMParser in the browser, xmldom in
+// scripts. Throws on malformed XML.
+export type XmlParser = (text: string) => Document;
+
+export interface RouteParser {
+  format: RouteFormat;
+  label: string;
+  extensions: string[]; // lowercase, with the leading dot
+  // Recognize the format from the file contents when the extension is unknown
+  sniff: (bytes: Uint8Array, text: string) => boolean;
+  parse: (data: ArrayBuffer, parseXml: XmlParser) => ParsedRoute;
+}
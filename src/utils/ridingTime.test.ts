@@ -0,0 +1,73 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import type { SurfaceType } from '../types/route';
+import {
+  calculateCumulativeRidingTimes,
+  FITNESS_LEVELS,
+  formatDuration,
+  withStops,
+} from './ridingTime';
+
+const settings = FITNESS_LEVELS.steady.settings;
+
+// 10 km with a point every 100 m
+const distances = Array.from({ length: 101 }, (_, i) => i * 0.1);
+const flat = distances.map(() => 100);
+
+const near = (actual: number, expected: number, tolerance: number) =>
+  assert.ok(Math.abs(actual - expected) <= tolerance, `${actual} != ${expected}`);
+
+describe('calculateCumulativeRidingTimes', () => {
+  it('rides flat ground at the surface speed', () => {
+    const times = calculateCumulativeRidingTimes(flat, distances, undefined, settings);
+
+    assert.equal(times.length, distances.length);
+    assert.equal(times[0], 0);
+    near(times[50], 5 / settings.flatSpeeds.unknown, 1e-9);
+    near(times[100], 10 / settings.flatSpeeds.unknown, 1e-9);
+  });
+
+  it('applies each point surface to the stretch after it', () => {
+    const surfaces: SurfaceType[] = distances.map((_, i) => (i < 50 ? 'paved' : 'gravel'));
+    const times = calculateCumulativeRidingTimes(flat, distances, surfaces, settings);
+
+    near(times[50], 5 / settings.flatSpeeds.paved, 1e-9);
+    near(times[100] - times[50], 5 / settings.flatSpeeds.gravel, 1e-9);
+  });
+
+  it('combines flat and climbing time on climbs', () => {
+    const climbing = distances.map((d) => 100 + d * 60); // 6%
+    const times = calculateCumulativeRidingTimes(climbing, distances, undefined, settings);
+
+    const flatHours = 10 / settings.flatSpeeds.unknown;
+    const climbHours = 600 / settings.climbingRate;
+    near(times[100], Math.hypot(flatHours, climbHours), 0.05);
+  });
+
+  it('rides descents faster than flat ground, up to the maximum speed', () => {
+    const descending = distances.map((d) => 1000 - d * 40); // -4%
+    const times = calculateCumulativeRidingTimes(descending, distances, undefined, settings);
+
+    assert.ok(times[100] < 10 / settings.flatSpeeds.unknown);
+    assert.ok(times[100] >= 10 / settings.maxDescentSpeed);
+  });
+
+  it('adds no time where the distance does not grow', () => {
+    const gapped = [0, 0.1, 0.2, 0.2, 0.3];
+    const elevations = gapped.map(() => 100);
+    const times = calculateCumulativeRidingTimes(elevations, gapped, undefined, settings);
+    assert.equal(times[3], times[2]);
+  });
+
+  it('returns nothing for an empty line', () => {
+    assert.deepEqual(calculateCumulativeRidingTimes([], [], undefined, settings), []);
+  });
+});
+
+describe('withStops and formatDuration', () => {
+  it('adds the stop minutes per hour and formats the result', () => {
+    near(withStops(2, settings), 2 + (2 * settings.stopMinutesPerHour) / 60, 1e-9);
+    assert.equal(formatDuration(0.75), '45m');
+    assert.equal(formatDuration(5.12), '5h 07m');
+  });
+});
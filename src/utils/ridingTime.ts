@@ -0,0 +1,152 @@
+/**
+ * Riding time estimates from a route's profile and surfaces.
+ *
+ * Each stretch between two points takes its flat time at the surface's
+ * speed, combined with its climbing time at the rider's rate of ascent
+ * (root of the sum of squares, so gentle grades cost little and steep ones
+ * are limited by the climbing rate). Descents speed up with the grade up to
+ * a surface-scaled maximum, and slow down again where they're steep enough
+ * to need braking. Stops are added on top as minutes per hour of riding.
+ */
+
+import type { SurfaceType } from '../types/route';
+import { calculateLineGrades } from './gradient';
+
+export type FitnessLevel = 'relaxed' | 'steady' | 'strong';
+
+export interface RidingSettings {
+  flatSpeeds: Record<SurfaceType, number>; // km/h on level ground
+  climbingRate: number; // meters of ascent per hour on climbs
+  maxDescentSpeed: number; // km/h on paved descents, scaled by surface
+  stopMinutesPerHour: number; // breaks per hour of moving time
+}
+
+export const FITNESS_LEVELS: Record<
+  FitnessLevel,
+  { label: string; description: string; settings: RidingSettings }
+> = {
+  relaxed: {
+    label: 'Relaxed',
+    description: 'Touring pace with luggage and plenty of breaks',
+    settings: {
+      flatSpeeds: { paved: 20, gravel: 15, unpaved: 11, unknown: 17 },
+      climbingRate: 500,
+      maxDescentSpeed: 35,
+      stopMinutesPerHour: 10,
+    },
+  },
+  steady: {
+    label: 'Steady',
+    description: 'Fit rider on a loaded bike, regular short stops',
+    settings: {
+      flatSpeeds: { paved: 25, gravel: 19, unpaved: 14, unknown: 21 },
+      climbingRate: 700,
+      maxDescentSpeed: 45,
+      stopMinutesPerHour: 7,
+    },
+  },
+  strong: {
+    label: 'Strong',
+    description: 'Racing pace, light bike, few stops',
+    settings: {
+      flatSpeeds: { paved: 30, gravel: 23, unpaved: 17, unknown: 26 },
+      climbingRate: 1000,
+      maxDescentSpeed: 55,
+      stopMinutesPerHour: 4,
+    },
+  },
+};
+
+export const DEFAULT_FITNESS_LEVEL: FitnessLevel = 'steady';
+
+// Speed gained per percent of descent, as a fraction of the flat speed
+const DESCENT_SPEEDUP = 0.06;
+
+// Descents steeper than this (percent) get slower again, by the fraction
+// per percent beyond it, down to half of the speed at this grade
+const STEEP_DESCENT_GRADE = 8;
+const STEEP_DESCENT_SLOWDOWN = 0.05;
+
+/**
+ * Hours to ride a stretch of the given length (km) and grade (percent)
+ */
+function getStretchHours(
+  km: number,
+  grade: number,
+  surface: SurfaceType,
+  settings: RidingSettings
+): number {
+  const flatSpeed = settings.flatSpeeds[surface];
+  if (km <= 0 || flatSpeed <= 0) return 0;
+
+  if (grade >= 0) {
+    const flatHours = km / flatSpeed;
+    const climbHours = settings.climbingRate > 0 ? (km * 10 * grade) / settings.climbingRate : 0;
+    return Math.hypot(flatHours, climbHours);
+  }
+
+  const descent = -grade;
+  const maxSpeed = settings.maxDescentSpeed * (flatSpeed / settings.flatSpeeds.paved);
+  let speed = flatSpeed * (1 + DESCENT_SPEEDUP * Math.min(descent, STEEP_DESCENT_GRADE));
+  if (descent > STEEP_DESCENT_GRADE) {
+    speed *= Math.max(0.5, 1 - STEEP_DESCENT_SLOWDOWN * (descent - STEEP_DESCENT_GRADE));
+  }
+  return km / Math.max(flatSpeed, Math.min(maxSpeed, speed));
+}
+
+/**
+ * Moving time (hours) from the start of a line to each of its points.
+ * A point's surface applies to the stretch after it; points without one
+ * count as unknown. The time between two points is the difference of
+ * theirs.
+ */
+export function calculateCumulativeRidingTimes(
+  elevations: number[],
+  distances: number[], // cumulative km
+  surfaces: (SurfaceType | undefined)[] | undefined,
+  settings: RidingSettings
+): number[] {
+  const grades = calculateLineGrades(elevations, distances);
+  const times = distances.length > 0 ? [0] : [];
+
+  for (let i = 1; i < distances.length; i++) {
+    const hours = getStretchHours(
+      distances[i] - distances[i - 1],
+      (grades[i - 1] + grades[i]) / 2,
+      surfaces?.[i - 1] ?? 'unknown',
+      settings
+    );
+    times.push(times[i - 1] + hours);
+  }
+
+  return times;
+}
+
+/**
+ * Moving time (hours) of a whole line
+ */
+export function estimateMovingTime(
+  elevations: number[],
+  distances: number[],
+  surfaces: (SurfaceType | undefined)[] | undefined,
+  settings: RidingSettings
+): number {
+  const times = calculateCumulativeRidingTimes(elevations, distances, surfaces, settings);
+  return times[times.length - 1] ?? 0;
+}
+
+/**
+ * Total time (hours) of a ride including stops
+ */
+export function withStops(movingHours: number, settings: RidingSettings): number {
+  return movingHours * (1 + settings.stopMinutesPerHour / 60);
+}
+
+/**
+ * Format hours as "5h 07m", or just minutes under an hour
+ */
+export function formatDuration(hours: number): string {
+  const minutes = Math.round(hours * 60);
+  if (minutes < 60) return `${minutes}m`;
+  return `${Math.floor(minutes / 60)}h ${String(minutes % 60).padStart(2, '0')}m`;
+}
@@ -0,0 +1,73 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import type { Segment } from '../types/segments';
+import { decodeRouteBundle, encodeRouteBundle, type BundledTrack } from './routeBundle';
+
+const routes: BundledTrack[] = [
+  {
+    id: 'gravel',
+    name: 'Gravel',
+    coordinates: [
+      [10.841234, 45.881234, 70.25],
+      [10.842345, 45.882345, 75.5],
+      [10.843456, 45.883456, 72],
+      [10.844567, 45.884567, 68.75],
+    ],
+    gaps: [{ index: 2, distance: 0.15 }],
+    waypoints: [{ name: 'Riva', lat: 45.885, lng: 10.84, symbol: 'Lodging' }],
+  },
+];
+
+const segments: Segment[] = [
+  {
+    id: 'segment-1',
+    type: 'shared',
+    order: 0,
+    variants: {
+      gravel: {
+        start: { coordinates: [10.841234, 45.881234, 70.25], distanceKm: 0 },
+        end: { coordinates: [10.844567, 45.884567, 68.75], distanceKm: 0.305123456789 },
+        startIndex: 1,
+        endIndex: 3,
+        distanceKm: 0.305123456789,
+        elevationGain: 5.25,
+        elevationLoss: 6.75,
+      },
+    },
+  },
+];
+
+describe('route bundle', () => {
+  it('decodes what it encodes', () => {
+    const decoded = decodeRouteBundle(
+      JSON.parse(JSON.stringify(encodeRouteBundle(routes, segments)))
+    );
+
+    assert.equal(decoded.routes.length, 1);
+    const [route] = decoded.routes;
+    assert.equal(route.id, 'gravel');
+    assert.equal(route.name, 'Gravel');
+    assert.deepEqual(route.gaps, routes[0].gaps);
+    assert.deepEqual(route.waypoints, routes[0].waypoints);
+    route.coordinates.forEach((coordinate, i) => {
+      routes[0].coordinates[i].forEach((value, j) => {
+        assert.ok(Math.abs(coordinate[j] - value) < 1e-6, `point ${i}, value ${j}`);
+      });
+    });
+
+    const stats = decoded.segments[0].variants.gravel;
+    assert.equal(decoded.segments[0].id, 'segment-1');
+    assert.equal(stats.startIndex, 1);
+    assert.equal(stats.endIndex, 3);
+    assert.ok(Math.abs(stats.distanceKm - 0.305123456789) < 1e-6);
+    assert.deepEqual(stats.end.coordinates, [10.844567, 45.884567, 68.75]);
+  });
+
+  it('rejects other bundle versions', () => {
+    const bundle = encodeRouteBundle(routes, segments);
+    assert.throws(
+      () => decodeRouteBundle({ ...bundle, version: bundle.version + 1 }),
+      /Unsupported route bundle version/
+    );
+  });
+});
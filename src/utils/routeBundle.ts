@@ -0,0 +1,195 @@
+/**
+ * Compact route data bundle.
+ *
+ * One file carrying every official route (with surfaces, when enriched)
+ * and the segments, built by scripts/build-route-bundle.ts so the app
+ * doesn't parse GPX at runtime.
+ * Coordinates are quantized to integers and delta-encoded; segments only
+ * hold their junctions and index ranges into the tracks. Profiles and
+ * stats are derived from the decoded tracks on load, which is cheap next
+ * to parsing.
+ */
+
+import type { Position } from 'geojson';
+import type { RouteGap, Waypoint } from '../types/route';
+import type { Segment, SegmentJunction, SegmentStats } from '../types/segments';
+import type { RouteTrack } from './routeData';
+import { decodeSurfaceRuns, encodeSurfaceRuns, type SurfaceRuns } from './surface';
+
+export const ROUTE_BUNDLE_VERSION = 2;
+
+const COORDINATE_SCALE = 1e6; // ~0.1 m, as precise as typical GPX files
+const ELEVATION_SCALE = 100; // cm
+const STATS_DECIMALS = 6;
+
+export interface RouteBundle {
+  version: number;
+  routes: BundleRoute[];
+  segments: BundleSegment[];
+}
+
+interface BundleRoute {
+  id: string;
+  name?: string;
+  // Interleaved lng, lat, elevation integers, each the difference from the
+  // previous point's value (the first point is absolute)
+  coordinates: number[];
+  gaps: RouteGap[];
+  waypoints: Waypoint[];
+  surfaces?: SurfaceRuns;
+}
+
+interface BundleJunction {
+  coordinates: number[]; // quantized, not delta-encoded
+  distanceKm: number;
+}
+
+interface BundleSegmentVariant {
+  start: BundleJunction;
+  end: BundleJunction;
+  startIndex: number;
+  endIndex: number;
+  distanceKm: number;
+  elevationGain: number;
+  elevationLoss: number;
+}
+
+interface BundleSegment {
+  id: string;
+  type: Segment['type'];
+  order: number;
+  variants: Record<string, BundleSegmentVariant>;
+}
+
+export interface BundledTrack extends RouteTrack {
+  id: string; // variant id
+}
+
+export interface DecodedRouteBundle {
+  routes: BundledTrack[];
+  segments: Segment[];
+}
+
+function quantize([lng, lat, elevation = 0]: Position): number[] {
+  return [
+    Math.round(lng * COORDINATE_SCALE),
+    Math.round(lat * COORDINATE_SCALE),
+    Math.round(elevation * ELEVATION_SCALE),
+  ];
+}
+
+function dequantize([lng, lat, elevation]: number[]): [number, number, number] {
+  return [lng / COORDINATE_SCALE, lat / COORDINATE_SCALE, elevation / ELEVATION_SCALE];
+}
+
+function roundStat(value: number): number {
+  return Number(value.toFixed(STATS_DECIMALS));
+}
+
+function deltaEncode(coordinates: Position[]): number[] {
+  const encoded: number[] = [];
+  let previous = [0, 0, 0];
+  for (const coordinate of coordinates) {
+    const current = quantize(coordinate);
+    encoded.push(current[0] - previous[0], current[1] - previous[1], current[2] - previous[2]);
+    previous = current;
+  }
+  return encoded;
+}
+
+function deltaDecode(encoded: number[]): [number, number, number][] {
+  const coordinates: [number, number, number][] = [];
+  let lng = 0;
+  let lat = 0;
+  let elevation = 0;
+  for (let i = 0; i + 2 < encoded.length; i += 3) {
+    lng += encoded[i];
+    lat += encoded[i + 1];
+    elevation += encoded[i + 2];
+    coordinates.push(dequantize([lng, lat, elevation]));
+  }
+  return coordinates;
+}
+
+function encodeJunction({ coordinates, distanceKm }: SegmentJunction): BundleJunction {
+  return { coordinates: quantize(coordinates), distanceKm: roundStat(distanceKm) };
+}
+
+function decodeJunction({ coordinates, distanceKm }: BundleJunction): SegmentJunction {
+  return { coordinates: dequantize(coordinates), distanceKm };
+}
+
+/**
+ * Encode routes and the segments referencing them into a bundle
+ */
+export function encodeRouteBundle(routes: BundledTrack[], segments: Segment[]): RouteBundle {
+  const bundleSegments = segments.map((segment) => {
+    const variants: Record<string, BundleSegmentVariant> = {};
+    for (const [variantId, stats] of Object.entries(segment.variants)) {
+      variants[variantId] = {
+        start: encodeJunction(stats.start),
+        end: encodeJunction(stats.end),
+        startIndex: stats.startIndex,
+        endIndex: stats.endIndex,
+        distanceKm: roundStat(stats.distanceKm),
+        elevationGain: roundStat(stats.elevationGain),
+        elevationLoss: roundStat(stats.elevationLoss),
+      };
+    }
+    return { id: segment.id, type: segment.type, order: segment.order, variants };
+  });
+
+  return {
+    version: ROUTE_BUNDLE_VERSION,
+    routes: routes.map((route) => ({
+      id: route.id,
+      name: route.name,
+      coordinates: deltaEncode(route.coordinates),
+      gaps: route.gaps,
+      waypoints: route.waypoints,
+      surfaces: route.surfaces && encodeSurfaceRuns(route.surfaces),
+    })),
+    segments: bundleSegments,
+  };
+}
+
+/**
+ * Decode a bundle back into route tracks and segments
+ */
+export function decodeRouteBundle(bundle: RouteBundle): DecodedRouteBundle {
+  if (bundle.version !== ROUTE_BUNDLE_VERSION) {
+    throw new Error(
+      `Unsupported route bundle version ${bundle.version}, expected ${ROUTE_BUNDLE_VERSION}`
+    );
+  }
+
+  const routes = bundle.routes.map((route) => {
+    const coordinates = deltaDecode(route.coordinates);
+    return {
+      id: route.id,
+      name: route.name,
+      coordinates,
+      gaps: route.gaps,
+      waypoints: route.waypoints,
+      surfaces: route.surfaces && decodeSurfaceRuns(route.surfaces, coordinates.length),
+    };
+  });
+
+  const segments: Segment[] = bundle.segments.map((segment) => {
+    const variants: Record<string, SegmentStats> = {};
+    for (const [variantId, variant] of Object.entries(segment.variants)) {
+      variants[variantId] = {
+        start: decodeJunction(variant.start),
+        end: decodeJunction(variant.end),
+        startIndex: variant.startIndex,
+        endIndex: variant.endIndex,
+        distanceKm: variant.distanceKm,
+        elevationGain: variant.elevationGain,
+        elevationLoss: variant.elevationLoss,
+      };
+    }
+    return { id: segment.id, type: segment.type, order: segment.order, variants };
+  });
+
+  return { routes, segments };
+}
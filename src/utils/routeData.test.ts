@@ -0,0 +1,90 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import type { Position } from 'geojson';
+import { parseXml } from '../../scripts/xml-parser';
+import { CLIMBING_METHODS } from './elevation';
+import { calculateCumulativeDistances } from './geo';
+import { parseRouteFile } from './parsers';
+import { buildRouteData } from './routeData';
+import { analyzeSegments, DEFAULT_ANALYSIS_OPTIONS } from './segmentAnalysis';
+import {
+  getRouteGaps,
+  getRouteTracks,
+  getSegmentCoordinates,
+  getSegmentDistances,
+} from './segmentGeometry';
+
+/**
+ * A line of points heading north from the given position, climbing 5 m a
+ * point
+ */
+function makeLine(lng: number, lat: number, pointCount: number): Position[] {
+  return Array.from({ length: pointCount }, (_, i) => [lng, lat + i * 0.002, 70 + i * 5]);
+}
+
+function toGpx(segments: Position[][]): string {
+  const trksegs = segments
+    .map(
+      (points) =>
+        '<trkseg>' +
+        points
+          .map(([lng, lat, ele]) => `<trkpt lat="${lat}" lon="${lng}"><ele>${ele}</ele></trkpt>`)
+          .join('') +
+        '</trkseg>'
+    )
+    .join('');
+  return (
+    '<?xml version="1.0"?><gpx version="1.1" xmlns="http://www.topografix.com/GPX/1/1">' +
+    `<trk><name>Two segments</name>${trksegs}</trk></gpx>`
+  );
+}
+
+function parseGpx(text: string) {
+  const data = new TextEncoder().encode(text).buffer as ArrayBuffer;
+  return parseRouteFile(data, 'route.gpx', parseXml);
+}
+
+const lengthKm = (line: Position[]) => calculateCumulativeDistances(line).at(-1) ?? 0;
+
+// Two segments 1.5 km apart; the bridge between them wasn't ridden
+const first = makeLine(10.84, 45.88, 11);
+const second = makeLine(10.86, 45.9, 11);
+const riddenKm = lengthKm(first) + lengthKm(second);
+
+describe('two-segment GPX', () => {
+  const parsed = parseGpx(toGpx([first, second]));
+  const route = buildRouteData(parsed, 'gapped', 'Gapped', '#000', '#000');
+
+  it('records the break and leaves the bridge out of the route distance', () => {
+    assert.deepEqual(route.gaps.map((gap) => gap.index), [first.length]);
+    assert.ok(route.gaps[0].distance > 1);
+    assert.ok(Math.abs(route.stats.distance - riddenKm) < 1e-9);
+    assert.ok(Math.abs((route.elevationProfile.at(-1)?.distance ?? 0) - riddenKm) < 1e-9);
+  });
+
+  it('measures segments the same way as the route', () => {
+    const copy = { ...route, id: 'copy' };
+    const { segments } = analyzeSegments(
+      [route, copy].map((r) => ({
+        id: r.id,
+        coordinates: r.geojson.geometry.coordinates,
+        gaps: r.gaps,
+      })),
+      { ...DEFAULT_ANALYSIS_OPTIONS, elevationSettings: CLIMBING_METHODS.raw.settings }
+    );
+    const tracks = getRouteTracks([route, copy]);
+    const gaps = getRouteGaps([route, copy]);
+
+    for (const id of ['gapped', 'copy']) {
+      const analyzedKm = segments.reduce((sum, s) => sum + s.variants[id].distanceKm, 0);
+      const measuredKm = segments.reduce((sum, s) => {
+        const stats = s.variants[id];
+        const coordinates = getSegmentCoordinates(stats, tracks[id]);
+        const distances = getSegmentDistances(stats, coordinates, gaps[id]);
+        return sum + (distances.at(-1) ?? 0);
+      }, 0);
+      assert.ok(Math.abs(analyzedKm - riddenKm) < 1e-6, `${id} analysis: ${analyzedKm}`);
+      assert.ok(Math.abs(measuredKm - riddenKm) < 1e-6, `${id} segments: ${measuredKm}`);
+    }
+  });
+});
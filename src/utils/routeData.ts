@@ -0,0 +1,338 @@
+import type { Position } from 'geojson';
+import type {
+  ElevationPoint,
+  RouteData,
+  RouteGap,
+  RouteStats,
+  SurfaceType,
+  Waypoint,
+} from '../types/route';
+import {
+  calculateElevationChange,
+  CLIMBING_METHODS,
+  DEFAULT_CLIMBING_METHOD,
+  fillMissingElevations,
+  type ElevationSettings,
+} from './elevation';
+import { detectClimbs } from './climbs';
+import { haversineDistance } from './geo';
+import { parseRouteFile, type ParsedRoute } from './parsers';
+
+// A route's track segments joined into one line
+export interface RouteTrack {
+  name?: string;
+  coordinates: Position[]; // [lng, lat, elevation]
+  gaps: RouteGap[];
+  waypoints: Waypoint[];
+  surfaces?: SurfaceType[]; // per point, from the surface enrichment
+}
+
+/**
+ * Fetch a route file (GPX, TCX, FIT or GeoJSON) and extract route data
+ * with elevation profile
+ */
+export async function loadRouteFile(
+  url: string,
+  id: string,
+  name: string,
+  color: string,
+  fillColor: string
+): Promise<RouteData> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to load ${url}: ${response.status}`);
+  }
+  const data = await response.arrayBuffer();
+  
+  return buildRouteData(parseRouteFile(data, url), id, name, color, fillColor);
+}
+
+/**
+ * Build route data from a parsed route file.
+ *
+ * All track segments are joined in order, with the breaks between them
+ * recorded as gaps.
+ */
+export function buildRouteData(
+  parsed: ParsedRoute,
+  id: string,
+  name: string,
+  color: string,
+  fillColor: string
+): RouteData {
+  const { coordinates, gaps } = joinLines(parsed.lines);
+  
+  return buildRouteDataFromTrack(
+    { name: parsed.name, coordinates, gaps, waypoints: parsed.waypoints },
+    id,
+    name,
+    color,
+    fillColor
+  );
+}
+
+/**
+ * Build route data from an already joined track, as stored in the route
+ * bundle
+ */
+export function buildRouteDataFromTrack(
+  track: RouteTrack,
+  id: string,
+  name: string,
+  color: string,
+  fillColor: string
+): RouteData {
+  const { coordinates, gaps, surfaces } = track;
+  
+  // Extract elevation profile
+  const elevationProfile = extractElevationProfile(coordinates, gaps, surfaces);
+  
+  // Calculate stats
+  const stats = calculateRouteStats(elevationProfile);
+  
+  return {
+    id,
+    name,
+    color,
+    fillColor,
+    geojson: {
+      type: 'Feature',
+      properties: { name: track.name ?? name },
+      geometry: { type: 'LineString', coordinates },
+    },
+    elevationProfile,
+    stats,
+    gaps,
+    waypoints: track.waypoints,
+    surfaces,
+    climbs: detectClimbs(elevationProfile),
+  };
+}
+
+/**
+ * Attach per-point surfaces to route data loaded without them
+ */
+export function applySurfaces(route: RouteData, surfaces: SurfaceType[]): RouteData {
+  return {
+    ...route,
+    elevationProfile: route.elevationProfile.map((point, i) => ({
+      ...point,
+      surface: surfaces[i],
+    })),
+    surfaces,
+  };
+}
+
+/**
+ * Join track segments into one line, recording where each break falls.
+ * Missing elevations are filled so every coordinate is [lng, lat, elevation].
+ */
+export function joinLines(lines: Position[][]): { coordinates: Position[]; gaps: RouteGap[] } {
+  const joined: Position[] = [];
+  const gaps: RouteGap[] = [];
+  
+  for (const line of lines) {
+    if (line.length === 0) continue;
+    if (joined.length > 0) {
+      const [prevLng, prevLat] = joined[joined.length - 1];
+      const [lng, lat] = line[0];
+      gaps.push({
+        index: joined.length,
+        distance: haversineDistance(prevLat, prevLng, lat, lng),
+      });
+    }
+    joined.push(...line);
+  }
+  
+  const elevations = fillMissingElevations(joined.map((c) => c[2]));
+  const coordinates = joined.map(([lng, lat], i) => [lng, lat, elevations[i]]);
+  
+  return { coordinates, gaps };
+}
+
+/**
+ * Extract elevation profile from coordinates
+ * Coordinates are [lon, lat, elevation]. The straight bridge across a gap
+ * wasn't ridden: it adds no distance and its grade is 0.
+ */
+function extractElevationProfile(
+  coordinates: Position[],
+  gaps: RouteGap[],
+  surfaces?: SurfaceType[]
+): ElevationPoint[] {
+  const profile: ElevationPoint[] = [];
+  const gapIndices = new Set(gaps.map((g) => g.index));
+  let cumulativeDistance = 0;
+  
+  for (let i = 0; i < coordinates.length; i++) {
+    const [lng, lat, elevation = 0] = coordinates[i];
+    
+    if (i > 0 && !gapIndices.has(i)) {
+      const [prevLng, prevLat] = coordinates[i - 1];
+      cumulativeDistance += haversineDistance(prevLat, prevLng, lat, lng);
+    }
+    
+    // Calculate grade (gradient) if we have previous points
+    let grade = 0;
+    if (i > 0 && !gapIndices.has(i)) {
+      const [, , prevElevation = 0] = coordinates[i - 1];
+      const [prevLng, prevLat] = coordinates[i - 1];
+      const segmentDistance = haversineDistance(prevLat, prevLng, lat, lng) * 1000; // meters
+      if (segmentDistance > 0) {
+        grade = ((elevation - prevElevation) / segmentDistance) * 100;
+      }
+    }
+    
+    profile.push({
+      distance: cumulativeDistance,
+      elevation,
+      lat,
+      lng,
+      grade,
+      surface: surfaces?.[i],
+    });
+  }
+  
+  // Smooth the grade values using a moving average
+  const smoothedProfile = smoothGrade(profile, 10);
+  
+  return smoothedProfile;
+}
+
+/**
+ * Smooth grade values using a moving average
+ */
+function smoothGrade(profile: ElevationPoint[], windowSize: number): ElevationPoint[] {
+  return profile.map((point, i) => {
+    const start = Math.max(0, i - Math.floor(windowSize / 2));
+    const end = Math.min(profile.length, i + Math.ceil(windowSize / 2));
+    const window = profile.slice(start, end);
+    const avgGrade = window.reduce((sum, p) => sum + (p.grade || 0), 0) / window.length;
+    return { ...point, grade: avgGrade };
+  });
+}
+
+/**
+ * Calculate route statistics
+ * Elevation gain/loss use the given elevation settings; max/min use the
+ * raw profile
+ */
+export function calculateRouteStats(
+  profile: ElevationPoint[],
+  settings: ElevationSettings = CLIMBING_METHODS[DEFAULT_CLIMBING_METHOD].settings
+): RouteStats {
+  let maxElevation = -Infinity;
+  let minElevation = Infinity;
+  
+  for (const { elevation } of profile) {
+    if (elevation > maxElevation) maxElevation = elevation;
+    if (elevation < minElevation) minElevation = elevation;
+  }
+  
+  const { elevationGain, elevationLoss } = calculateElevationChange(
+    profile.map((p) => p.elevation),
+    profile.map((p) => p.distance),
+    settings
+  );
+  
+  const distance = profile.length > 0 ? profile[profile.length - 1].distance : 0;
+  
+  return {
+    distance,
+    elevationGain,
+    elevationLoss,
+    maxElevation,
+    minElevation,
+  };
+}
+
+/**
+ * Find the closest point on the route to a given distance
+ */
+export function findPointAtDistance(
+  profile: ElevationPoint[],
+  targetDistance: number
+): ElevationPoint | null {
+  if (profile.length === 0) return null;
+  
+  // Binary search for the closest point
+  let left = 0;
+  let right = profile.length - 1;
+  
+  while (left < right) {
+    const mid = Math.floor((left + right) / 2);
+    if (profile[mid].distance < targetDistance) {
+      left = mid + 1;
+    } else {
+      right = mid;
+    }
+  }
+  
+  // Check which of the two adjacent points is closer
+  if (left > 0) {
+    const prevDiff = Math.abs(profile[left - 1].distance - targetDistance);
+    const currDiff = Math.abs(profile[left].distance - targetDistance);
+    if (prevDiff < currDiff) {
+      return profile[left - 1];
+    }
+  }
+  
+  return profile[left];
+}
+
+/**
+ * Find the closest point on the route to given coordinates
+ */
+export function findClosestPoint(
+  profile: ElevationPoint[],
+  lat: number,
+  lng: number
+): ElevationPoint | null {
+  if (profile.length === 0) return null;
+  
+  let closestPoint = profile[0];
+  let minDistance = Infinity;
+  
+  for (const point of profile) {
+    const distance = haversineDistance(lat, lng, point.lat, point.lng);
+    if (distance < minDistance) {
+      minDistance = distance;
+      closestPoint = point;
+    }
+  }
+  
+  return closestPoint;
+}
+
+/**
+ * Indices to keep when downsampling a line of points to at most about
+ * maxPoints: every nth point, always including the last
+ */
+export function downsampleIndices(length: number, maxPoints: number): number[] {
+  if (length <= maxPoints) return Array.from({ length }, (_, i) => i);
+  
+  const step = Math.ceil(length / maxPoints);
+  const indices: number[] = [];
+  
+  for (let i = 0; i < length; i += step) {
+    indices.push(i);
+  }
+  
+  // Always include the last point
+  if (indices[indices.length - 1] !== length - 1) {
+    indices.push(length - 1);
+  }
+  
+  return indices;
+}
+
+/**
+ * Downsample elevation profile for chart rendering performance
+ */
+export function downsampleProfile(
+  profile: ElevationPoint[],
+  maxPoints: number
+): ElevationPoint[] {
+  if (profile.length <= maxPoints) return profile;
+  return downsampleIndices(profile.length, maxPoints).map((i) => profile[i]);
+}
@@ -0,0 +1,37 @@
+/**
+ * The official route variants, shared by the data loading, the route
+ * builder and the segment utilities
+ */
+
+export interface RouteVariantConfig {
+  id: string;
+  name: string;
+  shortName: string; // Column header in the segment table
+  color: string;
+  fillColor: string;
+  url: string; // GPX, TCX, FIT or GeoJSON file, loaded when there's no route bundle
+  urlCode: string; // Prefix used when encoding selections in the URL
+}
+
+// Official route variants, in display order (first is drawn on top).
+// Ids must match the variant keys in segments.json.
+export const ROUTE_VARIANTS: RouteVariantConfig[] = [
+  {
+    id: 'gravel',
+    name: 'Gravel Route',
+    shortName: 'Gravel',
+    color: '#E67E22', // Warm terracotta orange
+    fillColor: 'rgba(230, 126, 34, 0.3)',
+    url: '/data/gravel.gpx',
+    urlCode: 'g',
+  },
+  {
+    id: 'tarmac',
+    name: 'Tarmac Route',
+    shortName: 'Tarmac',
+    color: '#3498DB', // Lake Garda blue
+    fillColor: 'rgba(52, 152, 219, 0.3)',
+    url: '/data/tarmac.gpx',
+    urlCode: 't',
+  },
+];
@@ -0,0 +1,82 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import type { Position } from 'geojson';
+import { CLIMBING_METHODS } from './elevation';
+import { calculateCumulativeDistances } from './geo';
+import {
+  analyzeSegments,
+  DEFAULT_ANALYSIS_OPTIONS,
+  summarizeSegments,
+  type AnalysisRoute,
+} from './segmentAnalysis';
+
+const options = {
+  ...DEFAULT_ANALYSIS_OPTIONS,
+  elevationSettings: CLIMBING_METHODS.raw.settings,
+};
+
+// Two routes north from Riva del Garda, ~111 m between points. The tarmac
+// one takes a parallel road ~780 m east for points 20-39.
+const gravel: Position[] = Array.from({ length: 60 }, (_, i) => [10.84, 45.88 + i * 0.001, 70]);
+const tarmac: Position[] = gravel.map(([lng, lat, elevation], i) =>
+  i >= 20 && i < 40 ? [lng + 0.01, lat, elevation] : [lng, lat, elevation]
+);
+const routes: AnalysisRoute[] = [
+  { id: 'gravel', coordinates: gravel },
+  { id: 'tarmac', coordinates: tarmac },
+];
+
+const lengthKm = (line: Position[]) => calculateCumulativeDistances(line).at(-1) ?? 0;
+
+describe('analyzeSegments', () => {
+  it('splits a detour into shared, diverging and shared segments', () => {
+    const { segments, routes: analyzed } = analyzeSegments(routes, options);
+
+    assert.deepEqual(segments.map((s) => s.type), ['shared', 'diverging', 'shared']);
+    assert.deepEqual(segments.map((s) => s.order), [1, 2, 3]);
+    assert.deepEqual(analyzed.map((r) => r.id), ['gravel', 'tarmac']);
+
+    // Each variant's segments join up and cover the whole route
+    for (const [id, coordinates] of [
+      ['gravel', gravel],
+      ['tarmac', tarmac],
+    ] as const) {
+      segments.slice(1).forEach((segment, i) => {
+        assert.deepEqual(segment.variants[id].start, segments[i].variants[id].end);
+      });
+      const totalKm = segments.reduce((sum, s) => sum + s.variants[id].distanceKm, 0);
+      assert.ok(Math.abs(totalKm - lengthKm(coordinates)) < 1e-6, `${id}: ${totalKm}`);
+    }
+
+    // The detour is longer than the stretch of gravel it replaces
+    const diverging = segments[1].variants;
+    assert.ok(diverging.tarmac.distanceKm > diverging.gravel.distanceKm + 1);
+  });
+
+  it('summarizes shared and diverging distances', () => {
+    const { segments } = analyzeSegments(routes, options);
+    const summary = summarizeSegments(segments, 'gravel');
+
+    assert.equal(summary.totalSegments, 3);
+    assert.equal(summary.sharedSegments, 2);
+    assert.equal(summary.divergingSegments, 1);
+    assert.ok(
+      Math.abs(summary.sharedKm + summary.divergingKm.gravel - lengthKm(gravel)) < 1e-6
+    );
+    assert.equal(summary.divergingKm.tarmac, segments[1].variants.tarmac.distanceKm);
+  });
+
+  it('reports progress in order, ending at 1', () => {
+    const progress: number[] = [];
+    analyzeSegments(routes, { ...options, onProgress: (fraction) => progress.push(fraction) });
+
+    assert.ok(progress.length > 2);
+    progress.slice(1).forEach((fraction, i) => assert.ok(fraction >= progress[i]));
+    assert.ok(progress[0] >= 0);
+    assert.equal(progress.at(-1), 1);
+  });
+
+  it('needs at least two routes', () => {
+    assert.throws(() => analyzeSegments(routes.slice(0, 1), options), /At least two routes/);
+  });
+});
@@ -0,0 +1,593 @@
+/**
+ * Segment Analysis
+ *
+ * Finds the shared and diverging segments of route variants. Each variant
+ * is aligned against the first (primary) variant, walking both routes in
+ * order, so an excursion on either route becomes a diverging segment with
+ * junctions on both. A section is shared only when every variant runs
+ * alongside the primary.
+ *
+ * Used by scripts/analyze-segments.ts to build segments.json, and by the app
+ * to compare uploaded routes with the official variants.
+ */
+
+import type { Position } from 'geojson';
+import type { RouteGap } from '../types/route';
+import type { Segment, SegmentStats } from '../types/segments';
+import { calculateElevationChange, type ElevationSettings } from './elevation';
+import { calculateCumulativeDistances } from './geo';
+import { buildSpatialIndex, findAllOnRoute, type SpatialIndex } from './spatialIndex';
+
+export const DEFAULT_ANALYSIS_OPTIONS = {
+  thresholdMeters: 100, // Max distance for routes to count as shared
+  minSegmentMeters: 500, // Minimum segment length to avoid tiny segments
+  sampleIntervalMeters: 0, // Primary route sample spacing, 0 = every point
+};
+
+export interface AnalysisRoute {
+  id: string;
+  coordinates: Position[]; // [lng, lat, elevation]
+  gaps?: RouteGap[]; // breaks in the track, which add no distance
+}
+
+export interface SegmentAnalysisOptions {
+  thresholdMeters: number;
+  minSegmentMeters: number;
+  sampleIntervalMeters: number;
+  elevationSettings: ElevationSettings;
+  log?: (message: string) => void; // Progress details
+  onProgress?: (fraction: number) => void; // 0-1, reported as the analysis runs
+}
+
+export interface SegmentAnalysisResult {
+  segments: Segment[];
+  routes: { id: string; points: number; distanceKm: number }[]; // primary first
+}
+
+export interface SegmentSummary {
+  totalSegments: number;
+  sharedSegments: number;
+  divergingSegments: number;
+  sharedKm: number; // along the primary route
+  divergingKm: Record<string, number>; // variant id -> km
+}
+
+interface RoutePoint {
+  lng: number;
+  lat: number;
+  elevation: number;
+  distanceFromStart: number; // meters
+}
+
+interface VariantRoute {
+  id: string;
+  route: RoutePoint[];
+  sampled: RoutePoint[];
+  index: SpatialIndex<RoutePoint>;
+}
+
+interface AlignmentMatch {
+  primaryIndex: number; // index into the sampled primary route
+  primaryDistance: number; // meters
+  secondaryDistance: number; // meters, position of the matching pass
+}
+
+// Share of the progress spent preparing routes and building segments;
+// the rest goes to aligning, which dominates the run time
+const PREPARE_PROGRESS = 0.1;
+const BUILD_PROGRESS = 0.1;
+// Report alignment progress every this many primary points
+const PROGRESS_INTERVAL_POINTS = 500;
+
+// A part of a route between two junctions
+interface RouteSection {
+  start: RoutePoint;
+  end: RoutePoint;
+  inner: RoutePoint[]; // route points strictly between the junctions
+  startIndex: number; // route index of the first inner point
+}
+
+// A stretch where the two routes part, bounded by junctions on both
+interface Divergence {
+  primaryStart: number; // meters
+  primaryEnd: number;
+  secondaryStart: number;
+  secondaryEnd: number;
+}
+
+/**
+ * Add cumulative distance to route points, skipping the bridges across gaps
+ */
+function addDistances(coordinates: Position[], gaps: RouteGap[] = []): RoutePoint[] {
+  const distances = calculateCumulativeDistances(
+    coordinates,
+    new Set(gaps.map((gap) => gap.index))
+  );
+  return coordinates.map(([lng, lat, elevation = 0], i) => ({
+    lng,
+    lat,
+    elevation,
+    distanceFromStart: distances[i] * 1000,
+  }));
+}
+
+/**
+ * Sample route at regular intervals
+ */
+function sampleRoute(route: RoutePoint[], intervalMeters: number): RoutePoint[] {
+  if (route.length === 0) return [];
+
+  const sampled: RoutePoint[] = [route[0]];
+  let lastSampledDistance = 0;
+
+  for (let i = 1; i < route.length; i++) {
+    const currentDistance = route[i].distanceFromStart;
+    if (currentDistance - lastSampledDistance >= intervalMeters) {
+      sampled.push(route[i]);
+      lastSampledDistance = currentDistance;
+    }
+  }
+
+  // Always include the last point
+  if (sampled[sampled.length - 1] !== route[route.length - 1]) {
+    sampled.push(route[route.length - 1]);
+  }
+
+  return sampled;
+}
+
+/**
+ * Calculate segment statistics, referencing the section's route points by
+ * index. Elevation gain/loss use the shared elevation processing.
+ */
+function calculateSegmentStats(
+  { start, end, inner, startIndex }: RouteSection,
+  settings: ElevationSettings
+): SegmentStats {
+  const points = [start, ...inner, end];
+  const coordinates: [number, number, number][] = points.map((p) => [p.lng, p.lat, p.elevation]);
+  const distancesKm = points.map((p) => (p.distanceFromStart - start.distanceFromStart) / 1000);
+
+  const { elevationGain, elevationLoss } = calculateElevationChange(
+    points.map((p) => p.elevation),
+    distancesKm,
+    settings
+  );
+
+  return {
+    start: { coordinates: coordinates[0], distanceKm: start.distanceFromStart / 1000 },
+    end: {
+      coordinates: coordinates[coordinates.length - 1],
+      distanceKm: end.distanceFromStart / 1000,
+    },
+    startIndex,
+    endIndex: startIndex + inner.length,
+    distanceKm: distancesKm[distancesKm.length - 1],
+    elevationGain,
+    elevationLoss,
+  };
+}
+
+/**
+ * Interpolate a point at a given distance along a route
+ */
+function interpolateAtDistance(route: RoutePoint[], distance: number): RoutePoint {
+  if (distance <= route[0].distanceFromStart) return route[0];
+  const last = route[route.length - 1];
+  if (distance >= last.distanceFromStart) return last;
+
+  // Binary search for the first point at or beyond the distance
+  let left = 1;
+  let right = route.length - 1;
+  while (left < right) {
+    const mid = Math.floor((left + right) / 2);
+    if (route[mid].distanceFromStart < distance) {
+      left = mid + 1;
+    } else {
+      right = mid;
+    }
+  }
+
+  const prev = route[left - 1];
+  const next = route[left];
+  const span = next.distanceFromStart - prev.distanceFromStart;
+  const t = span > 0 ? (distance - prev.distanceFromStart) / span : 0;
+
+  return {
+    lng: prev.lng + t * (next.lng - prev.lng),
+    lat: prev.lat + t * (next.lat - prev.lat),
+    elevation: prev.elevation + t * (next.elevation - prev.elevation),
+    distanceFromStart: distance,
+  };
+}
+
+/**
+ * Extract the part of a route between two distance values, with
+ * interpolated points at the exact start and end junctions
+ */
+function extractRouteSection(
+  route: RoutePoint[],
+  startDistance: number,
+  endDistance: number
+): RouteSection {
+  // Never run backwards; a zero-length section is still a line, so the app
+  // can draw and join it
+  endDistance = Math.max(endDistance, startDistance);
+
+  let startIndex = route.findIndex((p) => p.distanceFromStart > startDistance);
+  if (startIndex === -1) startIndex = route.length;
+  let endIndex = startIndex;
+  while (endIndex < route.length && route[endIndex].distanceFromStart < endDistance) {
+    endIndex++;
+  }
+
+  return {
+    start: interpolateAtDistance(route, startDistance),
+    end: interpolateAtDistance(route, endDistance),
+    inner: route.slice(startIndex, endIndex),
+    startIndex,
+  };
+}
+
+/**
+ * Align the primary route against a secondary route.
+ *
+ * Every primary point is matched to each pass of the secondary route within
+ * the threshold, then the longest chain of matches that moves forward on
+ * both routes is kept (a weighted longest increasing subsequence). The
+ * monotonic chain prevents loops and out-and-back sections from matching
+ * the wrong pass, which nearest-point lookups cannot do.
+ */
+function alignRoutes(
+  primaryRoute: RoutePoint[],
+  secondaryIndex: SpatialIndex<RoutePoint>,
+  threshold: number,
+  onProgress?: (fraction: number) => void
+): AlignmentMatch[] {
+  const candidates: (AlignmentMatch & { weight: number })[] = [];
+  primaryRoute.forEach((point, primaryIndex) => {
+    if (onProgress && primaryIndex % PROGRESS_INTERVAL_POINTS === 0) {
+      onProgress(primaryIndex / primaryRoute.length);
+    }
+    const step =
+      primaryIndex > 0
+        ? point.distanceFromStart - primaryRoute[primaryIndex - 1].distanceFromStart
+        : 0;
+    findAllOnRoute(point, secondaryIndex, threshold).forEach((pass) => {
+      candidates.push({
+        primaryIndex,
+        primaryDistance: point.distanceFromStart,
+        secondaryDistance: pass.distanceFromStart,
+        weight: Math.max(step, 1),
+      });
+    });
+  });
+
+  if (candidates.length === 0) return [];
+
+  // Rank secondary distances for a Fenwick tree of prefix maxima
+  const ranks = [...new Set(candidates.map((c) => c.secondaryDistance))].sort((a, b) => a - b);
+  const rankOf = new Map(ranks.map((d, i) => [d, i + 1]));
+  const treeScore = new Array<number>(ranks.length + 1).fill(0);
+  const treeItem = new Array<number>(ranks.length + 1).fill(-1);
+
+  const queryPrefix = (rank: number): { score: number; item: number } => {
+    let score = 0;
+    let item = -1;
+    for (let r = rank; r > 0; r -= r & -r) {
+      if (treeScore[r] > score) {
+        score = treeScore[r];
+        item = treeItem[r];
+      }
+    }
+    return { score, item };
+  };
+
+  const update = (rank: number, score: number, item: number) => {
+    for (let r = rank; r < treeScore.length; r += r & -r) {
+      if (score > treeScore[r]) {
+        treeScore[r] = score;
+        treeItem[r] = item;
+      }
+    }
+  };
+
+  const scores = new Array<number>(candidates.length);
+  const previous = new Array<number>(candidates.length);
+  let bestItem = -1;
+
+  // Candidates are grouped by primary point; score a whole group before
+  // inserting it so each primary point is used at most once
+  let groupStart = 0;
+  while (groupStart < candidates.length) {
+    let groupEnd = groupStart;
+    while (
+      groupEnd < candidates.length &&
+      candidates[groupEnd].primaryIndex === candidates[groupStart].primaryIndex
+    ) {
+      groupEnd++;
+    }
+
+    for (let k = groupStart; k < groupEnd; k++) {
+      const { score, item } = queryPrefix(rankOf.get(candidates[k].secondaryDistance)!);
+      scores[k] = score + candidates[k].weight;
+      previous[k] = item;
+      if (bestItem === -1 || scores[k] > scores[bestItem]) bestItem = k;
+    }
+    for (let k = groupStart; k < groupEnd; k++) {
+      update(rankOf.get(candidates[k].secondaryDistance)!, scores[k], k);
+    }
+
+    groupStart = groupEnd;
+  }
+
+  const chain: AlignmentMatch[] = [];
+  for (let k = bestItem; k !== -1; k = previous[k]) {
+    const { primaryIndex, primaryDistance, secondaryDistance } = candidates[k];
+    chain.push({ primaryIndex, primaryDistance, secondaryDistance });
+  }
+
+  return chain.reverse();
+}
+
+/**
+ * Find the stretches where either route leaves the other, from an alignment.
+ * Consecutive primary points whose matches advance by about the same
+ * distance on both routes are shared; any skipped primary points (a primary
+ * excursion) or a jump ahead on the secondary (a secondary excursion)
+ * becomes a divergence between the two surrounding junctions.
+ */
+function findDivergences(
+  chain: AlignmentMatch[],
+  primaryLength: number,
+  secondaryLength: number,
+  threshold: number,
+  minLength: number
+): Divergence[] {
+  if (chain.length === 0) {
+    return [{ primaryStart: 0, primaryEnd: primaryLength, secondaryStart: 0, secondaryEnd: secondaryLength }];
+  }
+
+  const divergences: Divergence[] = [];
+  const first = chain[0];
+  const last = chain[chain.length - 1];
+
+  divergences.push({
+    primaryStart: 0,
+    primaryEnd: first.primaryDistance,
+    secondaryStart: 0,
+    secondaryEnd: first.secondaryDistance,
+  });
+
+  for (let i = 1; i < chain.length; i++) {
+    const prev = chain[i - 1];
+    const current = chain[i];
+    const primaryStep = current.primaryDistance - prev.primaryDistance;
+    const secondaryStep = current.secondaryDistance - prev.secondaryDistance;
+    const isContinuous =
+      current.primaryIndex === prev.primaryIndex + 1 && secondaryStep <= primaryStep + threshold;
+
+    if (!isContinuous) {
+      divergences.push({
+        primaryStart: prev.primaryDistance,
+        primaryEnd: current.primaryDistance,
+        secondaryStart: prev.secondaryDistance,
+        secondaryEnd: current.secondaryDistance,
+      });
+    }
+  }
+
+  divergences.push({
+    primaryStart: last.primaryDistance,
+    primaryEnd: primaryLength,
+    secondaryStart: last.secondaryDistance,
+    secondaryEnd: secondaryLength,
+  });
+
+  // Drop noise: stretches that are short on both routes count as shared
+  return divergences.filter(
+    (d) => Math.max(d.primaryEnd - d.primaryStart, d.secondaryEnd - d.secondaryStart) >= minLength
+  );
+}
+
+/**
+ * Map a primary route distance to the aligned secondary route distance,
+ * interpolating between the surrounding matches
+ */
+function mapToSecondary(chain: AlignmentMatch[], primaryDistance: number): number {
+  if (chain.length === 0) return 0;
+  if (primaryDistance <= chain[0].primaryDistance) return chain[0].secondaryDistance;
+  const last = chain[chain.length - 1];
+  if (primaryDistance >= last.primaryDistance) return last.secondaryDistance;
+
+  let left = 1;
+  let right = chain.length - 1;
+  while (left < right) {
+    const mid = Math.floor((left + right) / 2);
+    if (chain[mid].primaryDistance < primaryDistance) {
+      left = mid + 1;
+    } else {
+      right = mid;
+    }
+  }
+
+  const prev = chain[left - 1];
+  const next = chain[left];
+  const span = next.primaryDistance - prev.primaryDistance;
+  const t = span > 0 ? (primaryDistance - prev.primaryDistance) / span : 0;
+  return prev.secondaryDistance + t * (next.secondaryDistance - prev.secondaryDistance);
+}
+
+/**
+ * Merge divergences from all secondary routes (in primary distance) into
+ * diverging ranges. Overlapping ranges are combined, and so are ranges
+ * separated by a shared stretch shorter than the minimum segment length.
+ */
+function mergeDivergences(
+  divergences: Divergence[],
+  primaryLength: number,
+  minLength: number
+): { start: number; end: number }[] {
+  const sorted = [...divergences].sort((a, b) => a.primaryStart - b.primaryStart);
+  const ranges: { start: number; end: number }[] = [];
+
+  for (const d of sorted) {
+    const last = ranges[ranges.length - 1];
+    if (last && d.primaryStart - last.end < minLength) {
+      last.end = Math.max(last.end, d.primaryEnd);
+    } else {
+      ranges.push({ start: d.primaryStart, end: d.primaryEnd });
+    }
+  }
+
+  // Absorb short shared stretches at the start and finish
+  if (ranges.length > 0 && ranges[0].start < minLength) {
+    ranges[0].start = 0;
+  }
+  const lastRange = ranges[ranges.length - 1];
+  if (lastRange && primaryLength - lastRange.end < minLength) {
+    lastRange.end = primaryLength;
+  }
+
+  return ranges;
+}
+
+/**
+ * Split route variants into shared and diverging segments.
+ * The first route is the primary one the others are aligned against.
+ */
+export function analyzeSegments(
+  routes: AnalysisRoute[],
+  options: SegmentAnalysisOptions
+): SegmentAnalysisResult {
+  const { thresholdMeters, minSegmentMeters, sampleIntervalMeters, elevationSettings } = options;
+  const log = options.log ?? (() => {});
+  const reportProgress = options.onProgress ?? (() => {});
+  if (routes.length < 2) {
+    throw new Error('At least two routes are needed to compare');
+  }
+
+  // Add distances, sample and build spatial indexes
+  const variants: VariantRoute[] = routes.map(({ id, coordinates, gaps }) => {
+    const route = addDistances(coordinates, gaps);
+    if (route.length === 0) {
+      throw new Error(`No track points found for ${id}`);
+    }
+    const sampled = sampleRoute(route, sampleIntervalMeters);
+    const index = buildSpatialIndex(route, thresholdMeters);
+    log(
+      `${id} route: ${(route[route.length - 1].distanceFromStart / 1000).toFixed(1)} km, ` +
+        `sampled ${sampled.length} points`
+    );
+    return { id, route, sampled, index };
+  });
+  reportProgress(PREPARE_PROGRESS);
+
+  const [primary, ...secondaries] = variants;
+
+  const primaryLength = primary.route[primary.route.length - 1].distanceFromStart;
+
+  // Align each secondary against the primary and collect where they part
+  const alignProgress = 1 - PREPARE_PROGRESS - BUILD_PROGRESS;
+  const alignments = secondaries.map((secondary, i) => {
+    const chain = alignRoutes(primary.sampled, secondary.index, thresholdMeters, (fraction) =>
+      reportProgress(PREPARE_PROGRESS + ((i + fraction) / secondaries.length) * alignProgress)
+    );
+    const secondaryLength = secondary.route[secondary.route.length - 1].distanceFromStart;
+    const divergences = findDivergences(
+      chain,
+      primaryLength,
+      secondaryLength,
+      thresholdMeters,
+      minSegmentMeters
+    );
+    log(`${secondary.id}: ${chain.length} aligned points, ${divergences.length} divergences`);
+    return { secondary, chain, secondaryLength, divergences };
+  });
+
+  const divergingRanges = mergeDivergences(
+    alignments.flatMap((a) => a.divergences),
+    primaryLength,
+    minSegmentMeters
+  );
+  log(`After merging: ${divergingRanges.length} diverging ranges`);
+  reportProgress(1 - BUILD_PROGRESS);
+  // Segment boundaries in primary distance, alternating shared and diverging
+  const boundaries: { start: number; end: number; type: Segment['type'] }[] = [];
+  let cursor = 0;
+  for (const range of divergingRanges) {
+    if (range.start > cursor) {
+      boundaries.push({ start: cursor, end: range.start, type: 'shared' });
+    }
+    boundaries.push({ start: range.start, end: range.end, type: 'diverging' });
+    cursor = range.end;
+  }
+  if (cursor < primaryLength) {
+    boundaries.push({ start: cursor, end: primaryLength, type: 'shared' });
+  }
+
+  // Junction positions on a secondary route, pinned to its start and finish
+  const toSecondary = (alignment: (typeof alignments)[number], distance: number): number => {
+    if (distance <= 0) return 0;
+    if (distance >= primaryLength) return alignment.secondaryLength;
+    return mapToSecondary(alignment.chain, distance);
+  };
+
+  // Build segments
+  const segments: Segment[] = boundaries.map(({ start, end, type }, i) => {
+    const variantStats: Record<string, SegmentStats> = {
+      [primary.id]: calculateSegmentStats(
+        extractRouteSection(primary.route, start, end),
+        elevationSettings
+      ),
+    };
+    for (const alignment of alignments) {
+      variantStats[alignment.secondary.id] = calculateSegmentStats(
+        extractRouteSection(
+          alignment.secondary.route,
+          toSecondary(alignment, start),
+          toSecondary(alignment, end)
+        ),
+        elevationSettings
+      );
+    }
+
+    return {
+      id: `seg-${i + 1}`,
+      type,
+      order: i + 1,
+      variants: variantStats,
+    };
+  });
+  reportProgress(1);
+
+  return {
+    segments,
+    routes: variants.map(({ id, route }) => ({
+      id,
+      points: route.length,
+      distanceKm: route[route.length - 1].distanceFromStart / 1000,
+    })),
+  };
+}
+
+/**
+ * Count segments and sum shared and diverging distances
+ */
+export function summarizeSegments(segments: Segment[], primaryId: string): SegmentSummary {
+  const sharedSegments = segments.filter((s) => s.type === 'shared');
+  const divergingSegments = segments.filter((s) => s.type === 'diverging');
+
+  const divergingKm: Record<string, number> = {};
+  for (const id of Object.keys(segments[0]?.variants ?? {})) {
+    divergingKm[id] = divergingSegments.reduce((sum, s) => sum + s.variants[id].distanceKm, 0);
+  }
+
+  return {
+    totalSegments: segments.length,
+    sharedSegments: sharedSegments.length,
+    divergingSegments: divergingSegments.length,
+    sharedKm: sharedSegments.reduce((sum, s) => sum + s.variants[primaryId].distanceKm, 0),
+    divergingKm,
+  };
+}
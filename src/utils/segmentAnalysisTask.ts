@@ -0,0 +1,73 @@
+import type {
+  AnalysisRoute,
+  SegmentAnalysisOptions,
+  SegmentAnalysisResult,
+} from './segmentAnalysis';
+
+// Options that can cross into the worker (no callbacks)
+export type WorkerAnalysisOptions = Omit<SegmentAnalysisOptions, 'log' | 'onProgress'>;
+
+export interface AnalysisWorkerRequest {
+  routes: AnalysisRoute[];
+  options: WorkerAnalysisOptions;
+}
+
+export type AnalysisWorkerMessage =
+  | { type: 'progress'; fraction: number }
+  | { type: 'result'; result: SegmentAnalysisResult }
+  | { type: 'error'; message: string };
+
+export interface SegmentAnalysisTask {
+  result: Promise<SegmentAnalysisResult>;
+  cancel: () => void; // Stops the worker; the result promise rejects
+}
+
+/**
+ * Run the segment analysis in a Web Worker so the map and charts stay
+ * responsive. Each task gets its own worker, which is terminated when the
+ * analysis finishes or is cancelled.
+ */
+export function startSegmentAnalysis(
+  routes: AnalysisRoute[],
+  options: WorkerAnalysisOptions,
+  onProgress?: (fraction: number) => void
+): SegmentAnalysisTask {
+  const worker = new Worker(new URL('../workers/segmentAnalysis.worker.ts', import.meta.url), {
+    type: 'module',
+  });
+  let rejectResult: (error: Error) => void = () => {};
+
+  const result = new Promise<SegmentAnalysisResult>((resolve, reject) => {
+    rejectResult = reject;
+
+    worker.onmessage = (e: MessageEvent<AnalysisWorkerMessage>) => {
+      const message = e.data;
+      if (message.type === 'progress') {
+        onProgress?.(message.fraction);
+        return;
+      }
+      worker.terminate();
+      if (message.type === 'result') {
+        resolve(message.result);
+      } else {
+        reject(new Error(message.message));
+      }
+    };
+
+    worker.onerror = (e) => {
+      worker.terminate();
+      reject(new Error(e.message || 'Segment analysis failed'));
+    };
+  });
+
+  const request: AnalysisWorkerRequest = { routes, options };
+  worker.postMessage(request);
+
+  return {
+    result,
+    cancel: () => {
+      worker.terminate();
+      rejectResult(new Error('Segment analysis cancelled'));
+    },
+  };
+}
@@ -0,0 +1,78 @@
+/**
+ * Side-by-side elevation profiles of a segment's variants for the build
+ * mode comparison chart. Each variant is sampled at the same positions
+ * from the segment start, so the profiles share one data row per sample.
+ */
+
+import type { ElevationPoint } from '../types/route';
+import type { Segment } from '../types/segments';
+import { interpolateAlongLine } from './geo';
+import {
+  getSegmentCoordinates,
+  getSegmentDistances,
+  type RouteGaps,
+  type RouteTracks,
+} from './segmentGeometry';
+import { getSegmentVariantIds } from './segments';
+
+// Distance from the segment start in km, or percent of each variant's length
+export type ComparisonScale = 'absolute' | 'normalized';
+
+const COMPARISON_SAMPLES = 200;
+
+export interface ComparisonRow {
+  x: number; // km from the segment start, or percent of the length
+  points: Record<string, ElevationPoint>; // variant id -> point, while the variant lasts
+}
+
+export interface SegmentComparison {
+  variantIds: string[];
+  lengths: Record<string, number>; // km per variant
+  rows: ComparisonRow[];
+}
+
+/**
+ * Sample the variants of a segment for overlaying. Point distances are
+ * along the variant's parent route, so hovering can be synced with it.
+ */
+export function buildSegmentComparison(
+  segment: Segment,
+  tracks: RouteTracks,
+  gaps: RouteGaps,
+  scale: ComparisonScale
+): SegmentComparison {
+  const variantIds = getSegmentVariantIds(segment).filter((id) => tracks[id]);
+  const lines = variantIds.map((id) => {
+    const stats = segment.variants[id];
+    const coordinates = getSegmentCoordinates(stats, tracks[id]);
+    return { id, coordinates, distances: getSegmentDistances(stats, coordinates, gaps[id]) };
+  });
+
+  const lengths: Record<string, number> = {};
+  lines.forEach(({ id, distances }) => {
+    lengths[id] = distances[distances.length - 1] ?? 0;
+  });
+  const end = scale === 'normalized' ? 100 : Math.max(0, ...Object.values(lengths));
+
+  const rows: ComparisonRow[] = [];
+  for (let s = 0; s <= COMPARISON_SAMPLES; s++) {
+    const x = (s / COMPARISON_SAMPLES) * end;
+    const points: Record<string, ElevationPoint> = {};
+
+    lines.forEach(({ id, coordinates, distances }) => {
+      const distance = scale === 'normalized' ? (x / 100) * lengths[id] : x;
+      if (distance > lengths[id]) return;
+      const [lng, lat, elevation] = interpolateAlongLine(coordinates, distances, distance);
+      points[id] = {
+        distance: segment.variants[id].start.distanceKm + distance,
+        elevation,
+        lat,
+        lng,
+      };
+    });
+
+    rows.push({ x, points });
+  }
+
+  return { variantIds, lengths, rows };
+}
@@ -0,0 +1,63 @@
+/**
+ * Segment geometry. Segments don't carry coordinates of their own; each
+ * variant references a range of its parent route's track between two
+ * junctions, and the coordinates are put together from the track.
+ */
+
+import type { Position } from 'geojson';
+import type { RouteData } from '../types/route';
+import type { SegmentStats } from '../types/segments';
+import { calculateCumulativeDistances } from './geo';
+
+// Parent route tracks segments point into: variant id -> [lng, lat, elevation]
+export type RouteTracks = Record<string, Position[]>;
+
+// Gaps in the parent tracks: variant id -> track indices right after a gap
+export type RouteGaps = Record<string, ReadonlySet<number>>;
+
+/**
+ * Get the tracks of loaded routes, keyed by route id
+ */
+export function getRouteTracks(routes: RouteData[]): RouteTracks {
+  return Object.fromEntries(routes.map((r) => [r.id, r.geojson.geometry.coordinates]));
+}
+
+/**
+ * Get the gaps of loaded routes' tracks, keyed by route id
+ */
+export function getRouteGaps(routes: RouteData[]): RouteGaps {
+  return Object.fromEntries(routes.map((r) => [r.id, new Set(r.gaps.map((gap) => gap.index))]));
+}
+
+/**
+ * Get a segment variant's coordinates from its parent track: the start
+ * junction, the track points in between and the end junction
+ */
+export function getSegmentCoordinates(
+  stats: SegmentStats,
+  track: Position[]
+): [number, number, number][] {
+  const inner = track
+    .slice(stats.startIndex, stats.endIndex)
+    .map(([lng, lat, elevation = 0]): [number, number, number] => [lng, lat, elevation]);
+  return [stats.start.coordinates, ...inner, stats.end.coordinates];
+}
+
+/**
+ * Cumulative distances (km) along a segment variant's coordinates (see
+ * getSegmentCoordinates), adding nothing across gaps in its track. The step
+ * to segment coordinate k lies on the track's step to startIndex + k - 1.
+ */
+export function getSegmentDistances(
+  stats: SegmentStats,
+  coordinates: [number, number, number][],
+  trackGaps: ReadonlySet<number> | undefined
+): number[] {
+  const gapIndices = new Set<number>();
+  trackGaps?.forEach((index) => {
+    if (index >= stats.startIndex && index <= stats.endIndex) {
+      gapIndices.add(index - stats.startIndex + 1);
+    }
+  });
+  return calculateCumulativeDistances(coordinates, gapIndices);
+}
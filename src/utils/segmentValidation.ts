@@ -0,0 +1,211 @@
+import type { Segment } from '../types/segments';
+import { pointToLineDistance, positionDistance } from './geo';
+import { getSegmentCoordinates, type RouteTracks } from './segmentGeometry';
+
+// Max gap between one segment's end and the next segment's start (per
+// variant); both are the same junction, so only rounding is allowed
+const JUNCTION_TOLERANCE_METERS = 1;
+// Max distance of a shared segment's variant from the primary variant's line
+const SHARED_OVERLAP_TOLERANCE_METERS = 150;
+// Share of a shared segment's points allowed outside the overlap tolerance
+const SHARED_OUTLIER_FRACTION = 0.05;
+
+const MAX_REPORTED_ERRORS = 20;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+function isCoordinate(value: unknown): boolean {
+  return (
+    Array.isArray(value) &&
+    value.length === 3 &&
+    value.every(isFiniteNumber) &&
+    Math.abs(value[0]) <= 180 &&
+    Math.abs(value[1]) <= 90
+  );
+}
+
+/**
+ * Check the shape of a single segment, returning readable problems
+ */
+function validateSegmentShape(value: unknown, index: number): string[] {
+  const label = isRecord(value) && typeof value.id === 'string' ? value.id : `#${index + 1}`;
+  if (!isRecord(value)) return [`Segment ${label}: expected an object`];
+
+  const errors: string[] = [];
+  if (typeof value.id !== 'string' || value.id === '') {
+    errors.push(`Segment ${label}: "id" must be a non-empty string`);
+  }
+  if (value.type !== 'shared' && value.type !== 'diverging') {
+    errors.push(`Segment ${label}: "type" must be "shared" or "diverging"`);
+  }
+  if (!Number.isInteger(value.order)) {
+    errors.push(`Segment ${label}: "order" must be an integer`);
+  }
+  if (!isRecord(value.variants) || Object.keys(value.variants).length === 0) {
+    errors.push(`Segment ${label}: "variants" must map variant ids to stats`);
+    return errors;
+  }
+
+  for (const [variantId, stats] of Object.entries(value.variants)) {
+    const where = `Segment ${label} (${variantId})`;
+    if (!isRecord(stats)) {
+      errors.push(`${where}: expected an object`);
+      continue;
+    }
+    for (const field of ['distanceKm', 'elevationGain', 'elevationLoss']) {
+      if (!isFiniteNumber(stats[field]) || (stats[field] as number) < 0) {
+        errors.push(`${where}: "${field}" must be a non-negative number`);
+      }
+    }
+    for (const field of ['start', 'end']) {
+      const junction = stats[field];
+      if (
+        !isRecord(junction) ||
+        !isCoordinate(junction.coordinates) ||
+        !isFiniteNumber(junction.distanceKm) ||
+        junction.distanceKm < 0
+      ) {
+        errors.push(
+          `${where}: "${field}" must have [lng, lat, elevation] "coordinates" and a non-negative "distanceKm"`
+        );
+      }
+    }
+    const { startIndex, endIndex } = stats;
+    if (
+      !Number.isInteger(startIndex) ||
+      !Number.isInteger(endIndex) ||
+      (startIndex as number) < 0 ||
+      (endIndex as number) < (startIndex as number)
+    ) {
+      errors.push(`${where}: "startIndex" and "endIndex" must be an increasing index range`);
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Validate parsed segments.json data.
+ *
+ * Checks the Segment structure and types, unique ids and orders, that every
+ * segment carries the same variants and that consecutive segments join
+ * end-to-start for each variant. Given the parent route tracks, also checks
+ * the index ranges fit them and that the variants of shared segments
+ * actually run together. Returns a list of readable problems (empty when
+ * valid); the list is capped so a badly broken file stays readable.
+ */
+export function validateSegments(data: unknown, tracks?: RouteTracks): string[] {
+  if (!Array.isArray(data)) {
+    return ['Expected an array of segments'];
+  }
+  if (data.length === 0) {
+    return ['No segments found'];
+  }
+
+  const errors = data.flatMap((value, i) => validateSegmentShape(value, i));
+  if (errors.length > 0) return capErrors(errors);
+
+  const segments = data as Segment[];
+
+  // Unique ids and increasing orders
+  const seenIds = new Set<string>();
+  segments.forEach((segment, i) => {
+    if (seenIds.has(segment.id)) {
+      errors.push(`Duplicate segment id "${segment.id}"`);
+    }
+    seenIds.add(segment.id);
+    if (i > 0 && segment.order <= segments[i - 1].order) {
+      errors.push(
+        `Segment ${segment.id}: order ${segment.order} does not follow ${segments[i - 1].order}`
+      );
+    }
+  });
+
+  // Same variants everywhere
+  const variantIds = Object.keys(segments[0].variants).sort();
+  segments.forEach((segment) => {
+    const ids = Object.keys(segment.variants).sort();
+    if (ids.join(',') !== variantIds.join(',')) {
+      errors.push(
+        `Segment ${segment.id}: has variants [${ids.join(', ')}], expected [${variantIds.join(', ')}]`
+      );
+    }
+  });
+  if (errors.length > 0) return capErrors(errors);
+
+  // Continuity: each variant's segment ends where its next segment starts
+  for (let i = 1; i < segments.length; i++) {
+    const prev = segments[i - 1];
+    const current = segments[i];
+    for (const variantId of variantIds) {
+      const prevStats = prev.variants[variantId];
+      const currentStats = current.variants[variantId];
+      const gapMeters =
+        positionDistance(prevStats.end.coordinates, currentStats.start.coordinates) * 1000;
+      if (gapMeters > JUNCTION_TOLERANCE_METERS) {
+        errors.push(
+          `Segments ${prev.id} → ${current.id} (${variantId}): ${Math.round(gapMeters)} m gap at junction`
+        );
+      }
+      if (currentStats.startIndex < prevStats.endIndex) {
+        errors.push(
+          `Segments ${prev.id} → ${current.id} (${variantId}): track points ${currentStats.startIndex}-${prevStats.endIndex - 1} are in both`
+        );
+      }
+    }
+  }
+
+  if (!tracks) return capErrors(errors);
+
+  // Index ranges fit the parent tracks
+  for (const variantId of variantIds) {
+    const track = tracks[variantId];
+    if (!track) {
+      errors.push(`No route track for variant "${variantId}"`);
+      continue;
+    }
+    const last = segments[segments.length - 1];
+    if (last.variants[variantId].endIndex > track.length) {
+      errors.push(
+        `Segment ${last.id} (${variantId}): ends at track point ${last.variants[variantId].endIndex}, the track has ${track.length}`
+      );
+    }
+  }
+  if (errors.length > 0) return capErrors(errors);
+
+  // Overlap: every variant of a shared segment runs along the first variant
+  const [primaryId, ...otherIds] = variantIds;
+  segments
+    .filter((segment) => segment.type === 'shared')
+    .forEach((segment) => {
+      const primaryLine = getSegmentCoordinates(segment.variants[primaryId], tracks[primaryId]);
+      for (const variantId of otherIds) {
+        const coords = getSegmentCoordinates(segment.variants[variantId], tracks[variantId]);
+        const outliers = coords.filter(
+          (point) =>
+            pointToLineDistance(point, primaryLine) * 1000 > SHARED_OVERLAP_TOLERANCE_METERS
+        ).length;
+        if (outliers > coords.length * SHARED_OUTLIER_FRACTION) {
+          errors.push(
+            `Segment ${segment.id} is shared but ${outliers} of ${coords.length} ${variantId} points are over ${SHARED_OVERLAP_TOLERANCE_METERS} m from ${primaryId}`
+          );
+        }
+      }
+    });
+
+  return capErrors(errors);
+}
+
+function capErrors(errors: string[]): string[] {
+  if (errors.length <= MAX_REPORTED_ERRORS) return errors;
+  return [
+    ...errors.slice(0, MAX_REPORTED_ERRORS),
+    `...and ${errors.length - MAX_REPORTED_ERRORS} more`,
+  ];
+}
@@ -0,0 +1,75 @@
+import type { Segment, SegmentStats } from '../types/segments';
+import { calculateElevationChange, type ElevationSettings } from './elevation';
+import { estimateMovingTime, type RidingSettings } from './ridingTime';
+import {
+  getSegmentCoordinates,
+  getSegmentDistances,
+  type RouteGaps,
+  type RouteTracks,
+} from './segmentGeometry';
+import { getSegmentSurfaces, type RouteSurfaces } from './surface';
+import { ROUTE_VARIANTS } from './routeVariants';
+
+/**
+ * Get the variant ids carried by a segment, in ROUTE_VARIANTS display order.
+ * Variants not present in ROUTE_VARIANTS are appended in their stored order.
+ */
+export function getSegmentVariantIds(segment: Segment): string[] {
+  const ids = Object.keys(segment.variants);
+  const known = ROUTE_VARIANTS.map((v) => v.id).filter((id) => ids.includes(id));
+  const unknown = ids.filter((id) => !known.includes(id));
+  return [...known, ...unknown];
+}
+
+/**
+ * Recalculate each segment variant's elevation gain/loss from its
+ * coordinates with the given elevation settings
+ */
+export function applyElevationSettings(
+  segments: Segment[],
+  tracks: RouteTracks,
+  gaps: RouteGaps,
+  settings: ElevationSettings
+): Segment[] {
+  return segments.map((segment) => {
+    const variants: Record<string, SegmentStats> = {};
+    for (const [variantId, stats] of Object.entries(segment.variants)) {
+      const coordinates = getSegmentCoordinates(stats, tracks[variantId] ?? []);
+      const { elevationGain, elevationLoss } = calculateElevationChange(
+        coordinates.map(([, , elevation]) => elevation),
+        getSegmentDistances(stats, coordinates, gaps[variantId]),
+        settings
+      );
+      variants[variantId] = { ...stats, elevationGain, elevationLoss };
+    }
+    return { ...segment, variants };
+  });
+}
+
+/**
+ * Estimate each segment variant's moving time from its coordinates and
+ * surfaces with the given riding settings
+ */
+export function applyRidingSettings(
+  segments: Segment[],
+  tracks: RouteTracks,
+  gaps: RouteGaps,
+  surfaces: RouteSurfaces,
+  settings: RidingSettings
+): Segment[] {
+  return segments.map((segment) => {
+    const variants: Record<string, SegmentStats> = {};
+    for (const [variantId, stats] of Object.entries(segment.variants)) {
+      const coordinates = getSegmentCoordinates(stats, tracks[variantId] ?? []);
+      const trackSurfaces = surfaces[variantId];
+      const movingTime = estimateMovingTime(
+        coordinates.map(([, , elevation]) => elevation),
+        getSegmentDistances(stats, coordinates, gaps[variantId]),
+        trackSurfaces && getSegmentSurfaces(stats, trackSurfaces),
+        settings
+      );
+      variants[variantId] = { ...stats, movingTime };
+    }
+    return { ...segment, variants };
+  });
+}
@@ -0,0 +1,248 @@
+/**
+ * Spatial Index
+ *
+ * Uniform grid over a route polyline, projected to local meters, for fast
+ * nearest-position queries. Each grid cell lists the polyline segments whose
+ * bounding box touches it, so lookups measure the distance to the line
+ * itself rather than to the nearest track point.
+ */
+
+import { EARTH_RADIUS_KM, pointToSegmentDistance } from './geo';
+
+const EARTH_RADIUS_METERS = EARTH_RADIUS_KM * 1000;
+const DEG_TO_RAD = Math.PI / 180;
+
+export interface IndexedPoint {
+  lng: number;
+  lat: number;
+  distanceFromStart: number; // meters
+}
+
+export interface SpatialIndex<T extends IndexedPoint> {
+  route: T[];
+  cellSize: number; // meters
+  originLat: number; // degrees, latitude used for the projection
+  cosOriginLat: number;
+  cells: Map<string, number[]>; // "col:row" -> indices of segment start points
+  minCol: number;
+  maxCol: number;
+  minRow: number;
+  maxRow: number;
+}
+
+export interface NearestOnRoute {
+  distance: number; // meters from the query point to the polyline
+  distanceFromStart: number; // meters along the route at the nearest position
+  segmentIndex: number; // index of the segment start point
+  fraction: number; // 0-1 position along that segment
+}
+
+function projectX(lng: number, cosOriginLat: number): number {
+  return lng * DEG_TO_RAD * EARTH_RADIUS_METERS * cosOriginLat;
+}
+
+function projectY(lat: number): number {
+  return lat * DEG_TO_RAD * EARTH_RADIUS_METERS;
+}
+
+/**
+ * Build a grid index over the segments of a route.
+ * A cell size near the overlap threshold keeps each query to a few cells.
+ */
+export function buildSpatialIndex<T extends IndexedPoint>(
+  route: T[],
+  cellSize: number
+): SpatialIndex<T> {
+  const originLat =
+    route.length > 0 ? route.reduce((sum, p) => sum + p.lat, 0) / route.length : 0;
+  const cosOriginLat = Math.cos(originLat * DEG_TO_RAD);
+  const cells = new Map<string, number[]>();
+
+  let minCol = Infinity;
+  let maxCol = -Infinity;
+  let minRow = Infinity;
+  let maxRow = -Infinity;
+
+  // A single-point route is indexed as a zero-length segment
+  const segmentCount = Math.max(route.length - 1, route.length > 0 ? 1 : 0);
+
+  for (let i = 0; i < segmentCount; i++) {
+    const a = route[i];
+    const b = route[Math.min(i + 1, route.length - 1)];
+    const colA = Math.floor(projectX(a.lng, cosOriginLat) / cellSize);
+    const colB = Math.floor(projectX(b.lng, cosOriginLat) / cellSize);
+    const rowA = Math.floor(projectY(a.lat) / cellSize);
+    const rowB = Math.floor(projectY(b.lat) / cellSize);
+
+    for (let col = Math.min(colA, colB); col <= Math.max(colA, colB); col++) {
+      for (let row = Math.min(rowA, rowB); row <= Math.max(rowA, rowB); row++) {
+        const key = `${col}:${row}`;
+        const bucket = cells.get(key);
+        if (bucket) {
+          bucket.push(i);
+        } else {
+          cells.set(key, [i]);
+        }
+        minCol = Math.min(minCol, col);
+        maxCol = Math.max(maxCol, col);
+        minRow = Math.min(minRow, row);
+        maxRow = Math.max(maxRow, row);
+      }
+    }
+  }
+
+  return { route, cellSize, originLat, cosOriginLat, cells, minCol, maxCol, minRow, maxRow };
+}
+
+/**
+ * Distance in meters from a point to the segment between route[i] and
+ * route[i + 1]
+ */
+function distanceToSegment<T extends IndexedPoint>(
+  lng: number,
+  lat: number,
+  route: T[],
+  i: number
+): { distance: number; fraction: number } {
+  const a = route[i];
+  const b = route[Math.min(i + 1, route.length - 1)];
+  const { distance, fraction } = pointToSegmentDistance(
+    [lng, lat],
+    [a.lng, a.lat],
+    [b.lng, b.lat]
+  );
+  return { distance: distance * 1000, fraction };
+}
+
+/**
+ * Find the nearest position on the indexed polyline to a point.
+ * Searches outward ring by ring and stops once no unvisited cell can hold
+ * anything closer. Returns null if nothing lies within maxDistance.
+ */
+export function findNearestOnRoute<T extends IndexedPoint>(
+  point: { lng: number; lat: number },
+  index: SpatialIndex<T>,
+  maxDistance = Infinity
+): NearestOnRoute | null {
+  const { route, cellSize, cells } = index;
+  if (route.length === 0) return null;
+
+  const col = Math.floor(projectX(point.lng, index.cosOriginLat) / cellSize);
+  const row = Math.floor(projectY(point.lat) / cellSize);
+
+  // Real meters per projected meter shrink away from the origin latitude
+  const minCellMeters =
+    cellSize * Math.min(1, Math.cos(point.lat * DEG_TO_RAD) / index.cosOriginLat);
+
+  // Beyond this ring every cell lies outside the indexed area
+  const maxRing = Math.max(
+    Math.abs(col - index.minCol),
+    Math.abs(col - index.maxCol),
+    Math.abs(row - index.minRow),
+    Math.abs(row - index.maxRow)
+  );
+  const ringLimit = Number.isFinite(maxDistance)
+    ? Math.min(maxRing, Math.ceil(maxDistance / minCellMeters) + 1)
+    : maxRing;
+
+  let best = null as NearestOnRoute | null;
+  const checked = new Set<number>();
+
+  for (let ring = 0; ring <= ringLimit; ring++) {
+    for (let c = col - ring; c <= col + ring; c++) {
+      for (let r = row - ring; r <= row + ring; r++) {
+        // Only visit the outer edge of the ring
+        if (Math.abs(c - col) !== ring && Math.abs(r - row) !== ring) continue;
+
+        const bucket = cells.get(`${c}:${r}`);
+        if (!bucket) continue;
+
+        for (const i of bucket) {
+          if (checked.has(i)) continue;
+          checked.add(i);
+
+          const { distance, fraction } = distanceToSegment(point.lng, point.lat, route, i);
+          if (distance <= maxDistance && (!best || distance < best.distance)) {
+            const start = route[i];
+            const end = route[Math.min(i + 1, route.length - 1)];
+            best = {
+              distance,
+              distanceFromStart:
+                start.distanceFromStart +
+                fraction * (end.distanceFromStart - start.distanceFromStart),
+              segmentIndex: i,
+              fraction,
+            };
+          }
+        }
+      }
+    }
+
+    // Cells outside this ring are at least ring cell widths away
+    if (best && best.distance <= ring * minCellMeters) break;
+  }
+
+  return best;
+}
+
+/**
+ * Find every pass of the indexed polyline within maxDistance of a point.
+ * Matching segments are grouped into runs of consecutive segments and the
+ * closest position of each run is returned, ordered along the route, so an
+ * out-and-back or a loop past the same spot yields one entry per pass.
+ */
+export function findAllOnRoute<T extends IndexedPoint>(
+  point: { lng: number; lat: number },
+  index: SpatialIndex<T>,
+  maxDistance: number
+): NearestOnRoute[] {
+  const { route, cellSize, cells } = index;
+  if (route.length === 0) return [];
+
+  const col = Math.floor(projectX(point.lng, index.cosOriginLat) / cellSize);
+  const row = Math.floor(projectY(point.lat) / cellSize);
+  const minCellMeters =
+    cellSize * Math.min(1, Math.cos(point.lat * DEG_TO_RAD) / index.cosOriginLat);
+  const ringLimit = Math.ceil(maxDistance / minCellMeters) + 1;
+
+  const matches = new Map<number, NearestOnRoute>();
+
+  for (let c = col - ringLimit; c <= col + ringLimit; c++) {
+    for (let r = row - ringLimit; r <= row + ringLimit; r++) {
+      const bucket = cells.get(`${c}:${r}`);
+      if (!bucket) continue;
+
+      for (const i of bucket) {
+        if (matches.has(i)) continue;
+
+        const { distance, fraction } = distanceToSegment(point.lng, point.lat, route, i);
+        if (distance > maxDistance) continue;
+
+        const start = route[i];
+        const end = route[Math.min(i + 1, route.length - 1)];
+        matches.set(i, {
+          distance,
+          distanceFromStart:
+            start.distanceFromStart + fraction * (end.distanceFromStart - start.distanceFromStart),
+          segmentIndex: i,
+          fraction,
+        });
+      }
+    }
+  }
+
+  // Keep the closest match of each run of consecutive segments
+  const sorted = [...matches.values()].sort((a, b) => a.segmentIndex - b.segmentIndex);
+  const passes: NearestOnRoute[] = [];
+  for (let k = 0; k < sorted.length; k++) {
+    const match = sorted[k];
+    const isSameRun = k > 0 && match.segmentIndex === sorted[k - 1].segmentIndex + 1;
+    if (!isSameRun) {
+      passes.push(match);
+    } else if (match.distance < passes[passes.length - 1].distance) {
+      passes[passes.length - 1] = match;
+    }
+  }
+
+  return passes;
+}
@@ -0,0 +1,74 @@
+/**
+ * Sunrise and sunset from the sunrise equation: the sun's position from
+ * its mean anomaly and the equation of center, then the hour angle at
+ * which its upper edge crosses the horizon (allowing for refraction).
+ * Good to a minute or two, which is plenty for planning a day's ride.
+ */
+
+const J2000 = 2451545; // Julian day of 2000-01-01 12:00 UTC
+const UNIX_EPOCH_JULIAN_DAY = 2440587.5;
+const MS_PER_DAY = 86400000;
+const DEG_TO_RAD = Math.PI / 180;
+
+// Earth's axial tilt
+const OBLIQUITY = 23.4397 * DEG_TO_RAD;
+// Sun's altitude at sunrise and sunset: its radius plus refraction
+const HORIZON_ALTITUDE = -0.833 * DEG_TO_RAD;
+
+export interface SunTimes {
+  sunrise: Date;
+  sunset: Date;
+}
+
+/**
+ * Sunrise and sunset on a date (YYYY-MM-DD) at a place, or null when the
+ * sun stays up or down all day
+ */
+export function getSunTimes(date: string, lat: number, lng: number): SunTimes | null {
+  const noon = new Date(`${date}T12:00:00Z`).getTime();
+  const day = Math.round(noon / MS_PER_DAY + UNIX_EPOCH_JULIAN_DAY - J2000);
+
+  // Mean solar noon at the longitude, in days since J2000
+  const meanNoon = day - lng / 360;
+  const meanAnomaly = ((357.5291 + 0.98560028 * meanNoon) % 360) * DEG_TO_RAD;
+  const center =
+    1.9148 * Math.sin(meanAnomaly) +
+    0.02 * Math.sin(2 * meanAnomaly) +
+    0.0003 * Math.sin(3 * meanAnomaly);
+  const eclipticLongitude =
+    ((meanAnomaly / DEG_TO_RAD + center + 180 + 102.9372) % 360) * DEG_TO_RAD;
+  const transit =
+    J2000 +
+    meanNoon +
+    0.0053 * Math.sin(meanAnomaly) -
+    0.0069 * Math.sin(2 * eclipticLongitude);
+
+  const declination = Math.asin(Math.sin(eclipticLongitude) * Math.sin(OBLIQUITY));
+  const latitude = lat * DEG_TO_RAD;
+  const cosHourAngle =
+    (Math.sin(HORIZON_ALTITUDE) - Math.sin(latitude) * Math.sin(declination)) /
+    (Math.cos(latitude) * Math.cos(declination));
+  if (Math.abs(cosHourAngle) > 1) return null;
+
+  const halfDay = Math.acos(cosHourAngle) / (2 * Math.PI);
+  const toDate = (julianDay: number) =>
+    new Date((julianDay - UNIX_EPOCH_JULIAN_DAY) * MS_PER_DAY);
+
+  return {
+    sunrise: toDate(transit - halfDay),
+    sunset: toDate(transit + halfDay),
+  };
+}
+
+/**
+ * Format a time of day as a 24-hour clock time, e.g. "06:42", in the
+ * given time zone
+ */
+export function formatClockTime(time: Date, timeZone: string): string {
+  return time.toLocaleTimeString(undefined, {
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+    timeZone,
+  });
+}
@@ -0,0 +1,66 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import type { SurfaceType } from '../types/route';
+import type { SegmentStats } from '../types/segments';
+import {
+  calculateSurfaceBreakdown,
+  classifyOsmWay,
+  decodeSurfaceRuns,
+  encodeSurfaceRuns,
+  getSegmentSurfaces,
+  getSurfaceShares,
+} from './surface';
+
+describe('surface runs', () => {
+  it('decodes what it encodes', () => {
+    const surfaces: SurfaceType[] = ['paved', 'paved', 'gravel', 'gravel', 'gravel', 'unknown'];
+    const runs = encodeSurfaceRuns(surfaces);
+
+    assert.deepEqual(runs, [
+      [0, 'paved'],
+      [2, 'gravel'],
+      [5, 'unknown'],
+    ]);
+    assert.deepEqual(decodeSurfaceRuns(runs, surfaces.length), surfaces);
+  });
+});
+
+describe('classifyOsmWay', () => {
+  it('prefers the surface tag, then the track type, then the road class', () => {
+    assert.equal(classifyOsmWay({ highway: 'track', surface: 'fine_gravel' }), 'gravel');
+    assert.equal(classifyOsmWay({ highway: 'track', tracktype: 'grade4' }), 'unpaved');
+    assert.equal(classifyOsmWay({ highway: 'tertiary' }), 'paved');
+    assert.equal(classifyOsmWay({ highway: 'path' }), null);
+    assert.equal(classifyOsmWay({ highway: 'residential', surface: 'sett' }), 'paved');
+  });
+});
+
+describe('surface breakdown', () => {
+  it('credits each stretch to the surface of the point before it', () => {
+    const breakdown = calculateSurfaceBreakdown(
+      ['paved', 'gravel', 'gravel', 'unpaved'],
+      [0, 1.5, 2, 4]
+    );
+
+    assert.deepEqual(breakdown, { paved: 1.5, gravel: 2.5, unpaved: 0, unknown: 0 });
+    assert.deepEqual(getSurfaceShares(breakdown), [
+      { surface: 'paved', km: 1.5, fraction: 0.375 },
+      { surface: 'gravel', km: 2.5, fraction: 0.625 },
+    ]);
+  });
+
+  it('takes the start junction surface from the track edge it lies on', () => {
+    const track: SurfaceType[] = ['paved', 'paved', 'gravel', 'gravel', 'unpaved'];
+    const stats: SegmentStats = {
+      start: { coordinates: [0, 0, 0], distanceKm: 0 },
+      end: { coordinates: [0, 0, 0], distanceKm: 0 },
+      startIndex: 2,
+      endIndex: 4,
+      distanceKm: 0,
+      elevationGain: 0,
+      elevationLoss: 0,
+    };
+
+    assert.deepEqual(getSegmentSurfaces(stats, track), ['paved', 'gravel', 'gravel', 'gravel']);
+  });
+});
@@ -0,0 +1,174 @@
+/**
+ * Surface classes of route points and their breakdown by distance.
+ *
+ * Surfaces come from scripts/enrich-surfaces.ts, which matches route points
+ * to OSM ways (or reads surface tags from GPX extensions) and stores runs
+ * of track point indices. A point's surface applies from it to the next
+ * point.
+ */
+
+import type { RouteData, SurfaceBreakdown, SurfaceType } from '../types/route';
+import type { SegmentStats } from '../types/segments';
+
+export const SURFACE_TYPES: Record<SurfaceType, { label: string; color: string }> = {
+  paved: { label: 'Paved', color: '#7F8C8D' }, // Asphalt grey
+  gravel: { label: 'Gravel', color: '#D4A373' }, // Sandy gravel
+  unpaved: { label: 'Unpaved', color: '#8D5B3A' }, // Dirt brown
+  unknown: { label: 'Unknown', color: '#3D4555' }, // Chart axis grey
+};
+
+// Display order, roughest last
+export const SURFACE_ORDER: SurfaceType[] = ['paved', 'gravel', 'unpaved', 'unknown'];
+
+// Runs of [first track point index, surface], in index order
+export type SurfaceRuns = [number, SurfaceType][];
+export type RouteSurfaces = Record<string, SurfaceType[]>; // route id -> per track point
+
+// OSM surface=* values by class
+const OSM_SURFACES: Record<string, SurfaceType> = {
+  paved: 'paved',
+  asphalt: 'paved',
+  chipseal: 'paved',
+  concrete: 'paved',
+  'concrete:plates': 'paved',
+  'concrete:lanes': 'paved',
+  paving_stones: 'paved',
+  sett: 'paved',
+  cobblestone: 'paved',
+  metal: 'paved',
+  wood: 'paved',
+  gravel: 'gravel',
+  fine_gravel: 'gravel',
+  compacted: 'gravel',
+  pebblestone: 'gravel',
+  unpaved: 'unpaved',
+  dirt: 'unpaved',
+  earth: 'unpaved',
+  ground: 'unpaved',
+  grass: 'unpaved',
+  mud: 'unpaved',
+  sand: 'unpaved',
+  rock: 'unpaved',
+  woodchips: 'unpaved',
+};
+
+// OSM tracktype=* grades, used when a track has no surface tag
+const OSM_TRACK_TYPES: Record<string, SurfaceType> = {
+  grade1: 'paved',
+  grade2: 'gravel',
+  grade3: 'gravel',
+  grade4: 'unpaved',
+  grade5: 'unpaved',
+};
+
+// Roads that are paved unless tagged otherwise
+const PAVED_HIGHWAYS = new Set([
+  'motorway',
+  'trunk',
+  'primary',
+  'secondary',
+  'tertiary',
+  'unclassified',
+  'residential',
+  'living_street',
+  'motorway_link',
+  'trunk_link',
+  'primary_link',
+  'secondary_link',
+  'tertiary_link',
+]);
+
+/**
+ * Classify a surface value: an OSM surface tag or one of the classes
+ */
+export function parseSurface(value: string): SurfaceType | null {
+  const key = value.trim().toLowerCase();
+  if (key in SURFACE_TYPES) return key as SurfaceType;
+  return OSM_SURFACES[key] ?? null;
+}
+
+/**
+ * Classify an OSM way from its tags, or null if they don't say
+ */
+export function classifyOsmWay(tags: Record<string, string>): SurfaceType | null {
+  if (tags.surface) return parseSurface(tags.surface);
+  if (tags.tracktype) return OSM_TRACK_TYPES[tags.tracktype] ?? null;
+  if (PAVED_HIGHWAYS.has(tags.highway)) return 'paved';
+  return null;
+}
+
+/**
+ * Get the surfaces of loaded routes that have them, keyed by route id
+ */
+export function getRouteSurfaces(routes: RouteData[]): RouteSurfaces {
+  return Object.fromEntries(
+    routes.filter((r) => r.surfaces).map((r) => [r.id, r.surfaces!])
+  );
+}
+
+/**
+ * Compress per-point surfaces into runs
+ */
+export function encodeSurfaceRuns(surfaces: SurfaceType[]): SurfaceRuns {
+  const runs: SurfaceRuns = [];
+  surfaces.forEach((surface, i) => {
+    if (runs.length === 0 || runs[runs.length - 1][1] !== surface) {
+      runs.push([i, surface]);
+    }
+  });
+  return runs;
+}
+
+/**
+ * Expand runs into one surface per track point
+ */
+export function decodeSurfaceRuns(runs: SurfaceRuns, length: number): SurfaceType[] {
+  const surfaces = new Array<SurfaceType>(length).fill('unknown');
+  runs.forEach(([start, surface], i) => {
+    const end = Math.min(runs[i + 1]?.[0] ?? length, length);
+    surfaces.fill(surface, start, end);
+  });
+  return surfaces;
+}
+
+/**
+ * Get the surfaces of a segment variant's coordinates (as returned by
+ * getSegmentCoordinates). The start junction lies on the track edge before
+ * the first inner point, the end junction ends the segment.
+ */
+export function getSegmentSurfaces(stats: SegmentStats, trackSurfaces: SurfaceType[]): SurfaceType[] {
+  const inner = trackSurfaces.slice(stats.startIndex, stats.endIndex);
+  const start = trackSurfaces[Math.max(stats.startIndex - 1, 0)] ?? 'unknown';
+  const end = inner[inner.length - 1] ?? start;
+  return [start, ...inner, end];
+}
+
+/**
+ * Sum the distance on each surface along a line of points
+ */
+export function calculateSurfaceBreakdown(
+  surfaces: SurfaceType[],
+  distances: number[] // cumulative km at each point
+): SurfaceBreakdown {
+  const breakdown: SurfaceBreakdown = { paved: 0, gravel: 0, unpaved: 0, unknown: 0 };
+  for (let i = 0; i + 1 < distances.length; i++) {
+    breakdown[surfaces[i] ?? 'unknown'] += distances[i + 1] - distances[i];
+  }
+  return breakdown;
+}
+
+/**
+ * Shares of the total distance per surface, in display order, leaving out
+ * surfaces that don't occur
+ */
+export function getSurfaceShares(
+  breakdown: SurfaceBreakdown
+): { surface: SurfaceType; km: number; fraction: number }[] {
+  const total = SURFACE_ORDER.reduce((sum, surface) => sum + breakdown[surface], 0);
+  if (total <= 0) return [];
+  return SURFACE_ORDER.filter((surface) => breakdown[surface] > 0).map((surface) => ({
+    surface,
+    km: breakdown[surface],
+    fraction: breakdown[surface] / total,
+  }));
+}
@@ -0,0 +1,23 @@
+/**
+ * Conversions between metric and imperial units. The units context formats
+ * values for display; these give the raw numbers, for charts and inputs.
+ */
+
+export const KM_TO_MILES = 0.621371;
+export const METERS_TO_FEET = 3.28084;
+
+export function kmToMiles(km: number): number {
+  return km * KM_TO_MILES;
+}
+
+export function metersToFeet(meters: number): number {
+  return Math.round(meters * METERS_TO_FEET);
+}
+
+export function milesToKm(miles: number): number {
+  return miles / KM_TO_MILES;
+}
+
+export function feetToMeters(feet: number): number {
+  return feet / METERS_TO_FEET;
+}
@@ -0,0 +1,39 @@
+/**
+ * Web Worker running the segment analysis off the main thread.
+ * Receives one AnalysisWorkerRequest, posts progress and then the result
+ * (or an error). See startSegmentAnalysis in utils/segmentAnalysisTask.ts.
+ */
+
+import { analyzeSegments } from '../utils/segmentAnalysis';
+import type {
+  AnalysisWorkerMessage,
+  AnalysisWorkerRequest,
+} from '../utils/segmentAnalysisTask';
+
+// Progress messages are only sent when the percentage changes
+let lastPercent = -1;
+
+function post(message: AnalysisWorkerMessage): void {
+  self.postMessage(message);
+}
+
+self.onmessage = (e: MessageEvent<AnalysisWorkerRequest>) => {
+  const { routes, options } = e.data;
+  try {
+    const result = analyzeSegments(routes, {
+      ...options,
+      onProgress: (fraction) => {
+        const percent = Math.floor(fraction * 100);
+        if (percent === lastPercent) return;
+        lastPercent = percent;
+        post({ type: 'progress', fraction });
+      },
+    });
+    post({ type: 'result', result });
+  } catch (err) {
+    post({
+      type: 'error',
+      message: err instanceof Error ? err.message : 'Segment analysis failed',
+    });
+  }
+};